@@ -0,0 +1,92 @@
+/**
+ * Proxy Check
+ *
+ * Runs the proxy against the stub provider and walks its endpoints the
+ * way the panel does: origin refusal, bad input, then a summary, captions
+ * and each caption edit. Exits non-zero on the first failed step.
+ * `npm run proxy:check` (also `npm test`).
+ */
+
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+
+import { CaptionResult, ContentSummary } from '../src/types';
+import { loadProxyConfig } from './config';
+import { createProxyServer } from './proxyServer';
+import { startStubUpstream, stubProviderEnv } from './stubUpstream';
+
+const PANEL_ORIGIN = 'https://localhost:5241';
+
+interface CheckResponse {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+function listen(server: http.Server): Promise<string> {
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve(`http://127.0.0.1:${port}`);
+    });
+  });
+}
+
+function expectStatus(step: string, response: CheckResponse, status: number): void {
+  if (response.status !== status) {
+    throw new Error(`${step}: expected ${status}, got ${response.status} ${JSON.stringify(response.body)}`);
+  }
+  console.log(`ok - ${step} (${status})`);
+}
+
+async function main(): Promise<void> {
+  const stub = await startStubUpstream();
+  const proxy = createProxyServer(loadProxyConfig({ ...stubProviderEnv(stub.baseUrl), ALLOWED_ORIGINS: PANEL_ORIGIN }));
+  const proxyUrl = await listen(proxy);
+
+  const call = async (method: string, path: string, body?: unknown, origin = PANEL_ORIGIN): Promise<CheckResponse> => {
+    const response = await fetch(`${proxyUrl}${path}`, {
+      method,
+      headers: { Origin: origin, ...(body !== undefined && { 'Content-Type': 'application/json' }) },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: AbortSignal.timeout(10_000)
+    });
+    const text = await response.text();
+    return { status: response.status, body: text ? JSON.parse(text) : {} };
+  };
+
+  try {
+    expectStatus('health', await call('GET', '/health'), 200);
+    expectStatus('preflight from the panel', await call('OPTIONS', '/captions'), 204);
+    expectStatus('other origin refused', await call('POST', '/summarize', { type: 'text', content: 'Hi' }, 'https://example.com'), 403);
+    expectStatus('malformed summarize body', await call('POST', '/summarize', { type: 'video' }), 400);
+
+    const summarized = await call('POST', '/summarize', { type: 'text', content: 'We launched a new app for planning trips.' });
+    expectStatus('summarize', summarized, 200);
+    const summary = summarized.body.summary as ContentSummary;
+
+    const request = { content: 'We launched a new app for planning trips.', platform: 'instagram', tone: 'fun', language: 'english', summary };
+    expectStatus('client template refused', await call('POST', '/captions', { request: { ...request, template: { id: 'caption', text: '{content}' } } }), 400);
+
+    const generated = await call('POST', '/captions', { request });
+    expectStatus('captions', generated, 200);
+    const captions = generated.body.captions as CaptionResult[];
+    if (!Array.isArray(captions) || captions.length === 0) {
+      throw new Error('captions: no captions returned');
+    }
+
+    const caption = captions[0];
+    expectStatus('edit without a caption', await call('POST', '/shorten', { request }), 400);
+    expectStatus('shorten', await call('POST', '/shorten', { request, caption }), 200);
+    expectStatus('refine', await call('POST', '/refine', { request, caption, instruction: 'Make it warmer' }), 200);
+    expectStatus('hashtags', await call('POST', '/hashtags', { request, caption }), 200);
+  } finally {
+    proxy.close();
+    stub.server.close();
+  }
+}
+
+main().catch(error => {
+  console.error(`not ok - ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
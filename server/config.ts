@@ -0,0 +1,103 @@
+/**
+ * Proxy Configuration
+ *
+ * Read from environment variables, so the API keys live only in the
+ * proxy's environment (or a .env file loaded by the shell):
+ * - SUMMARIZE_PROVIDER / SUMMARIZE_MODEL / SUMMARIZE_BASE_URL
+ * - CAPTION_PROVIDER / CAPTION_MODEL / CAPTION_BASE_URL
+ * - OPENAI_API_KEY, GROQ_API_KEY, GEMINI_API_KEY
+ * - PROXY_HOST, PROXY_PORT
+ * - ALLOWED_ORIGINS: comma-separated page origins that may call the
+ *   proxy, the add-on's dev server by default; * allows any page
+ * - RATE_LIMIT_REQUESTS per RATE_LIMIT_WINDOW_SECONDS, per client address
+ * - MAX_BODY_MB: largest accepted request body
+ */
+
+import { PipelineStage, ProviderId, ProviderSettings } from '../src/types';
+import { DEFAULT_PROVIDER_SETTINGS, PROVIDER_IDS, PROVIDER_PRESETS } from '../src/services/providers';
+
+export interface ProxyConfig {
+  host: string;
+  port: number;
+  allowedOrigins: string[];
+  rateLimit: {
+    requests: number;
+    windowMs: number;
+  };
+  maxBodyBytes: number;
+  // Pipeline settings with the keys filled in, used for every request
+  providers: ProviderSettings;
+}
+
+type Env = Record<string, string | undefined>;
+
+// Where the panel is served from during development (webpack dev server)
+const DEFAULT_ALLOWED_ORIGIN = 'https://localhost:5241';
+
+// Environment variable holding each provider's API key
+const API_KEY_VARIABLES: Partial<Record<ProviderId, string>> = {
+  openai: 'OPENAI_API_KEY',
+  groq: 'GROQ_API_KEY',
+  gemini: 'GEMINI_API_KEY'
+};
+
+function readNumber(env: Env, name: string, fallback: number): number {
+  const value = env[name];
+  if (value === undefined || value === '') return fallback;
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`${name} must be a positive number, got "${value}"`);
+  }
+  return parsed;
+}
+
+function readStage(env: Env, stage: PipelineStage): ProviderSettings[PipelineStage] {
+  const prefix = stage.toUpperCase();
+  const providerId = (env[`${prefix}_PROVIDER`] || DEFAULT_PROVIDER_SETTINGS[stage].providerId) as ProviderId;
+
+  if (!PROVIDER_IDS.includes(providerId)) {
+    throw new Error(`${prefix}_PROVIDER must be one of ${PROVIDER_IDS.join(', ')}, got "${providerId}"`);
+  }
+
+  const preset = PROVIDER_PRESETS[providerId];
+  return {
+    providerId,
+    baseUrl: env[`${prefix}_BASE_URL`] || preset.defaultBaseUrl,
+    model: env[`${prefix}_MODEL`] || preset.defaultModel
+  };
+}
+
+export function loadProxyConfig(env: Env): ProxyConfig {
+  const apiKeys: ProviderSettings['apiKeys'] = {};
+  for (const [providerId, variable] of Object.entries(API_KEY_VARIABLES) as [ProviderId, string][]) {
+    const key = env[variable]?.trim();
+    if (key) apiKeys[providerId] = key;
+  }
+
+  const providers: ProviderSettings = {
+    summarize: readStage(env, 'summarize'),
+    caption: readStage(env, 'caption'),
+    apiKeys,
+    proxy: DEFAULT_PROVIDER_SETTINGS.proxy
+  };
+
+  for (const stage of ['summarize', 'caption'] as PipelineStage[]) {
+    const preset = PROVIDER_PRESETS[providers[stage].providerId];
+    if (preset.requiresApiKey && !apiKeys[preset.id]) {
+      throw new Error(`Set ${API_KEY_VARIABLES[preset.id]} for the ${stage} stage (${preset.label})`);
+    }
+  }
+
+  return {
+    host: env.PROXY_HOST || '127.0.0.1',
+    port: readNumber(env, 'PROXY_PORT', 8787),
+    allowedOrigins: (env.ALLOWED_ORIGINS || DEFAULT_ALLOWED_ORIGIN).split(',').map(origin => origin.trim()).filter(Boolean),
+    rateLimit: {
+      requests: readNumber(env, 'RATE_LIMIT_REQUESTS', 20),
+      windowMs: readNumber(env, 'RATE_LIMIT_WINDOW_SECONDS', 60) * 1000
+    },
+    maxBodyBytes: Math.round(readNumber(env, 'MAX_BODY_MB', 10) * 1024 * 1024),
+    providers
+  };
+}
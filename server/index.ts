@@ -0,0 +1,40 @@
+/**
+ * CaptionCraft Proxy
+ *
+ * Entry point: `npm run proxy` with the keys in the environment (see
+ * config.ts), or `npm run proxy:stub` to run against the stub provider
+ * without any keys. `npm run proxy:check` exercises the stub path end to
+ * end (check.ts).
+ */
+
+import { loadProxyConfig } from './config';
+import { createProxyServer } from './proxyServer';
+import { startStubUpstream, stubProviderEnv } from './stubUpstream';
+
+async function main(): Promise<void> {
+  const env: Record<string, string | undefined> = { ...process.env };
+
+  if (process.argv.includes('--stub')) {
+    const { baseUrl } = await startStubUpstream();
+    Object.assign(env, stubProviderEnv(baseUrl));
+    console.log(`Stub provider listening at ${baseUrl}`);
+  }
+
+  const config = loadProxyConfig(env);
+  const server = createProxyServer(config);
+
+  server.listen(config.port, config.host, () => {
+    const { summarize, caption } = config.providers;
+    console.log(`CaptionCraft proxy listening on http://${config.host}:${config.port}`);
+    console.log(`Allowed origins: ${config.allowedOrigins.join(', ')}`);
+    if (config.allowedOrigins.includes('*')) {
+      console.warn('ALLOWED_ORIGINS is *: any web page open in a browser that can reach the proxy can use its keys');
+    }
+    console.log(`Summarize: ${summarize.providerId} (${summarize.model}), captions: ${caption.providerId} (${caption.model})`);
+  });
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
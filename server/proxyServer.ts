@@ -0,0 +1,242 @@
+/**
+ * Proxy Server
+ *
+ * Runs the summarize and caption stages, and the AI caption edits, for
+ * the panel, so the provider API keys stay on the server. Prompts come
+ * from the server's built-in templates:
+ * - POST /summarize: ProxySummarizeRequest → { summary: ContentSummary, usage }
+ * - POST /captions: ProxyCaptionsRequest → { captions: CaptionResult[], usage }
+ * - POST /shorten, /refine, /hashtags: ProxyCaptionEditRequest →
+ *   { caption: CaptionResult, usage }
+ * - GET /health
+ *
+ * `usage` lists the tokens of each provider call, so the panel can track cost.
+ *
+ * Requests are limited per client address, which the client can't
+ * choose the way it could a header, and by body size. Errors are
+ * returned as { error }.
+ */
+
+import http from 'node:http';
+
+import {
+  CaptionRequest,
+  CaptionResult,
+  ContentSummary,
+  ProviderConnection,
+  RequestControl,
+  TokenUsage
+} from '../src/types';
+import { analyzeContent } from '../src/services/geminiService';
+import { generateCaptions, refineCaption, rerollHashtags, shortenCaption } from '../src/services/gptService';
+import { resolveConnection } from '../src/services/providers';
+import { isAbortError } from '../src/services/httpClient';
+import { ProxyConfig } from './config';
+import { createRateLimiter } from './rateLimiter';
+import {
+  ProxyError,
+  readCaption,
+  readCaptionRequest,
+  readInstruction,
+  readSummarizeRequest
+} from './requests';
+
+// How long the rest of an oversized body may keep arriving after the 413
+const OVERSIZED_DRAIN_MS = 2000;
+
+function sendJson(response: http.ServerResponse, status: number, body: unknown, headers: http.OutgoingHttpHeaders = {}): void {
+  response.writeHead(status, { ...headers, 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
+/**
+ * Read and parse a JSON body, refusing it as soon as it passes the size cap
+ */
+function readJsonBody(request: http.IncomingMessage, maxBytes: number): Promise<unknown> {
+  const limit = maxBytes >= 1024 * 1024 ? `${Number((maxBytes / 1024 / 1024).toFixed(1))} MB` : `${Math.ceil(maxBytes / 1024)} KB`;
+  const tooLarge = () => new ProxyError(413, `Request body is larger than ${limit}`);
+
+  if (Number(request.headers['content-length']) > maxBytes) {
+    return Promise.reject(tooLarge());
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        // Stop keeping the body, but let it drain: closing the socket
+        // while the client is still sending would lose the 413
+        request.off('data', onData);
+        request.resume();
+        chunks.length = 0;
+        reject(tooLarge());
+        return;
+      }
+      chunks.push(chunk);
+    };
+    request.on('data', onData);
+    request.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new ProxyError(400, 'Request body must be JSON'));
+      }
+    });
+    request.on('error', reject);
+  });
+}
+
+/**
+ * Who the rate limit applies to: the address the request came from
+ */
+function clientOf(request: http.IncomingMessage): string {
+  return request.socket.remoteAddress ?? 'unknown';
+}
+
+/**
+ * Whether a browser page may use the proxy. Requests without an Origin
+ * don't come from a web page (curl, scripts) and are let through.
+ */
+function isOriginAllowed(request: http.IncomingMessage, allowedOrigins: string[]): boolean {
+  const origin = request.headers.origin;
+  return !origin || allowedOrigins.includes('*') || allowedOrigins.includes(origin);
+}
+
+function corsHeaders(request: http.IncomingMessage, allowedOrigins: string[]): http.OutgoingHttpHeaders {
+  const origin = request.headers.origin;
+  return origin && isOriginAllowed(request, allowedOrigins)
+    ? {
+        'Access-Control-Allow-Origin': origin,
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type',
+        'Access-Control-Expose-Headers': 'Retry-After',
+        Vary: 'Origin'
+      }
+    : {};
+}
+
+export function createProxyServer(config: ProxyConfig): http.Server {
+  const limiter = createRateLimiter(config.rateLimit.requests, config.rateLimit.windowMs);
+
+  const summarize = async (body: unknown, signal: AbortSignal): Promise<{ summary: ContentSummary; usage: TokenUsage[] }> => {
+    const { input, type } = readSummarizeRequest(body);
+    const usage: TokenUsage[] = [];
+    const summary = await analyzeContent(
+      input,
+      type,
+      resolveConnection(config.providers, 'summarize'),
+      { signal, onUsage: call => usage.push(call) }
+    );
+    return { summary, usage };
+  };
+
+  const captions = async (body: unknown, signal: AbortSignal) => {
+    const request = readCaptionRequest(body);
+    const usage: TokenUsage[] = [];
+    const results = await generateCaptions(request, resolveConnection(config.providers, 'caption'), {
+      signal,
+      onUsage: call => usage.push(call)
+    });
+    return { captions: results, usage };
+  };
+
+  // Shorten, refine and hashtag re-rolls: one caption in, the edited caption out
+  const editCaption = (
+    edit: (request: CaptionRequest, connection: ProviderConnection, caption: CaptionResult, body: unknown, control: RequestControl) => Promise<CaptionResult>
+  ) => async (body: unknown, signal: AbortSignal) => {
+    const request = readCaptionRequest(body);
+    const caption = readCaption(body);
+    const usage: TokenUsage[] = [];
+    const edited = await edit(request, resolveConnection(config.providers, 'caption'), caption, body, {
+      signal,
+      onUsage: call => usage.push(call)
+    });
+    return { caption: edited, usage };
+  };
+
+  const routes: Record<string, (body: unknown, signal: AbortSignal) => Promise<unknown>> = {
+    '/summarize': summarize,
+    '/captions': captions,
+    '/shorten': editCaption((request, connection, caption, _body, control) =>
+      shortenCaption(request, connection, caption, control)),
+    '/refine': editCaption((request, connection, caption, body, control) =>
+      refineCaption(request, connection, caption, readInstruction(body), control)),
+    '/hashtags': editCaption((request, connection, caption, _body, control) =>
+      rerollHashtags(request, connection, caption, control))
+  };
+
+  return http.createServer(async (request, response) => {
+    const cors = corsHeaders(request, config.allowedOrigins);
+    const path = new URL(request.url ?? '/', 'http://localhost').pathname;
+
+    // Refused before any work: CORS alone only hides the answer from other
+    // pages, while a simple POST would still spend the provider keys
+    if (!isOriginAllowed(request, config.allowedOrigins)) {
+      sendJson(response, 403, { error: `Origin ${request.headers.origin} is not allowed` });
+      return;
+    }
+
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204, cors);
+      response.end();
+      return;
+    }
+
+    if (request.method === 'GET' && path === '/health') {
+      sendJson(response, 200, { status: 'ok' }, cors);
+      return;
+    }
+
+    const route = routes[path];
+    if (request.method !== 'POST' || !route) {
+      sendJson(response, 404, { error: 'Not found' }, cors);
+      return;
+    }
+
+    const limit = limiter.take(clientOf(request));
+    if (!limit.allowed) {
+      const seconds = Math.ceil(limit.retryAfterMs / 1000);
+      sendJson(response, 429, { error: `Too many requests. Try again in ${seconds}s.` }, {
+        ...cors,
+        'Retry-After': String(seconds)
+      });
+      return;
+    }
+
+    // Stop the upstream calls when the panel cancels or goes away
+    const controller = new AbortController();
+    response.on('close', () => {
+      if (!response.writableFinished) controller.abort();
+    });
+
+    try {
+      const body = await readJsonBody(request, config.maxBodyBytes);
+      const result = await route(body, controller.signal);
+      if (controller.signal.aborted) return;
+      sendJson(response, 200, result, cors);
+    } catch (error) {
+      if (isAbortError(error) || response.destroyed) return;
+
+      if (error instanceof ProxyError) {
+        sendJson(response, error.status, { error: error.message }, {
+          ...cors,
+          // The rest of an oversized body isn't kept
+          ...(error.status === 413 && { Connection: 'close' })
+        });
+        // Once the 413 is out, stop draining a client that keeps sending
+        if (error.status === 413) {
+          response.on('finish', () => setTimeout(() => request.socket.destroy(), OVERSIZED_DRAIN_MS).unref());
+        }
+        return;
+      }
+
+      // The pipeline's own errors are written for users; others (TypeError...) stay in the log
+      console.error(`${path} failed:`, error);
+      const message = error instanceof Error && error.name === 'Error' ? error.message : 'Upstream request failed';
+      sendJson(response, 502, { error: message }, cors);
+    }
+  });
+}
@@ -0,0 +1,43 @@
+/**
+ * Rate Limiter
+ *
+ * Sliding-window request limit per client: at most `requests` requests in
+ * any `windowMs`. Users are told how long to wait for the next slot.
+ */
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterMs: number; // 0 when allowed
+}
+
+export interface RateLimiter {
+  take(clientId: string, now?: number): RateLimitResult;
+}
+
+export function createRateLimiter(requests: number, windowMs: number): RateLimiter {
+  // Start times of each client's requests inside the current window
+  const history = new Map<string, number[]>();
+
+  return {
+    take(clientId, now = Date.now()) {
+      const recent = (history.get(clientId) ?? []).filter(time => now - time < windowMs);
+
+      if (recent.length >= requests) {
+        history.set(clientId, recent);
+        return { allowed: false, retryAfterMs: recent[0] + windowMs - now };
+      }
+
+      recent.push(now);
+      history.set(clientId, recent);
+
+      // Forget idle clients now and then, so the map doesn't grow forever
+      if (history.size > 1000) {
+        for (const [id, times] of history) {
+          if (times.every(time => now - time >= windowMs)) history.delete(id);
+        }
+      }
+
+      return { allowed: true, retryAfterMs: 0 };
+    }
+  };
+}
@@ -0,0 +1,220 @@
+/**
+ * Proxy Requests
+ *
+ * Reads request bodies into the pipeline's types. Only known fields are
+ * copied, and every field is checked, so bad input is answered with a
+ * 400 before any provider is called. Prompts always come from the
+ * server's template registry: templates sent by clients are refused.
+ */
+
+import {
+  BrandKit,
+  CaptionRequest,
+  CaptionResult,
+  ContentSummary,
+  EmojiPolicy,
+  JsonSchema,
+  ProxySummarizeRequest,
+  Tone
+} from '../src/types';
+import { PLATFORM_IDS } from '../src/services/platforms';
+import { LANGUAGE_IDS } from '../src/services/languages';
+import { formatIssues, validateSchema } from '../src/services/structuredOutput';
+
+const TONE_IDS: Tone[] = ['professional', 'fun', 'genz', 'motivational'];
+
+const EMOJI_POLICIES: EmojiPolicy[] = ['none', 'minimal', 'expressive'];
+
+const INPUT_TYPES: ProxySummarizeRequest['type'][] = ['text', 'pdf', 'image'];
+
+const stringList: JsonSchema = { type: 'array', items: { type: 'string' } };
+
+const SUMMARY_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: { mainIdea: { type: 'string' }, bulletPoints: stringList, keywords: stringList },
+  required: ['mainIdea', 'bulletPoints', 'keywords']
+};
+
+const CAPTION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    caption: { type: 'string', minLength: 1 },
+    hookLines: stringList,
+    cta: { type: 'string' },
+    hashtags: stringList,
+    firstComment: { type: 'string' },
+    templateVersion: { type: 'string' }
+  },
+  required: ['id', 'caption', 'hookLines', 'cta', 'hashtags']
+};
+
+// Longest accepted refine instruction
+const MAX_INSTRUCTION_LENGTH = 2000;
+
+const BRAND_KIT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    voice: { type: 'string' },
+    doExamples: stringList,
+    dontExamples: stringList,
+    bannedWords: stringList,
+    requiredHashtags: stringList,
+    defaultCta: { type: 'string' },
+    emojiPolicy: { type: 'string' }
+  },
+  required: ['id', 'name', 'voice', 'doExamples', 'dontExamples', 'bannedWords', 'requiredHashtags', 'defaultCta', 'emojiPolicy']
+};
+
+/**
+ * An error with the HTTP status to answer with
+ */
+export class ProxyError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Throw a 400 naming every field that doesn't match the schema
+ */
+function check(value: unknown, schema: JsonSchema, path: string): void {
+  const issues = validateSchema(value, schema, path);
+  if (issues.length > 0) {
+    throw new ProxyError(400, `Invalid request: ${formatIssues(issues)}`);
+  }
+}
+
+/**
+ * Prompts are rendered only from the server's own templates
+ */
+function refuseTemplate(value: unknown, path: string): void {
+  if (value !== undefined) {
+    throw new ProxyError(400, `${path} is not accepted: the proxy uses its own prompt templates`);
+  }
+}
+
+function readSummary(value: unknown, path: string): ContentSummary | undefined {
+  if (value === undefined) return undefined;
+  check(value, SUMMARY_SCHEMA, path);
+
+  const { mainIdea, bulletPoints, keywords } = value as ContentSummary;
+  return { mainIdea, bulletPoints, keywords };
+}
+
+function readBrandKit(value: unknown, path: string): BrandKit | undefined {
+  if (value === undefined || value === null) return undefined;
+  check(value, BRAND_KIT_SCHEMA, path);
+
+  const kit = value as BrandKit;
+  if (!EMOJI_POLICIES.includes(kit.emojiPolicy)) {
+    throw new ProxyError(400, `${path}.emojiPolicy must be one of ${EMOJI_POLICIES.join(', ')}`);
+  }
+  return {
+    id: kit.id,
+    name: kit.name,
+    voice: kit.voice,
+    doExamples: kit.doExamples,
+    dontExamples: kit.dontExamples,
+    bannedWords: kit.bannedWords,
+    requiredHashtags: kit.requiredHashtags,
+    defaultCta: kit.defaultCta,
+    emojiPolicy: kit.emojiPolicy
+  };
+}
+
+export function readSummarizeRequest(body: unknown): { input: string | File; type: ProxySummarizeRequest['type'] } {
+  if (!isObject(body) || !INPUT_TYPES.includes(body.type as ProxySummarizeRequest['type'])) {
+    throw new ProxyError(400, `type must be one of ${INPUT_TYPES.join(', ')}`);
+  }
+
+  const { type, content, data, mimeType, fileName } = body as Partial<ProxySummarizeRequest>;
+  refuseTemplate(body.template, 'template');
+
+  if (type === 'text') {
+    if (typeof content !== 'string' || content.trim().length < 10) {
+      throw new ProxyError(400, 'content must be text of at least 10 characters');
+    }
+    return { input: content, type };
+  }
+
+  if (typeof data !== 'string' || !data) throw new ProxyError(400, 'data must be a base64 string');
+  const fallbackType = type === 'pdf' ? 'application/pdf' : 'image/jpeg';
+  const file = new File([Buffer.from(data, 'base64')], typeof fileName === 'string' ? fileName : `upload.${type}`, {
+    type: typeof mimeType === 'string' && mimeType ? mimeType : fallbackType
+  });
+  return { input: file, type: type as ProxySummarizeRequest['type'] };
+}
+
+/**
+ * The caption request in a body's `request` field
+ */
+export function readCaptionRequest(body: unknown): CaptionRequest {
+  const request = isObject(body) ? body.request : undefined;
+  if (!isObject(request)) throw new ProxyError(400, 'request must be a caption request');
+
+  const { content, platform, tone, language } = request as Partial<CaptionRequest>;
+  if (typeof content !== 'string') throw new ProxyError(400, 'request.content must be a string');
+  if (!platform || !PLATFORM_IDS.includes(platform)) {
+    throw new ProxyError(400, `request.platform must be one of ${PLATFORM_IDS.join(', ')}`);
+  }
+  if (!tone || !TONE_IDS.includes(tone)) {
+    throw new ProxyError(400, `request.tone must be one of ${TONE_IDS.join(', ')}`);
+  }
+  if (!language || !LANGUAGE_IDS.includes(language)) {
+    throw new ProxyError(400, `request.language must be one of ${LANGUAGE_IDS.join(', ')}`);
+  }
+  if (request.pinnedHashtags !== undefined) check(request.pinnedHashtags, stringList, 'request.pinnedHashtags');
+
+  const summary = readSummary(request.summary, 'request.summary');
+  const brandKit = readBrandKit(request.brandKit, 'request.brandKit');
+  refuseTemplate(request.template, 'request.template');
+
+  return {
+    content,
+    platform,
+    tone,
+    language,
+    ...(summary && { summary }),
+    ...(brandKit && { brandKit }),
+    ...(request.pinnedHashtags !== undefined && { pinnedHashtags: request.pinnedHashtags as string[] })
+  };
+}
+
+/**
+ * The caption to edit in a body's `caption` field
+ */
+export function readCaption(body: unknown): CaptionResult {
+  const caption = isObject(body) ? body.caption : undefined;
+  check(caption, CAPTION_SCHEMA, 'caption');
+
+  const { id, caption: text, hookLines, cta, hashtags, firstComment, templateVersion } = caption as CaptionResult;
+  return {
+    id,
+    caption: text,
+    hookLines,
+    cta,
+    hashtags,
+    ...(firstComment !== undefined && { firstComment }),
+    ...(templateVersion !== undefined && { templateVersion })
+  };
+}
+
+/**
+ * The user's refine instruction in a body's `instruction` field
+ */
+export function readInstruction(body: unknown): string {
+  const instruction = isObject(body) ? body.instruction : undefined;
+  if (typeof instruction !== 'string' || !instruction.trim()) {
+    throw new ProxyError(400, 'instruction must be a non-empty string');
+  }
+  if (instruction.length > MAX_INSTRUCTION_LENGTH) {
+    throw new ProxyError(400, `instruction must be at most ${MAX_INSTRUCTION_LENGTH} characters`);
+  }
+  return instruction.trim();
+}
@@ -0,0 +1,122 @@
+/**
+ * Stub Upstream
+ *
+ * A fake OpenAI-compatible provider with canned answers, for running the
+ * proxy (and tests against it) without real API keys or network access.
+ * Answers are picked by the structured-output format the request asks for.
+ */
+
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+
+import { RawCaption, RawContentSummary } from '../src/services/outputSchemas';
+
+const STUB_SUMMARY: RawContentSummary = {
+  mainIdea: 'A stub summary of the submitted content.',
+  bulletPoints: [
+    'The proxy received the content and forwarded it upstream.',
+    'This answer came from the stub provider, not a real model.',
+    'Captions are written from this summary.'
+  ],
+  keywords: ['proxy', 'stub', 'captions']
+};
+
+const stubCaption = (index: number): RawCaption => ({
+  text: `Stub caption ${index + 1}: written by the stub provider behind the CaptionCraft proxy.`,
+  hookLines: [`Stub hook ${index + 1}`],
+  cta: 'Tell us what you think!',
+  hashtags: ['captioncraft', 'stub']
+});
+
+// Canned JSON for each output schema name
+const STUB_ANSWERS: Record<string, () => unknown> = {
+  content_summary: () => STUB_SUMMARY,
+  captions: () => ({ captions: [0, 1, 2].map(stubCaption) }),
+  caption: () => ({ caption: stubCaption(3) }),
+  hashtags: () => ({ hashtags: ['captioncraft', 'stub'] })
+};
+
+interface StubCompletionBody {
+  response_format?: { json_schema?: { name?: string } };
+  messages?: { content?: unknown }[];
+}
+
+/**
+ * Guess the expected answer from the prompt when the request has no
+ * schema name (json_object mode)
+ */
+function answerFor(body: StubCompletionBody): unknown {
+  const name = body.response_format?.json_schema?.name;
+  if (name && STUB_ANSWERS[name]) return STUB_ANSWERS[name]();
+
+  const prompt = JSON.stringify(body.messages ?? []).toLowerCase();
+  return prompt.includes('caption') ? STUB_ANSWERS.captions() : STUB_ANSWERS.content_summary();
+}
+
+function sendJson(response: http.ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
+export function createStubUpstream(): http.Server {
+  return http.createServer((request, response) => {
+    if (request.method === 'GET' && request.url === '/v1/models') {
+      sendJson(response, 200, { object: 'list', data: [{ id: 'stub-model', object: 'model' }] });
+      return;
+    }
+
+    if (request.method !== 'POST' || request.url !== '/v1/chat/completions') {
+      sendJson(response, 404, { error: { message: 'Not found' } });
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    request.on('data', chunk => chunks.push(chunk));
+    request.on('end', () => {
+      let body: StubCompletionBody;
+      try {
+        body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+      } catch {
+        sendJson(response, 400, { error: { message: 'Invalid JSON' } });
+        return;
+      }
+
+      sendJson(response, 200, {
+        id: `stub-${Date.now()}`,
+        object: 'chat.completion',
+        model: 'stub-model',
+        choices: [{ index: 0, message: { role: 'assistant', content: JSON.stringify(answerFor(body)) }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 100, completion_tokens: 50, total_tokens: 150 }
+      });
+    });
+  });
+}
+
+/**
+ * Start the stub on a free local port and return its OpenAI-style base URL
+ */
+export function startStubUpstream(): Promise<{ server: http.Server; baseUrl: string }> {
+  const server = createStubUpstream();
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, baseUrl: `http://127.0.0.1:${port}/v1` });
+    });
+  });
+}
+
+/**
+ * Proxy environment that sends both stages to the stub at `baseUrl`
+ */
+export function stubProviderEnv(baseUrl: string): Record<string, string> {
+  return {
+    SUMMARIZE_PROVIDER: 'openai',
+    SUMMARIZE_BASE_URL: baseUrl,
+    SUMMARIZE_MODEL: 'stub-model',
+    CAPTION_PROVIDER: 'openai',
+    CAPTION_BASE_URL: baseUrl,
+    CAPTION_MODEL: 'stub-model',
+    OPENAI_API_KEY: 'stub'
+  };
+}
@@ -2,11 +2,34 @@
  * Document Sandbox Code for CaptionCraft AI
  * 
  * This code runs in the Adobe Express document sandbox and provides
- * APIs to insert generated captions directly into the canvas as text elements.
+ * APIs to insert generated captions directly into the canvas as styled,
+ * positioned text elements (on the current artboard or distributed across
+ * several), to replace the text of a selected text node, and to read the
+ * selected content so it can be captioned.
  */
 
 import addOnSandboxSdk from "add-on-sdk-document-sandbox";
-import { editor } from "express-document-sdk";
+import {
+  ArtboardNode,
+  colorUtils,
+  constants,
+  ContainerNode,
+  editor,
+  EditorEvent,
+  GroupNode,
+  Node,
+  Point,
+  TextNode
+} from "express-document-sdk";
+import {
+  ArtboardCaption,
+  ArtboardInfo,
+  CanvasSelectionContent,
+  CaptionParts,
+  InsertOptions,
+  InsertPlacement,
+  PanelApi
+} from "../types";
 
 // Get the runtime from the sandbox SDK
 const { runtime } = addOnSandboxSdk.instance;
@@ -16,14 +39,253 @@ const { runtime } = addOnSandboxSdk.instance;
  * Exposes methods to the UI runtime for document manipulation
  */
 interface SandboxApi {
-  insertTextIntoCanvas(text: string): Promise<boolean>;
+  insertTextIntoCanvas(text: string, options?: InsertOptions): Promise<boolean>;
+  insertCaption(parts: CaptionParts, options: InsertOptions): Promise<boolean>;
+  readSelectionContent(): Promise<CanvasSelectionContent>;
+  isSingleTextSelected(): Promise<boolean>;
+  replaceSelectedText(parts: CaptionParts): Promise<boolean>;
+  listArtboards(): Promise<ArtboardInfo[]>;
+  insertCaptionsIntoArtboards(items: ArtboardCaption[], options: InsertOptions): Promise<number>;
+}
+
+// Distance from the artboard edge for corner placements
+const PAGE_MARGIN = 40;
+
+// Space between the selection and the caption, and between separate parts
+const GAP = 16;
+
+// Font size of each caption part relative to the chosen size
+const PART_SCALE: Record<keyof CaptionParts, number> = {
+  hook: 1.3,
+  body: 1,
+  cta: 1,
+  hashtags: 0.85
+};
+
+const PART_ORDER: (keyof CaptionParts)[] = ['hook', 'body', 'cta', 'hashtags'];
+
+/**
+ * All caption parts as one text, separated by blank lines
+ */
+function joinParts(parts: CaptionParts): string {
+  return PART_ORDER.map(part => parts[part]?.trim()).filter(Boolean).join('\n\n');
+}
+
+/**
+ * Create a text node with the chosen size, colour, alignment and wrap width
+ */
+function createStyledText(text: string, fontSize: number, options: InsertOptions): TextNode {
+  const textNode = editor.createText(text);
+  
+  textNode.fullContent.applyCharacterStyles({
+    fontSize,
+    color: colorUtils.fromHex(options.color)
+  });
+  textNode.textAlignment = constants.TextAlignment[options.align];
+  
+  if (options.maxWidth > 0) {
+    textNode.layout = { type: constants.TextLayout.autoHeight, width: options.maxWidth };
+  }
+  
+  return textNode;
+}
+
+/**
+ * Stack one text node per caption part inside a group
+ */
+function createPartsGroup(parts: CaptionParts, options: InsertOptions): GroupNode {
+  const group = editor.createGroup();
+  const nodes = PART_ORDER
+    .filter(part => parts[part]?.trim())
+    .map(part => createStyledText(parts[part]!.trim(), Math.round(options.fontSize * PART_SCALE[part]), options));
+  
+  group.children.append(...nodes);
+  
+  // Align parts against the widest one, top to bottom
+  const width = Math.max(...nodes.map(node => node.boundsLocal.width));
+  let y = 0;
+  for (const node of nodes) {
+    const bounds = node.boundsLocal;
+    const x = options.align === 'center'
+      ? (width - bounds.width) / 2
+      : options.align === 'right' ? width - bounds.width : 0;
+    
+    node.setPositionInParent({ x, y }, { x: bounds.x, y: bounds.y });
+    y += bounds.height + GAP;
+  }
+  
+  return group;
+}
+
+/**
+ * Where to put a node of the given size on the artboard, as a point in
+ * the artboard and the matching point of the node
+ */
+function getPlacement(
+  placement: InsertPlacement,
+  node: Node,
+  artboard: { width?: number; height?: number },
+  anchor: Node | undefined
+): { parentPoint: Point; localPoint: Point } {
+  const bounds = node.boundsLocal;
+  const topLeft = { x: bounds.x, y: bounds.y };
+  
+  if (placement === 'below-selection' && anchor) {
+    const anchorBounds = anchor.boundsInParent;
+    return {
+      parentPoint: { x: anchorBounds.x, y: anchorBounds.y + anchorBounds.height + GAP },
+      localPoint: topLeft
+    };
+  }
+  
+  if (artboard.width === undefined || artboard.height === undefined) {
+    // Default positioning if we can't get dimensions
+    return { parentPoint: { x: 50, y: 100 }, localPoint: topLeft };
+  }
+  
+  const { width, height } = artboard;
+  const right = bounds.x + bounds.width;
+  const bottom = bounds.y + bounds.height;
+  
+  switch (placement) {
+    case 'top-left':
+      return { parentPoint: { x: PAGE_MARGIN, y: PAGE_MARGIN }, localPoint: topLeft };
+    case 'top-right':
+      return { parentPoint: { x: width - PAGE_MARGIN, y: PAGE_MARGIN }, localPoint: { x: right, y: bounds.y } };
+    case 'bottom-left':
+      return { parentPoint: { x: PAGE_MARGIN, y: height - PAGE_MARGIN }, localPoint: { x: bounds.x, y: bottom } };
+    case 'bottom-right':
+      return { parentPoint: { x: width - PAGE_MARGIN, y: height - PAGE_MARGIN }, localPoint: { x: right, y: bottom } };
+    default:
+      // Center, also used for "below selection" when nothing is selected
+      return {
+        parentPoint: { x: width / 2, y: height / 2 },
+        localPoint: { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 }
+      };
+  }
+}
+
+/**
+ * Add a caption to a container: one text node, or one styled node per
+ * part (grouped), positioned as the options describe
+ */
+function placeCaption(
+  container: ContainerNode,
+  parts: CaptionParts,
+  options: InsertOptions,
+  anchor?: Node
+): Node {
+  const node: Node = options.layout === 'separate'
+    ? createPartsGroup(parts, options)
+    : createStyledText(joinParts(parts), options.fontSize, options);
+  
+  container.children.append(node);
+  
+  const { parentPoint, localPoint } = getPlacement(options.placement, node, container, anchor);
+  node.setPositionInParent(parentPoint, localPoint);
+  
+  return node;
+}
+
+/**
+ * Insert a caption into the current Adobe Express canvas
+ */
+async function insertCaption(parts: CaptionParts, options: InsertOptions): Promise<boolean> {
+  try {
+    // Get the insertion parent (current artboard/container)
+    const insertionParent = editor.context.insertionParent;
+    
+    if (!insertionParent) {
+      console.error('No insertion parent available');
+      return false;
+    }
+    
+    // Read the selection before inserting replaces it
+    const node = placeCaption(insertionParent, parts, options, editor.context.selection[0]);
+    
+    // Select the inserted caption so user can see it and modify if needed
+    editor.context.selection = [node];
+    
+    console.log('Caption inserted successfully');
+    return true;
+  } catch (error) {
+    console.error('Failed to insert caption:', error);
+    return false;
+  }
+}
+
+/**
+ * Every artboard in the document, in page order
+ */
+function getArtboards(): { node: ArtboardNode; info: ArtboardInfo }[] {
+  const artboards: { node: ArtboardNode; info: ArtboardInfo }[] = [];
+  let pageNumber = 0;
+  
+  for (const page of editor.documentRoot.pages) {
+    pageNumber++;
+    const pageArtboards = [...page.artboards];
+    const pageLabel = page.name?.trim() || `Page ${pageNumber}`;
+    
+    pageArtboards.forEach((artboard, index) => {
+      artboards.push({
+        node: artboard,
+        info: {
+          id: artboard.id,
+          label: pageArtboards.length > 1 ? `${pageLabel} · Artboard ${index + 1}` : pageLabel,
+          isCurrent: artboard.id === editor.context.insertionParent?.id
+        }
+      });
+    });
+  }
+  
+  return artboards;
+}
+
+async function listArtboards(): Promise<ArtboardInfo[]> {
+  try {
+    return getArtboards().map(artboard => artboard.info);
+  } catch (error) {
+    console.error('Failed to list artboards:', error);
+    return [];
+  }
+}
+
+/**
+ * Insert captions into specific artboards in one edit
+ * Returns how many were inserted (unknown artboards are skipped)
+ */
+async function insertCaptionsIntoArtboards(items: ArtboardCaption[], options: InsertOptions): Promise<number> {
+  const artboards = new Map(getArtboards().map(artboard => [artboard.info.id, artboard.node]));
+  let inserted = 0;
+  
+  try {
+    await editor.queueAsyncEdit(() => {
+      for (const item of items) {
+        const artboard = artboards.get(item.artboardId);
+        if (!artboard) continue;
+        
+        placeCaption(artboard, item.parts, options);
+        inserted++;
+      }
+    });
+    
+    console.log(`Captions inserted into ${inserted} artboards`);
+  } catch (error) {
+    console.error('Failed to insert captions into artboards:', error);
+  }
+  
+  return inserted;
 }
 
 /**
  * Insert text into the current Adobe Express canvas
- * Creates a styled text element and adds it to the current artboard
+ * Without options, plain text is placed at 10%/40% of the artboard
  */
-async function insertTextIntoCanvas(text: string): Promise<boolean> {
+async function insertTextIntoCanvas(text: string, options?: InsertOptions): Promise<boolean> {
+  if (options) {
+    return insertCaption({ body: text }, { ...options, layout: 'single' });
+  }
+  
   try {
     // Create a new text node with the caption content
     const textNode = editor.createText(text);
@@ -40,20 +302,9 @@ async function insertTextIntoCanvas(text: string): Promise<boolean> {
     insertionParent.children.append(textNode);
     
     // Position the text in a visible area
-    // Get the page/artboard dimensions to center the text
-    const artboard = insertionParent;
-    
-    // Check if we can get width/height from the artboard
-    if ('width' in artboard && 'height' in artboard) {
-      const artboardWidth = (artboard as { width: number }).width;
-      const artboardHeight = (artboard as { height: number }).height;
-      
-      // Position text in the center-ish area of the artboard
-      const xPos = artboardWidth * 0.1; // 10% from left
-      const yPos = artboardHeight * 0.4; // 40% from top
-      
+    if (insertionParent.width !== undefined && insertionParent.height !== undefined) {
       textNode.setPositionInParent(
-        { x: xPos, y: yPos },
+        { x: insertionParent.width * 0.1, y: insertionParent.height * 0.4 },
         { x: 0, y: 0 }
       );
     } else {
@@ -75,18 +326,110 @@ async function insertTextIntoCanvas(text: string): Promise<boolean> {
   }
 }
 
+/**
+ * Collect text and group names from a node and everything inside it
+ */
+function collectContent(node: Node, content: CanvasSelectionContent): void {
+  if (node.type === "Text") {
+    const text = (node as TextNode).fullContent.text.trim();
+    if (text) content.texts.push(text);
+    return;
+  }
+  
+  if (node.type === "Group") {
+    const name = (node as GroupNode).name?.trim();
+    if (name) content.groupNames.push(name);
+  }
+  
+  for (const child of node.allChildren) {
+    collectContent(child, content);
+  }
+}
+
+/**
+ * Read the current selection: text of selected text nodes (also inside
+ * selected groups), group names and the current page's name
+ */
+async function readSelectionContent(): Promise<CanvasSelectionContent> {
+  const content: CanvasSelectionContent = {
+    texts: [],
+    groupNames: [],
+    pageName: editor.context.currentPage?.name?.trim() || undefined
+  };
+  
+  try {
+    for (const node of editor.context.selection) {
+      collectContent(node, content);
+    }
+  } catch (error) {
+    console.error('Failed to read selection:', error);
+  }
+  
+  return content;
+}
+
+/**
+ * The selected text node, when exactly one text node is selected
+ */
+function getSelectedTextNode(): TextNode | undefined {
+  const { selection } = editor.context;
+  return selection.length === 1 && selection[0].type === "Text"
+    ? selection[0] as TextNode
+    : undefined;
+}
+
+async function isSingleTextSelected(): Promise<boolean> {
+  return getSelectedTextNode() !== undefined;
+}
+
+/**
+ * Replace the text of the selected text node in place, keeping its
+ * styling and position, as a single undoable edit
+ */
+async function replaceSelectedText(parts: CaptionParts): Promise<boolean> {
+  const textNode = getSelectedTextNode();
+  if (!textNode) {
+    console.error('No single text node selected');
+    return false;
+  }
+  
+  try {
+    await editor.queueAsyncEdit(() => {
+      textNode.fullContent.text = joinParts(parts);
+    });
+    
+    console.log('Text replaced successfully');
+    return true;
+  } catch (error) {
+    console.error('Failed to replace text:', error);
+    return false;
+  }
+}
+
 /**
  * Start the sandbox and expose APIs to the UI runtime
  */
-function start(): void {
+async function start(): Promise<void> {
   // Define the API to expose to the UI
   const sandboxApi: SandboxApi = {
-    insertTextIntoCanvas
+    insertTextIntoCanvas,
+    insertCaption,
+    readSelectionContent,
+    isSingleTextSelected,
+    replaceSelectedText,
+    listArtboards,
+    insertCaptionsIntoArtboards
   };
   
   // Expose the API to the UI runtime
   runtime.exposeApi(sandboxApi);
   
+  // Tell the panel when a single text node is (de)selected, so Insert can become Replace
+  const panel = await runtime.apiProxy<PanelApi>("panel");
+  editor.context.on(EditorEvent.selectionChange, () => {
+    panel.onSelectionChange(getSelectedTextNode() !== undefined);
+  });
+  
   console.log('CaptionCraft AI: Document sandbox initialized');
 }
 
@@ -0,0 +1,245 @@
+/**
+ * API Key Manager
+ *
+ * Keeps provider API keys encrypted at rest in client storage:
+ * - AES-GCM, with a fresh IV for every stored value
+ * - By default the encryption key is a non-extractable device key kept
+ *   in IndexedDB, so its bytes can't be read out of storage
+ * - With a passphrase, the key is derived from it (PBKDF2) instead and
+ *   the keys stay locked until the passphrase is entered
+ *
+ * Keys are tested with a cheap provider request when saved, and only
+ * shown masked.
+ */
+
+import {
+  ApiKeyCheck,
+  KeyValueStorage,
+  PipelineStage,
+  ProviderConnection,
+  ProviderId,
+  ProviderSettings,
+  RequestControl
+} from '../types';
+import { createProvider, PROVIDER_PRESETS, resolveConnection } from './providers';
+import { isAbortError } from './httpClient';
+
+export const API_KEY_VAULT_STORAGE_KEY = 'apiKeyVault';
+
+const DEVICE_KEY_DATABASE = 'captioncraft-keys';
+const DEVICE_KEY_STORE = 'keys';
+const DEVICE_KEY_ID = 'apiKeyVault';
+
+const PBKDF2_ITERATIONS = 310_000;
+
+// Encrypted alongside the keys, so a wrong passphrase is told apart from damaged data
+const VERIFIER_TEXT = 'captioncraft-api-keys';
+
+// Characters left visible at each end of a masked key
+const MASK_PREFIX = 3;
+const MASK_SUFFIX = 4;
+
+type ApiKeys = Partial<Record<ProviderId, string>>;
+
+interface EncryptedValue {
+  iv: string;   // base64
+  data: string; // base64 ciphertext with the GCM tag
+}
+
+interface StoredApiKey extends EncryptedValue {
+  check?: ApiKeyCheck; // Last test result, kept in the clear
+}
+
+export interface ApiKeyVault {
+  version: 1;
+  protection: 'device' | 'passphrase';
+  salt?: string; // PBKDF2 salt (base64) when protected by a passphrase
+  verifier: EncryptedValue;
+  keys: Partial<Record<ProviderId, StoredApiKey>>;
+}
+
+// Decrypted keys with their last test results
+export interface ApiKeySet {
+  keys: ApiKeys;
+  checks: Partial<Record<ProviderId, ApiKeyCheck>>;
+}
+
+const toBase64 = (bytes: Uint8Array): string => btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join(''));
+
+const fromBase64 = (text: string): Uint8Array<ArrayBuffer> => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+const randomBytes = (length: number): Uint8Array<ArrayBuffer> => crypto.getRandomValues(new Uint8Array(length));
+
+/**
+ * Resolve an IndexedDB request as a promise
+ */
+function whenDone<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDeviceKeyDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('Encrypted key storage is not available in this browser'));
+  }
+
+  const request = indexedDB.open(DEVICE_KEY_DATABASE, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(DEVICE_KEY_STORE);
+  return whenDone(request);
+}
+
+/**
+ * The device's AES-GCM key, created on first use. IndexedDB stores the
+ * CryptoKey itself, which can encrypt and decrypt but not be exported.
+ */
+async function getDeviceKey(): Promise<CryptoKey> {
+  const database = await openDeviceKeyDatabase();
+
+  try {
+    const existing = await whenDone(
+      database.transaction(DEVICE_KEY_STORE).objectStore(DEVICE_KEY_STORE).get(DEVICE_KEY_ID)
+    );
+    if (existing instanceof CryptoKey) return existing;
+
+    const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+    await whenDone(
+      database.transaction(DEVICE_KEY_STORE, 'readwrite').objectStore(DEVICE_KEY_STORE).put(key, DEVICE_KEY_ID)
+    );
+    return key;
+  } finally {
+    database.close();
+  }
+}
+
+async function derivePassphraseKey(passphrase: string, salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+async function encrypt(key: CryptoKey, text: string): Promise<EncryptedValue> {
+  const iv = randomBytes(12);
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text));
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+}
+
+async function decrypt(key: CryptoKey, value: EncryptedValue): Promise<string> {
+  const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(value.iv) }, key, fromBase64(value.data));
+  return new TextDecoder().decode(data);
+}
+
+/**
+ * Key as shown in the UI: "sk-••••a1B2", or only dots when it is too
+ * short to reveal any of it
+ */
+export function maskApiKey(key: string): string {
+  const trimmed = key.trim();
+  if (trimmed.length < (MASK_PREFIX + MASK_SUFFIX) * 2) return '••••••••';
+  return `${trimmed.slice(0, MASK_PREFIX)}••••${trimmed.slice(-MASK_SUFFIX)}`;
+}
+
+/**
+ * Test a key with a cheap request to its provider, using the endpoint
+ * and model of the stage that uses the provider (or its defaults)
+ */
+export async function checkApiKey(
+  settings: ProviderSettings,
+  providerId: ProviderId,
+  key: string,
+  control: RequestControl = {}
+): Promise<ApiKeyCheck> {
+  const preset = PROVIDER_PRESETS[providerId];
+  const stage = (['caption', 'summarize'] as PipelineStage[]).find(s => settings[s].providerId === providerId);
+  const connection: ProviderConnection = stage
+    ? { ...resolveConnection(settings, stage), apiKey: key.trim() }
+    : { providerId, baseUrl: preset.defaultBaseUrl, model: preset.defaultModel, apiKey: key.trim() };
+
+  try {
+    const accepted = await createProvider(connection).checkKey(control);
+    return accepted
+      ? { status: 'valid', message: `${preset.label} accepted the key`, checkedAt: Date.now() }
+      : { status: 'invalid', message: `${preset.label} rejected the key`, checkedAt: Date.now() };
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    // fetch rejects with a TypeError when the server can't be reached
+    const reason = error instanceof TypeError
+      ? `${preset.label} could not be reached`
+      : error instanceof Error ? error.message : 'Unknown error';
+    return { status: 'unverified', message: `Not tested: ${reason}`, checkedAt: Date.now() };
+  }
+}
+
+/**
+ * Encrypt and store the keys, with the passphrase if one is given
+ * (otherwise with the device key)
+ */
+export async function saveApiKeyVault(storage: KeyValueStorage, keySet: ApiKeySet, passphrase?: string): Promise<void> {
+  const salt = passphrase ? randomBytes(16) : undefined;
+  const cryptoKey = passphrase && salt ? await derivePassphraseKey(passphrase, salt) : await getDeviceKey();
+
+  const keys: ApiKeyVault['keys'] = {};
+  for (const [providerId, key] of Object.entries(keySet.keys) as [ProviderId, string][]) {
+    if (!key) continue;
+    const check = keySet.checks[providerId];
+    keys[providerId] = { ...await encrypt(cryptoKey, key), ...(check && { check }) };
+  }
+
+  const vault: ApiKeyVault = {
+    version: 1,
+    protection: passphrase ? 'passphrase' : 'device',
+    ...(salt && { salt: toBase64(salt) }),
+    verifier: await encrypt(cryptoKey, VERIFIER_TEXT),
+    keys
+  };
+  await storage.setItem(API_KEY_VAULT_STORAGE_KEY, vault);
+}
+
+export async function loadApiKeyVault(storage: KeyValueStorage): Promise<ApiKeyVault | null> {
+  try {
+    const saved = await storage.getItem(API_KEY_VAULT_STORAGE_KEY) as ApiKeyVault | undefined;
+    return saved?.version === 1 && saved.verifier ? saved : null;
+  } catch (error) {
+    console.error('Failed to load API keys:', error);
+    return null;
+  }
+}
+
+/**
+ * Decrypt the stored keys. Passphrase vaults need the passphrase;
+ * throws when it is wrong, or when the device key is gone (site data
+ * cleared), in which case the keys must be entered again.
+ */
+export async function unlockApiKeyVault(vault: ApiKeyVault, passphrase?: string): Promise<ApiKeySet> {
+  let cryptoKey: CryptoKey;
+  if (vault.protection === 'passphrase') {
+    if (!passphrase || !vault.salt) {
+      throw new Error('Enter your passphrase to unlock the API keys');
+    }
+    cryptoKey = await derivePassphraseKey(passphrase, fromBase64(vault.salt));
+  } else {
+    cryptoKey = await getDeviceKey();
+  }
+
+  try {
+    if (await decrypt(cryptoKey, vault.verifier) !== VERIFIER_TEXT) throw new Error('Verifier mismatch');
+  } catch {
+    throw new Error(vault.protection === 'passphrase'
+      ? 'Wrong passphrase'
+      : 'Saved API keys could not be decrypted on this device. Please enter them again.');
+  }
+
+  const keySet: ApiKeySet = { keys: {}, checks: {} };
+  for (const [providerId, stored] of Object.entries(vault.keys) as [ProviderId, StoredApiKey][]) {
+    keySet.keys[providerId] = await decrypt(cryptoKey, stored);
+    if (stored.check) keySet.checks[providerId] = stored.check;
+  }
+  return keySet;
+}
@@ -0,0 +1,131 @@
+/**
+ * Brand Kit Service
+ *
+ * User-defined brand guidelines stored in client storage:
+ * - Voice description and do/don't example sentences
+ * - Banned words and required hashtags (hard rules, checked locally)
+ * - Default CTA and emoji policy
+ *
+ * The active kit is added to the caption prompt, and generated captions
+ * are checked against its hard rules so violations can be flagged.
+ */
+
+import { BrandKit, BrandViolation, CaptionResult, EmojiPolicy, KeyValueStorage } from '../types';
+
+export const BRAND_KITS_STORAGE_KEY = 'brandKits';
+export const ACTIVE_BRAND_KIT_STORAGE_KEY = 'activeBrandKitId';
+
+const EMOJI_POLICY_INSTRUCTIONS: Record<EmojiPolicy, string> = {
+  none: 'Do NOT use any emojis.',
+  minimal: 'Use at most one emoji per caption, only where it adds meaning.',
+  expressive: 'Emojis are welcome where they fit the voice.'
+};
+
+/**
+ * New kit with empty rules
+ */
+export function createBrandKit(name: string = 'New brand kit'): BrandKit {
+  return {
+    id: `kit-${Date.now()}`,
+    name,
+    voice: '',
+    doExamples: [],
+    dontExamples: [],
+    bannedWords: [],
+    requiredHashtags: [],
+    defaultCta: '',
+    emojiPolicy: 'minimal'
+  };
+}
+
+export async function loadBrandKits(
+  storage: KeyValueStorage
+): Promise<{ kits: BrandKit[]; activeId: string | null }> {
+  try {
+    const kits = await storage.getItem(BRAND_KITS_STORAGE_KEY);
+    const activeId = await storage.getItem(ACTIVE_BRAND_KIT_STORAGE_KEY);
+    return {
+      kits: Array.isArray(kits) ? (kits as BrandKit[]) : [],
+      activeId: typeof activeId === 'string' ? activeId : null
+    };
+  } catch (error) {
+    console.error('Failed to load brand kits:', error);
+    return { kits: [], activeId: null };
+  }
+}
+
+export async function saveBrandKits(
+  storage: KeyValueStorage,
+  kits: BrandKit[],
+  activeId: string | null
+): Promise<void> {
+  await storage.setItem(BRAND_KITS_STORAGE_KEY, kits);
+  await storage.setItem(ACTIVE_BRAND_KIT_STORAGE_KEY, activeId);
+}
+
+/**
+ * Build the brand section of the caption prompt
+ */
+export function buildBrandKitPrompt(kit: BrandKit): string {
+  const sections = [`BRAND KIT: ${kit.name}`];
+
+  if (kit.voice.trim()) {
+    sections.push(`Brand voice: ${kit.voice.trim()}`);
+  }
+  if (kit.doExamples.length > 0) {
+    sections.push(`Write like these examples:\n${kit.doExamples.map(e => `✓ ${e}`).join('\n')}`);
+  }
+  if (kit.dontExamples.length > 0) {
+    sections.push(`NEVER write like these examples:\n${kit.dontExamples.map(e => `✗ ${e}`).join('\n')}`);
+  }
+  if (kit.bannedWords.length > 0) {
+    sections.push(`BANNED WORDS (never use these, in any form): ${kit.bannedWords.join(', ')}`);
+  }
+  if (kit.requiredHashtags.length > 0) {
+    sections.push(`REQUIRED HASHTAGS (include all of these in every caption's hashtags): ${kit.requiredHashtags.map(h => `#${h}`).join(' ')}`);
+  }
+  if (kit.defaultCta.trim()) {
+    sections.push(`Default call-to-action (use it, adapting wording only lightly): ${kit.defaultCta.trim()}`);
+  }
+  sections.push(`Emoji policy: ${EMOJI_POLICY_INSTRUCTIONS[kit.emojiPolicy]}`);
+
+  return `${sections.join('\n')}
+
+The brand kit overrides the tone guidelines wherever they conflict.`;
+}
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const normalizeTag = (tag: string): string => tag.replace(/^#/, '').toLowerCase();
+
+/**
+ * Check a caption against the kit's hard rules
+ */
+export function checkBrandRules(caption: CaptionResult, kit: BrandKit): BrandViolation[] {
+  const violations: BrandViolation[] = [];
+  const text = [caption.caption, caption.cta, ...caption.hookLines, ...caption.hashtags].join('\n');
+
+  for (const word of kit.bannedWords) {
+    const trimmed = word.trim();
+    if (!trimmed) continue;
+
+    // Whole-word match that also works for non-Latin scripts
+    const pattern = new RegExp(`(?<![\\p{L}\\p{M}\\p{N}])${escapeRegExp(trimmed)}(?![\\p{L}\\p{M}\\p{N}])`, 'iu');
+    if (pattern.test(text)) {
+      violations.push({ rule: 'banned-word', message: `Uses banned word "${trimmed}"` });
+    }
+  }
+
+  const present = new Set([
+    ...caption.hashtags.map(normalizeTag),
+    ...(caption.caption.match(/#[\p{L}\p{M}\p{N}_]+/gu) || []).map(normalizeTag)
+  ]);
+
+  for (const tag of kit.requiredHashtags) {
+    if (!present.has(normalizeTag(tag))) {
+      violations.push({ rule: 'missing-hashtag', message: `Missing required hashtag #${tag.replace(/^#/, '')}` });
+    }
+  }
+
+  return violations;
+}
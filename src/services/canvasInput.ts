@@ -0,0 +1,33 @@
+/**
+ * Canvas Input
+ *
+ * Turns content read from the document selection (text nodes, group
+ * and page names) into text for the normal analysis → caption pipeline.
+ */
+
+import { CanvasSelectionContent } from '../types';
+
+/**
+ * Text to analyze: page and group names as context, then the selected text
+ */
+export function formatCanvasContent(content: CanvasSelectionContent): string {
+  const context: string[] = [];
+
+  if (content.pageName) {
+    context.push(`Page: ${content.pageName}`);
+  }
+  if (content.groupNames.length > 0) {
+    context.push(`Groups: ${content.groupNames.join(', ')}`);
+  }
+
+  return [context.join('\n'), content.texts.join('\n\n')]
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+/**
+ * Whether the selection has any text to caption
+ */
+export function hasCanvasText(content: CanvasSelectionContent | null): boolean {
+  return !!content && content.texts.length > 0;
+}
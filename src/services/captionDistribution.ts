@@ -0,0 +1,57 @@
+/**
+ * Caption Distribution
+ *
+ * Maps captions onto the document's pages/artboards for carousels and
+ * multi-page designs: one caption variant per artboard, or a single
+ * caption split into per-slide pieces.
+ */
+
+import { ArtboardInfo, CaptionResult } from '../types';
+import { splitSentences } from './textSegmentation';
+
+/**
+ * Default variant mapping: caption 1 on the first artboard, caption 2
+ * on the second, ... (null = leave the artboard empty)
+ */
+export function mapVariantsToArtboards(
+  artboards: ArtboardInfo[],
+  captions: CaptionResult[]
+): (string | null)[] {
+  return artboards.map((_, index) => captions[index]?.id ?? null);
+}
+
+/**
+ * Split caption text into at most `count` slides of similar length,
+ * at paragraph breaks when there are enough of them, otherwise at
+ * sentence boundaries
+ */
+export function splitIntoSlides(text: string, count: number, locale?: string): string[] {
+  if (count <= 1) return [text.trim()];
+
+  const paragraphs = text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+  const units = paragraphs.length >= count ? paragraphs : splitSentences(text, locale);
+  if (units.length <= count) return units;
+
+  const separator = units === paragraphs ? '\n\n' : ' ';
+  const target = units.reduce((sum, unit) => sum + unit.length, 0) / count;
+  const slides: string[] = [];
+  let current: string[] = [];
+  let length = 0;
+
+  units.forEach((unit, index) => {
+    current.push(unit);
+    length += unit.length;
+
+    // Close the slide once it reaches its share, keeping a unit for each remaining slide
+    const slidesLeft = count - slides.length - 1;
+    const unitsLeft = units.length - index - 1;
+    if (slidesLeft > 0 && (length >= target || unitsLeft === slidesLeft)) {
+      slides.push(current.join(separator));
+      current = [];
+      length = 0;
+    }
+  });
+
+  if (current.length > 0) slides.push(current.join(separator));
+  return slides;
+}
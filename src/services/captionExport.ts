@@ -0,0 +1,280 @@
+/**
+ * Caption Export
+ *
+ * Turns generated captions (current results or history runs) into text
+ * for copying, or files for download: a generic CSV, the CSV layouts
+ * Buffer, Hootsuite and Later import, JSON and Markdown. Optional
+ * schedule columns give each caption a posting time.
+ */
+
+import {
+  CaptionExportSource,
+  CaptionResult,
+  ExportFormat,
+  ExportOptions,
+  Language,
+  Platform,
+  PlatformCaptionSet,
+  Tone
+} from '../types';
+import { formatCaptionText, getPlatform } from './platforms';
+import { getLanguage } from './languages';
+
+/**
+ * One exported caption with its settings and posting time
+ */
+interface ExportRow {
+  platform: Platform;
+  tone: Tone;
+  language: Language;
+  caption: CaptionResult;
+  postText: string; // Caption with hashtags appended the way the platform posts them
+  scheduledAt?: Date;
+}
+
+interface ExportFile {
+  fileName: string;
+  content: string;
+  mimeType: string;
+}
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV (all columns)',
+  buffer: 'CSV for Buffer',
+  hootsuite: 'CSV for Hootsuite',
+  later: 'CSV for Later',
+  json: 'JSON',
+  markdown: 'Markdown'
+};
+
+// Formats whose importers reject posts without a date
+export const SCHEDULE_REQUIRED_FORMATS: ExportFormat[] = ['hootsuite'];
+
+/**
+ * Plain text for the clipboard, one block per platform
+ */
+export function formatCaptionSetText(sets: PlatformCaptionSet[]): string {
+  return sets
+    .filter(set => set.captions.length > 0)
+    .map(set => {
+      const spec = getPlatform(set.platform);
+      const captions = set.captions.map((caption, index) =>
+        `Caption ${index + 1}:\n${formatCaptionText(caption, set.platform)}`
+        + (caption.firstComment ? `\n\nFirst comment:\n${caption.firstComment}` : '')
+      );
+      return `${spec.icon} ${spec.label.toUpperCase()}\n\n${captions.join('\n\n')}`;
+    })
+    .join('\n\n---\n\n');
+}
+
+/**
+ * One row per caption, scheduled one interval apart in export order
+ */
+function toRows(sources: CaptionExportSource[], options: ExportOptions): ExportRow[] {
+  const rows = sources.flatMap(source => source.captions.map(caption => ({
+    platform: source.platform,
+    tone: source.tone,
+    language: source.language,
+    caption,
+    postText: formatCaptionText(caption, source.platform)
+  })));
+
+  const { schedule } = options;
+  if (!schedule) return rows;
+
+  return rows.map((row, index) => ({
+    ...row,
+    scheduledAt: new Date(schedule.start + index * schedule.intervalMinutes * 60_000)
+  }));
+}
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+// Dates are written in local time, as the scheduling tools read them
+const formatDate = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const formatTime = (date: Date): string => `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+const formatDateTime = (date?: Date): string => date ? `${formatDate(date)} ${formatTime(date)}` : '';
+
+const formatHashtags = (caption: CaptionResult): string => caption.hashtags.map(tag => `#${tag}`).join(' ');
+
+// Spreadsheets run cells that start with these as formulas
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/**
+ * Quote a CSV field when it contains a delimiter, quote or line break.
+ * Unless `raw`, model text that would start a formula is prefixed
+ * with ' so spreadsheets show it as text.
+ */
+function escapeCsv(value: string, raw = false): string {
+  const text = !raw && FORMULA_START.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) || text !== text.trim()
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+}
+
+/**
+ * CSV text with a byte order mark, so spreadsheets read non-Latin scripts as UTF-8.
+ * `postColumn` is the text a scheduler publishes as-is, so it is never prefixed.
+ */
+function toCsv(header: string[] | null, rows: string[][], postColumn?: number): string {
+  const lines = (header ? [header, ...rows] : rows)
+    .map(row => row.map((value, column) => escapeCsv(value, column === postColumn)).join(','));
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
+
+// Settings and caption parts as separate columns, shared by the CSV layouts
+const DETAIL_HEADER = ['Platform', 'Tone', 'Language', 'Hook Lines', 'CTA', 'Hashtags', 'First Comment'];
+
+const detailColumns = (row: ExportRow): string[] => [
+  getPlatform(row.platform).label,
+  row.tone,
+  getLanguage(row.language).label,
+  row.caption.hookLines.join(' | '),
+  row.caption.cta,
+  formatHashtags(row.caption),
+  row.caption.firstComment ?? ''
+];
+
+function toGenericCsv(rows: ExportRow[], scheduled: boolean): string {
+  return toCsv(
+    ['Caption', ...DETAIL_HEADER, 'Post Text', ...(scheduled ? ['Scheduled Date', 'Scheduled Time'] : [])],
+    rows.map(row => [
+      row.caption.caption,
+      ...detailColumns(row),
+      row.postText,
+      ...(scheduled && row.scheduledAt ? [formatDate(row.scheduledAt), formatTime(row.scheduledAt)] : [])
+    ])
+  );
+}
+
+// Buffer bulk upload: Text, Image URL, Tags, Posting Time (YYYY-MM-DD HH:mm)
+function toBufferCsv(rows: ExportRow[]): string {
+  return toCsv(
+    ['Text', 'Image URL', 'Tags', 'Posting Time', ...DETAIL_HEADER],
+    rows.map(row => [row.postText, '', '', formatDateTime(row.scheduledAt), ...detailColumns(row)]),
+    0
+  );
+}
+
+// Hootsuite bulk composer reads columns by position and has no header row:
+// date (DD/MM/YYYY HH:mm), message, optional link
+function toHootsuiteCsv(rows: ExportRow[]): string {
+  return toCsv(null, rows.map(row => [
+    row.scheduledAt
+      ? `${pad(row.scheduledAt.getDate())}/${pad(row.scheduledAt.getMonth() + 1)}/${row.scheduledAt.getFullYear()} ${formatTime(row.scheduledAt)}`
+      : '',
+    row.postText,
+    ''
+  ]), 1);
+}
+
+// Later bulk upload: Date (YYYY-MM-DD), Time (HH:mm), Caption
+function toLaterCsv(rows: ExportRow[]): string {
+  return toCsv(
+    ['Date', 'Time', 'Caption', ...DETAIL_HEADER],
+    rows.map(row => [
+      row.scheduledAt ? formatDate(row.scheduledAt) : '',
+      row.scheduledAt ? formatTime(row.scheduledAt) : '',
+      row.postText,
+      ...detailColumns(row)
+    ]),
+    2
+  );
+}
+
+function toJson(rows: ExportRow[]): string {
+  return JSON.stringify({
+    exportedAt: new Date().toISOString(),
+    captions: rows.map(row => ({
+      platform: row.platform,
+      tone: row.tone,
+      language: row.language,
+      caption: row.caption.caption,
+      hookLines: row.caption.hookLines,
+      cta: row.caption.cta,
+      hashtags: row.caption.hashtags,
+      ...(row.caption.firstComment && { firstComment: row.caption.firstComment }),
+      postText: row.postText,
+      ...(row.caption.templateVersion && { templateVersion: row.caption.templateVersion }),
+      ...(row.scheduledAt && { scheduledAt: row.scheduledAt.toISOString() })
+    }))
+  }, null, 2);
+}
+
+/**
+ * Markdown document with a section per platform run
+ */
+function toMarkdown(sources: CaptionExportSource[], rows: ExportRow[]): string {
+  let rowIndex = 0;
+
+  const sections = sources
+    .filter(source => source.captions.length > 0)
+    .map(source => {
+      const spec = getPlatform(source.platform);
+      const captions = source.captions.map((caption, index) => {
+        const { postText, scheduledAt } = rows[rowIndex++];
+        const lines = [`### Caption ${index + 1}`, '', postText];
+        if (caption.hookLines.length > 0) {
+          lines.push('', '**Hooks**', ...caption.hookLines.map(hook => `- ${hook}`));
+        }
+        if (caption.cta) {
+          lines.push('', `**Call to action:** ${caption.cta}`);
+        }
+        if (caption.firstComment) {
+          lines.push('', `**First comment:** ${caption.firstComment}`);
+        }
+        if (scheduledAt) {
+          lines.push('', `**Scheduled:** ${formatDateTime(scheduledAt)}`);
+        }
+        return lines.join('\n');
+      });
+      const settings = `${source.tone} · ${getLanguage(source.language).label}`;
+      return `## ${spec.icon} ${spec.label}\n\n_${settings}_\n\n${captions.join('\n\n')}`;
+    });
+
+  return `# Captions\n\n${sections.join('\n\n')}\n`;
+}
+
+/**
+ * Build the export file for the chosen format
+ */
+export function exportCaptions(sources: CaptionExportSource[], options: ExportOptions): ExportFile {
+  if (SCHEDULE_REQUIRED_FORMATS.includes(options.format) && !options.schedule) {
+    throw new Error(`${EXPORT_FORMAT_LABELS[options.format]} needs a posting schedule`);
+  }
+
+  const rows = toRows(sources, options);
+  const date = formatDate(new Date());
+
+  switch (options.format) {
+    case 'csv':
+      return { fileName: `captions-${date}.csv`, content: toGenericCsv(rows, !!options.schedule), mimeType: 'text/csv' };
+    case 'buffer':
+      return { fileName: `captions-buffer-${date}.csv`, content: toBufferCsv(rows), mimeType: 'text/csv' };
+    case 'hootsuite':
+      return { fileName: `captions-hootsuite-${date}.csv`, content: toHootsuiteCsv(rows), mimeType: 'text/csv' };
+    case 'later':
+      return { fileName: `captions-later-${date}.csv`, content: toLaterCsv(rows), mimeType: 'text/csv' };
+    case 'json':
+      return { fileName: `captions-${date}.json`, content: toJson(rows), mimeType: 'application/json' };
+    case 'markdown':
+      return { fileName: `captions-${date}.md`, content: toMarkdown(sources, rows), mimeType: 'text/markdown' };
+  }
+}
+
+/**
+ * Download text as a file from the panel
+ */
+export function downloadTextFile(fileName: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,69 @@
+/**
+ * Caption Refinement
+ *
+ * Quick refine instructions for a caption card and the version stack
+ * that lets the card step back and forward between edits.
+ */
+
+import { CaptionResult, CaptionVersionStack, RefinePreset } from '../types';
+
+// Oldest versions are dropped beyond this
+export const MAX_CAPTION_VERSIONS = 10;
+
+export const REFINE_PRESETS: Record<RefinePreset, { label: string; instruction: string }> = {
+  'shorter': {
+    label: 'Shorter',
+    instruction: 'Make the caption noticeably shorter while keeping the key message and the call-to-action.'
+  },
+  'punchier-hook': {
+    label: 'Punchier hook',
+    instruction: 'Rewrite the opening line and hook lines to be punchier and more attention-grabbing.'
+  },
+  'more-emojis': {
+    label: 'More emojis',
+    instruction: 'Add a few more relevant emojis, without overdoing it.'
+  },
+  'fewer-emojis': {
+    label: 'Fewer emojis',
+    instruction: 'Remove most emojis, keeping at most one or two where they add meaning.'
+  },
+  'add-question': {
+    label: 'Add a question',
+    instruction: 'Add a question for the audience that invites comments.'
+  },
+  'more-formal': {
+    label: 'More formal',
+    instruction: 'Make the wording more formal and polished, without slang.'
+  }
+};
+
+export const REFINE_PRESET_IDS = Object.keys(REFINE_PRESETS) as RefinePreset[];
+
+/**
+ * Add an edit on top of the version shown, dropping any versions after
+ * it. `current` is the caption as the card shows it now, so fixes made
+ * since the last edit are kept in the stack.
+ */
+export function pushVersion(
+  stack: CaptionVersionStack | undefined,
+  current: CaptionResult,
+  next: CaptionResult
+): CaptionVersionStack {
+  const earlier = stack ? stack.versions.slice(0, stack.index) : [];
+  const versions = [...earlier, current, next].slice(-MAX_CAPTION_VERSIONS);
+  return { versions, index: versions.length - 1 };
+}
+
+/**
+ * Move `offset` versions back (negative) or forward, keeping the
+ * caption as the card shows it now in place of the version it left
+ */
+export function stepVersion(
+  stack: CaptionVersionStack,
+  current: CaptionResult,
+  offset: number
+): CaptionVersionStack {
+  const index = Math.min(Math.max(stack.index + offset, 0), stack.versions.length - 1);
+  const versions = stack.versions.map((version, i) => i === stack.index ? current : version);
+  return { versions, index };
+}
@@ -0,0 +1,205 @@
+/**
+ * Caption Scoring
+ *
+ * Scores captions locally so the variants can be ranked: readability,
+ * hook length and strength, emoji density, call-to-action, coverage of
+ * the content keywords and fit to the platform's ideal length. Each
+ * factor is 0-100 with a short explanation; the total is their
+ * weighted average.
+ */
+
+import { CaptionResult, CaptionScore, Language, Platform, ScoreFactor, ScoreFactorId } from '../types';
+import { getPlatform } from './platforms';
+import { getLanguage } from './languages';
+import { countChars } from './captionValidator';
+import { splitSentences, splitWords } from './textSegmentation';
+
+const FACTOR_WEIGHTS: Record<ScoreFactorId, number> = {
+  readability: 20,
+  hook: 20,
+  emoji: 10,
+  cta: 15,
+  keywords: 15,
+  length: 20
+};
+
+const EMOJI_PATTERN = /\p{Extended_Pictographic}/gu;
+
+// Hooks of this many words read at a glance
+const IDEAL_HOOK_WORDS = { min: 4, max: 12 };
+
+// Covering this share of the keywords counts as full coverage
+const FULL_KEYWORD_COVERAGE = 0.6;
+
+export interface ScoreContext {
+  platform: Platform;
+  language: Language;
+  keywords?: string[]; // ContentSummary keywords; the factor is skipped without them
+}
+
+const clamp = (value: number): number => Math.round(Math.min(100, Math.max(0, value)));
+
+// Score falling linearly from 100 at `good` to 0 at `bad`
+const scale = (value: number, good: number, bad: number): number => clamp(((value - bad) / (good - bad)) * 100);
+
+const describeReadability = (score: number): string =>
+  score >= 80 ? 'Easy to read' : score >= 60 ? 'Plain' : score >= 40 ? 'Fairly hard' : 'Hard to read';
+
+/**
+ * English syllables by vowel groups, ignoring a silent final "e"
+ */
+function countSyllables(word: string): number {
+  const groups = word.toLowerCase().replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').match(/[aeiouy]+/g);
+  return Math.max(1, groups?.length ?? 0);
+}
+
+/**
+ * Flesch reading ease for English; words per sentence for other
+ * languages, where syllable counts don't carry over
+ */
+function scoreReadability(text: string, locale: string): ScoreFactor {
+  const sentences = splitSentences(text, locale);
+  const words = splitWords(text, locale);
+  const wordsPerSentence = words.length / Math.max(1, sentences.length);
+
+  if (locale === 'en') {
+    const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0);
+    const ease = 206.835 - 1.015 * wordsPerSentence - 84.6 * (syllables / Math.max(1, words.length));
+    const score = scale(ease, 70, 30);
+    return { id: 'readability', label: 'Readability', score, detail: `${describeReadability(score)} (Flesch ${Math.round(ease)})` };
+  }
+
+  const score = scale(wordsPerSentence, 12, 30);
+  return {
+    id: 'readability',
+    label: 'Readability',
+    score,
+    detail: `${describeReadability(score)} (${Math.round(wordsPerSentence)} words per sentence)`
+  };
+}
+
+/**
+ * The opening line: short enough to read at a glance, with something
+ * that stops the scroll (a question, a number, "you", an exclamation)
+ */
+function scoreHook(caption: CaptionResult, locale: string): ScoreFactor {
+  const hook = caption.hookLines[0] || splitSentences(caption.caption, locale)[0] || '';
+  const wordCount = splitWords(hook, locale).length;
+
+  const lengthScore = wordCount < IDEAL_HOOK_WORDS.min
+    ? scale(wordCount, IDEAL_HOOK_WORDS.min, 0)
+    : scale(wordCount, IDEAL_HOOK_WORDS.max, IDEAL_HOOK_WORDS.max * 2.5);
+
+  const signals = [
+    /[?？؟]/.test(hook) && 'question',
+    /\p{N}/u.test(hook) && 'number',
+    /\b(?:you|your|you're)\b/i.test(hook) && '"you"',
+    /[!！]/.test(hook) && 'exclamation'
+  ].filter((signal): signal is string => !!signal);
+
+  return {
+    id: 'hook',
+    label: 'Hook',
+    score: clamp(lengthScore * 0.6 + Math.min(100, signals.length * 50) * 0.4),
+    detail: wordCount === 0
+      ? 'No hook'
+      : `${wordCount}-word hook${signals.length > 0 ? `: ${signals.join(', ')}` : ''}`
+  };
+}
+
+/**
+ * A few emojis help on most platforms; none is fine, too many is noise
+ */
+function scoreEmoji(text: string, locale: string): ScoreFactor {
+  const emojis = (text.match(EMOJI_PATTERN) || []).length;
+  const words = Math.max(1, splitWords(text, locale).length);
+  const max = Math.max(3, Math.round(words / 25));
+
+  const score = emojis === 0 ? 60 : emojis <= max ? 100 : clamp(100 - (emojis - max) * 15);
+  const detail = emojis === 0
+    ? 'No emojis'
+    : `${emojis} emoji${emojis === 1 ? '' : 's'}${emojis > max ? `, more than ${max} is a lot` : ''}`;
+
+  return { id: 'emoji', label: 'Emojis', score, detail };
+}
+
+function scoreCta(caption: CaptionResult): ScoreFactor {
+  return caption.cta.trim()
+    ? { id: 'cta', label: 'Call to action', score: 100, detail: 'Has a call to action' }
+    : { id: 'cta', label: 'Call to action', score: 0, detail: 'No call to action' };
+}
+
+/**
+ * Share of the content keywords found in the caption, hooks or hashtags
+ */
+function scoreKeywords(caption: CaptionResult, keywords: string[]): ScoreFactor {
+  const text = [caption.caption, ...caption.hookLines].join(' ').toLowerCase();
+  const tags = caption.hashtags.map(tag => tag.toLowerCase());
+
+  const found = keywords.filter(keyword => {
+    const lower = keyword.toLowerCase().trim();
+    return text.includes(lower) || tags.includes(lower.replace(/[^\p{L}\p{M}\p{N}]+/gu, ''));
+  });
+
+  return {
+    id: 'keywords',
+    label: 'Keywords',
+    score: clamp((found.length / keywords.length / FULL_KEYWORD_COVERAGE) * 100),
+    detail: `${found.length}/${keywords.length} keywords`
+  };
+}
+
+/**
+ * Caption text length against the platform's ideal window
+ */
+function scoreLength(caption: CaptionResult, platform: Platform): ScoreFactor {
+  const { idealLength, charLimit } = getPlatform(platform);
+  const length = countChars(caption.caption);
+
+  const score = length < idealLength.min
+    ? scale(length, idealLength.min, 0)
+    : length <= idealLength.max
+      ? 100
+      : length > charLimit ? 0 : scale(length, idealLength.max, idealLength.max * 2);
+
+  return {
+    id: 'length',
+    label: 'Length',
+    score,
+    detail: `${length} chars (ideal ${idealLength.min}-${idealLength.max})`
+  };
+}
+
+/**
+ * Score one caption
+ */
+export function scoreCaption(caption: CaptionResult, context: ScoreContext): CaptionScore {
+  const { locale } = getLanguage(context.language);
+  const keywords = (context.keywords ?? []).filter(keyword => keyword.trim());
+
+  const factors = [
+    scoreReadability(caption.caption, locale),
+    scoreHook(caption, locale),
+    scoreEmoji(caption.caption, locale),
+    scoreCta(caption),
+    ...(keywords.length > 0 ? [scoreKeywords(caption, keywords)] : []),
+    scoreLength(caption, context.platform)
+  ];
+
+  const weight = factors.reduce((sum, factor) => sum + FACTOR_WEIGHTS[factor.id], 0);
+  const total = factors.reduce((sum, factor) => sum + factor.score * FACTOR_WEIGHTS[factor.id], 0) / weight;
+
+  return { total: Math.round(total), factors };
+}
+
+/**
+ * Captions with their scores, best first (ties keep their order)
+ */
+export function rankCaptions(
+  captions: CaptionResult[],
+  context: ScoreContext
+): { caption: CaptionResult; score: CaptionScore }[] {
+  return captions
+    .map(caption => ({ caption, score: scoreCaption(caption, context) }))
+    .sort((a, b) => b.score.total - a.score.total);
+}
@@ -0,0 +1,219 @@
+/**
+ * Caption Validator
+ *
+ * Checks captions against the platform registry's rules (character
+ * limit, hashtag counts, link handling) and applies deterministic
+ * one-click fixes: trimming or removing hashtags, moving them to a
+ * first comment, shortening at sentence boundaries, removing links.
+ */
+
+import { CaptionFix, CaptionResult, ConstraintIssue, Platform } from '../types';
+import { formatCaptionText, getPlatform } from './platforms';
+
+const HASHTAG_PATTERN = /#[\p{L}\p{M}\p{N}_]+/gu;
+const TRAILING_HASHTAGS_PATTERN = /(?:\s*#[\p{L}\p{M}\p{N}_]+)+\s*$/u;
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)\S+/gi;
+const HAS_URL_PATTERN = /\b(?:https?:\/\/|www\.)\S+/i;
+
+// Sentence-boundary cuts shorter than this share of the budget fall back to word cuts
+const MIN_SENTENCE_CUT_RATIO = 0.4;
+
+// Shortening drops appended hashtags until the text keeps at least this share of the limit
+const MIN_SHORTEN_BODY_RATIO = 0.5;
+
+/**
+ * Length as users and platforms count it (code points, not UTF-16 units)
+ */
+export function countChars(text: string): number {
+  return [...text].length;
+}
+
+const normalizeTag = (tag: string): string => tag.replace(/^#/, '').toLowerCase();
+
+/**
+ * Unique hashtags from the hashtag list and the caption text, plus the
+ * first comment's when `withComment` is set
+ */
+function collectHashtags(caption: CaptionResult, withComment = false): string[] {
+  const inline = caption.caption.match(HASHTAG_PATTERN) || [];
+  const comment = withComment ? caption.firstComment?.match(HASHTAG_PATTERN) || [] : [];
+  return [...new Set([...inline, ...caption.hashtags, ...comment].map(normalizeTag))];
+}
+
+/**
+ * Room left for the caption text once the appended hashtags are posted
+ */
+function getTextBudget(caption: CaptionResult, platform: Platform): number {
+  const suffix = getPostedLength(caption, platform) - countChars(caption.caption);
+  return getPlatform(platform).charLimit - suffix;
+}
+
+export function getPostedLength(caption: CaptionResult, platform: Platform): number {
+  return countChars(formatCaptionText(caption, platform));
+}
+
+/**
+ * Check a caption against its platform's constraints
+ */
+export function validateCaption(caption: CaptionResult, platform: Platform): ConstraintIssue[] {
+  const spec = getPlatform(platform);
+  const issues: ConstraintIssue[] = [];
+  const captionTags = collectHashtags(caption);
+  // Tags posted as the first comment still count toward the platform's hashtag range
+  const tags = collectHashtags(caption, true);
+  const length = getPostedLength(caption, platform);
+
+  if (length > spec.charLimit) {
+    // Shortening can drop appended hashtags but never the whole text
+    const canShorten = countChars(caption.caption) > 1
+      && (caption.hashtags.length > 0 || getTextBudget(caption, platform) > 1);
+    issues.push({
+      code: 'too-long',
+      message: `${length}/${spec.charLimit} chars`,
+      fixes: [
+        ...(spec.firstComment && captionTags.length > 0 ? ['move-hashtags-to-comment' as const] : []),
+        ...(canShorten ? ['shorten' as const] : [])
+      ]
+    });
+  }
+
+  if (spec.hashtags.max === 0 && tags.length > 0) {
+    issues.push({
+      code: 'hashtags-not-allowed',
+      message: `Contains hashtags on ${spec.label}`,
+      fixes: ['remove-hashtags']
+    });
+  } else if (tags.length > spec.hashtags.max) {
+    issues.push({
+      code: 'too-many-hashtags',
+      message: `${tags.length} hashtags, max ${spec.hashtags.max}`,
+      fixes: spec.firstComment && captionTags.length > 0 ? ['trim-hashtags', 'move-hashtags-to-comment'] : ['trim-hashtags']
+    });
+  } else if (tags.length < spec.hashtags.min) {
+    issues.push({
+      code: 'too-few-hashtags',
+      message: `${tags.length} hashtags, min ${spec.hashtags.min}`,
+      fixes: []
+    });
+  }
+
+  if (spec.links !== 'inline' && HAS_URL_PATTERN.test(caption.caption)) {
+    issues.push({
+      code: 'link-not-clickable',
+      message: `Links aren't clickable in ${spec.label} captions`,
+      fixes: ['remove-links']
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Remove hashtags from caption text: a trailing block of tags is
+ * dropped, tags inside sentences lose their '#'
+ * `keep` lists tags (normalized) that should stay untouched
+ */
+function stripHashtags(text: string, keep: Set<string> = new Set()): string {
+  const trailing = text.match(TRAILING_HASHTAGS_PATTERN);
+  let body = text;
+
+  if (trailing) {
+    const kept = (trailing[0].match(HASHTAG_PATTERN) || []).filter(tag => keep.has(normalizeTag(tag)));
+    body = text.slice(0, trailing.index).trimEnd() + (kept.length > 0 ? `\n\n${kept.join(' ')}` : '');
+  }
+
+  return body.replace(HASHTAG_PATTERN, tag => keep.has(normalizeTag(tag)) ? tag : tag.slice(1));
+}
+
+/**
+ * Cut text to `budget` characters, preferring a sentence boundary
+ */
+export function shortenToLength(text: string, budget: number): string {
+  if (countChars(text) <= budget) return text;
+  if (budget <= 1) return '';
+
+  const head = [...text].slice(0, budget).join('');
+  const sentenceEnds = [...`${head} `.matchAll(/[.!?…](?=\s)|\n/g)].map(match => match.index ?? 0);
+  const lastSentenceEnd = sentenceEnds.length > 0 ? sentenceEnds[sentenceEnds.length - 1] : -1;
+
+  if (lastSentenceEnd >= head.length * MIN_SENTENCE_CUT_RATIO) {
+    return head.slice(0, lastSentenceEnd + 1).trimEnd();
+  }
+
+  // No usable sentence boundary: cut at the last word and mark the cut
+  const wordHead = [...text].slice(0, budget - 1).join('');
+  const lastSpace = wordHead.search(/\s\S*$/);
+  return `${(lastSpace > 0 ? wordHead.slice(0, lastSpace) : wordHead).trimEnd()}…`;
+}
+
+/**
+ * Apply a deterministic fix to a caption
+ */
+export function applyFix(caption: CaptionResult, fix: CaptionFix, platform: Platform): CaptionResult {
+  const spec = getPlatform(platform);
+
+  switch (fix) {
+    case 'remove-hashtags':
+      return { ...caption, caption: stripHashtags(caption.caption), hashtags: [], firstComment: undefined };
+
+    case 'trim-hashtags': {
+      const keep = new Set(collectHashtags(caption, true).slice(0, spec.hashtags.max));
+      const inText = new Set((caption.caption.match(HASHTAG_PATTERN) || []).map(normalizeTag));
+      const firstComment = caption.firstComment && stripHashtags(caption.firstComment, keep).trim();
+      return {
+        ...caption,
+        caption: stripHashtags(caption.caption, keep),
+        hashtags: caption.hashtags.filter(tag => keep.has(normalizeTag(tag)) && !inText.has(normalizeTag(tag))),
+        firstComment: firstComment || undefined
+      };
+    }
+
+    case 'move-hashtags-to-comment': {
+      // Tags already in the first comment stay there, ahead of the moved ones
+      const tags = collectHashtags(caption, true);
+      const original = new Map(
+        [...caption.hashtags, ...(caption.caption.match(HASHTAG_PATTERN) || []), ...(caption.firstComment?.match(HASHTAG_PATTERN) || [])]
+          .map(tag => [normalizeTag(tag), tag.replace(/^#/, '')] as const)
+      );
+      const commentTags = new Set((caption.firstComment?.match(HASHTAG_PATTERN) || []).map(normalizeTag));
+      const ordered = [...tags.filter(tag => commentTags.has(tag)), ...tags.filter(tag => !commentTags.has(tag))];
+      return {
+        ...caption,
+        caption: stripHashtags(caption.caption),
+        hashtags: [],
+        firstComment: ordered.map(tag => `#${original.get(tag) ?? tag}`).join(' ')
+      };
+    }
+
+    case 'shorten': {
+      // Leave room for the hashtags appended when posting; when they crowd
+      // out the text, drop them from the end first
+      const minBody = Math.min(countChars(caption.caption), Math.floor(spec.charLimit * MIN_SHORTEN_BODY_RATIO));
+      let shortened = caption;
+      while (shortened.hashtags.length > 0 && getTextBudget(shortened, platform) < minBody) {
+        shortened = { ...shortened, hashtags: shortened.hashtags.slice(0, -1) };
+      }
+      const text = shortenToLength(shortened.caption, getTextBudget(shortened, platform));
+      return { ...shortened, caption: text || shortened.caption };
+    }
+
+    case 'remove-links': {
+      const replacement = spec.links === 'bio' ? '(link in bio)' : '';
+      return {
+        ...caption,
+        caption: caption.caption
+          .replace(URL_PATTERN, replacement)
+          .replace(/[ \t]{2,}/g, ' ')
+          .trim()
+      };
+    }
+  }
+}
+
+export const FIX_LABELS: Record<CaptionFix, string> = {
+  'trim-hashtags': 'Trim hashtags',
+  'remove-hashtags': 'Remove hashtags',
+  'move-hashtags-to-comment': 'Move hashtags to first comment',
+  'shorten': 'Shorten',
+  'remove-links': 'Remove links'
+};
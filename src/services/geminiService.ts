@@ -1,259 +1,232 @@
 /**
  * Gemini API Service
  * 
- * Handles content extraction and understanding from:
+ * Handles content extraction and understanding, using the LLM provider
+ * configured for the summarize stage (Gemini by default), from:
  * - Text content
  * - PDF files (via text extraction)
  * - Images (via vision capabilities)
  * 
  * The goal is to summarize content into 3-5 bullet points
  * that capture the core idea for caption generation.
+ * Long documents are chunked, summarized per chunk, then merged a group
+ * of summaries at a time until one covers the whole document.
  */
 
-import { ContentSummary } from '../types';
+import { ContentSummary, PromptTemplate, ProviderConnection, RequestControl } from '../types';
+import { createProvider, PROVIDER_PRESETS } from './providers';
+import { extractPdfText } from './pdf';
+import { chunkText } from './textChunker';
+import { splitSentences, splitWords } from './textSegmentation';
+import { completeStructured } from './structuredOutput';
+import { CONTENT_SUMMARY_FORMAT, RawContentSummary } from './outputSchemas';
+import { PROMPT_TEMPLATE_REGISTRY, renderTemplate } from './promptTemplates';
 
-const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent';
+// Characters per summarization request
+const MAX_CHUNK_CHARS = 6000;
+
+// Chunk requests sent at once, and summaries combined per merge request
+const SUMMARY_GROUP_SIZE = 8;
+
+// Common English words that are long enough to pass as fallback keywords
+const FALLBACK_STOPWORDS = new Set([
+  'about', 'after', 'also', 'because', 'been', 'before', 'being', 'could', 'does', 'each',
+  'every', 'from', 'have', 'here', 'into', 'just', 'like', 'make', 'many', 'more', 'most',
+  'much', 'only', 'other', 'over', 'should', 'some', 'such', 'than', 'that', 'their', 'them',
+  'then', 'there', 'these', 'they', 'this', 'those', 'through', 'very', 'were', 'what', 'when',
+  'where', 'which', 'while', 'will', 'with', 'would', 'your'
+]);
 
 /**
- * Build the prompt for content summarization
- * This prompt is designed to extract the essence of content
+ * Build the prompt for content summarization from the summarize template
+ * The prompt is designed to extract the essence of content
  * for social media caption generation
  */
-function buildSummarizationPrompt(content: string, isImage: boolean = false): string {
-  const contextType = isImage ? 'image' : 'content';
-  
-  return `You are a content analyst specializing in social media marketing.
-
-Analyze the following ${contextType} and provide a structured summary for caption generation.
-
-Your task:
-1. Identify the MAIN IDEA or core message
-2. Extract 3-5 KEY POINTS that support the main idea
-3. Identify relevant KEYWORDS for hashtag generation
+function buildSummarizationPrompt(content: string, template: PromptTemplate, isImage: boolean = false): string {
+  return renderTemplate(template, {
+    content,
+    contentType: isImage ? 'image' : 'content',
+    imageInstructions: isImage
+      ? 'Describe what you see in the image and extract the key themes, emotions, and messages it conveys.'
+      : ''
+  });
+}
 
-${isImage ? 'Describe what you see in the image and extract the key themes, emotions, and messages it conveys.' : ''}
+/**
+ * Build the prompt that merges per-chunk summaries into one
+ */
+function buildMergePrompt(partials: ContentSummary[], template: PromptTemplate): string {
+  const sections = partials.map((partial, i) => `PART ${i + 1}:
+Main Idea: ${partial.mainIdea}
+${partial.bulletPoints.map(bp => `• ${bp}`).join('\n')}
+Keywords: ${partial.keywords.join(', ')}`).join('\n\n');
 
-Content to analyze:
-${content}
+  return buildSummarizationPrompt(`The following are summaries of consecutive parts of one document.
+Combine them into a single summary of the WHOLE document.
 
-Respond in this EXACT JSON format:
-{
-  "mainIdea": "One sentence capturing the core message",
-  "bulletPoints": [
-    "Key point 1",
-    "Key point 2", 
-    "Key point 3",
-    "Key point 4 (optional)",
-    "Key point 5 (optional)"
-  ],
-  "keywords": ["keyword1", "keyword2", "keyword3", "keyword4", "keyword5"]
-}
-
-Rules:
-- Be concise but insightful
-- Focus on what would resonate with social media audiences
-- Extract emotional hooks if present
-- Identify unique selling points or value propositions
-- Keep bullet points under 15 words each`;
+${sections}`, template);
 }
 
 /**
  * Extract text content from a PDF file
- * Uses a simplified approach - in production, you'd use a PDF parsing library
  */
-async function extractTextFromPDF(file: File): Promise<string> {
-  // For PDF, we'll read as text (works for text-based PDFs)
-  // In a production app, use pdf.js or similar library
+async function extractTextFromPDF(file: File): Promise<{ text: string; pageCount: number }> {
   const arrayBuffer = await file.arrayBuffer();
-  const uint8Array = new Uint8Array(arrayBuffer);
-  
-  // Simple text extraction - look for readable strings
-  let text = '';
-  let currentString = '';
+  const { text, pageCount } = await extractPdfText(new Uint8Array(arrayBuffer));
   
-  for (let i = 0; i < uint8Array.length; i++) {
-    const byte = uint8Array[i];
-    // Check if it's a printable ASCII character
-    if (byte >= 32 && byte <= 126) {
-      currentString += String.fromCharCode(byte);
-    } else if (currentString.length > 3) {
-      // Save strings longer than 3 characters
-      text += currentString + ' ';
-      currentString = '';
-    } else {
-      currentString = '';
-    }
+  if (text.replace(/\s+/g, '').length < 50) {
+    throw new Error('Could not extract sufficient text from PDF. It may be a scanned document - please try pasting the text directly.');
   }
   
-  // Clean up the extracted text
-  text = text
-    .replace(/\s+/g, ' ')
-    .replace(/[^\w\s.,!?;:'"()-]/g, '')
-    .trim();
-  
-  if (text.length < 50) {
-    throw new Error('Could not extract sufficient text from PDF. Please try pasting the text directly.');
-  }
-  
-  // Limit to first 3000 characters to avoid token limits
-  return text.substring(0, 3000);
+  return { text, pageCount };
 }
 
 /**
- * Convert image file to base64 for Gemini Vision API
+ * Convert a file to base64 for vision APIs and the proxy
+ * Reads the bytes directly (no FileReader), so it also runs in the Node proxy
  */
-async function imageToBase64(file: File): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => {
-      const result = reader.result as string;
-      // Remove data URL prefix to get pure base64
-      const base64 = result.split(',')[1];
-      resolve(base64);
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
-  });
+export async function fileToBase64(file: File): Promise<string> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = '';
+  // In chunks: spreading a large image into one call overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
 }
 
 /**
- * Call Gemini API for text content analysis
+ * Call the summarize provider for text content analysis
  */
 async function analyzeTextContent(
   content: string, 
-  apiKey: string
+  connection: ProviderConnection,
+  control: RequestControl,
+  template: PromptTemplate
 ): Promise<ContentSummary> {
-  const prompt = buildSummarizationPrompt(content, false);
+  const prompt = buildSummarizationPrompt(content, template, false);
   
-  const response = await fetch(`${GEMINI_API_URL}?key=${apiKey}`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      contents: [{
-        parts: [{ text: prompt }]
-      }],
-      generationConfig: {
-        temperature: 0.7,
-        maxOutputTokens: 1024,
-      }
-    })
-  });
+  const provider = createProvider(connection);
+  const raw = await completeStructured<RawContentSummary>(provider, {
+    ...control,
+    prompt,
+    temperature: 0.7,
+    maxTokens: 1024
+  }, CONTENT_SUMMARY_FORMAT);
 
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    throw new Error(errorData.error?.message || `Gemini API error: ${response.status}`);
-  }
+  return toContentSummary(raw);
+}
+
+/**
+ * Combine summaries of consecutive parts into one
+ */
+async function mergeSummaries(
+  partials: ContentSummary[],
+  connection: ProviderConnection,
+  control: RequestControl,
+  template: PromptTemplate
+): Promise<ContentSummary> {
+  const provider = createProvider(connection);
+  const raw = await completeStructured<RawContentSummary>(provider, {
+    ...control,
+    prompt: buildMergePrompt(partials, template),
+    temperature: 0.5,
+    maxTokens: 1024
+  }, CONTENT_SUMMARY_FORMAT);
+
+  return toContentSummary(raw);
+}
 
-  const data = await response.json();
-  const textResponse = data.candidates?.[0]?.content?.parts?.[0]?.text;
+const toGroups = <T>(items: T[]): T[][] =>
+  Array.from({ length: Math.ceil(items.length / SUMMARY_GROUP_SIZE) }, (_, i) =>
+    items.slice(i * SUMMARY_GROUP_SIZE, (i + 1) * SUMMARY_GROUP_SIZE));
+
+/**
+ * Analyze text of any length
+ * Short text goes straight to the provider; long text is chunked and
+ * every chunk summarized, then the summaries are merged in rounds
+ * until one is left, so no part of the document is skipped
+ */
+async function analyzeLongText(
+  content: string,
+  connection: ProviderConnection,
+  control: RequestControl,
+  template: PromptTemplate
+): Promise<ContentSummary> {
+  const chunks = chunkText(content, MAX_CHUNK_CHARS);
   
-  if (!textResponse) {
-    throw new Error('No response from Gemini API');
+  if (chunks.length <= 1) {
+    return analyzeTextContent(chunks[0] || content, connection, control, template);
   }
-
-  return parseGeminiResponse(textResponse);
+  
+  let summaries: ContentSummary[] = [];
+  for (const [groupIndex, group] of toGroups(chunks).entries()) {
+    summaries.push(...await Promise.all(group.map((chunk, i) => {
+      const part = groupIndex * SUMMARY_GROUP_SIZE + i + 1;
+      return analyzeTextContent(`[Part ${part} of ${chunks.length}]\n${chunk}`, connection, control, template);
+    })));
+  }
+  
+  while (summaries.length > 1) {
+    summaries = await Promise.all(toGroups(summaries).map(group =>
+      group.length === 1 ? group[0] : mergeSummaries(group, connection, control, template)
+    ));
+  }
+  
+  return summaries[0];
 }
 
 /**
- * Call Gemini API for image analysis
+ * Call the summarize provider for image analysis
  */
 async function analyzeImageContent(
   imageBase64: string,
   mimeType: string,
-  apiKey: string
+  connection: ProviderConnection,
+  control: RequestControl,
+  template: PromptTemplate
 ): Promise<ContentSummary> {
-  const prompt = buildSummarizationPrompt('', true);
-  
-  const response = await fetch(`${GEMINI_API_URL}?key=${apiKey}`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      contents: [{
-        parts: [
-          { text: prompt },
-          {
-            inlineData: {
-              mimeType: mimeType,
-              data: imageBase64
-            }
-          }
-        ]
-      }],
-      generationConfig: {
-        temperature: 0.7,
-        maxOutputTokens: 1024,
-      }
-    })
-  });
-
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    throw new Error(errorData.error?.message || `Gemini API error: ${response.status}`);
+  const preset = PROVIDER_PRESETS[connection.providerId];
+  if (!preset.supportsImages) {
+    throw new Error(`${preset.label} cannot analyze images. Choose a vision-capable provider for summarization.`);
   }
 
-  const data = await response.json();
-  const textResponse = data.candidates?.[0]?.content?.parts?.[0]?.text;
+  const prompt = buildSummarizationPrompt('', template, true);
   
-  if (!textResponse) {
-    throw new Error('No response from Gemini API');
-  }
+  const provider = createProvider(connection);
+  const raw = await completeStructured<RawContentSummary>(provider, {
+    ...control,
+    prompt,
+    image: { mimeType, data: imageBase64 },
+    temperature: 0.7,
+    maxTokens: 1024
+  }, CONTENT_SUMMARY_FORMAT);
 
-  return parseGeminiResponse(textResponse);
+  return toContentSummary(raw);
 }
 
 /**
- * Parse Gemini's JSON response into ContentSummary
+ * Convert a validated summary response into ContentSummary
  */
-function parseGeminiResponse(response: string): ContentSummary {
-  try {
-    // Extract JSON from response (it might be wrapped in markdown code blocks)
-    let jsonStr = response;
-    
-    // Remove markdown code blocks if present
-    const jsonMatch = response.match(/```(?:json)?\s*([\s\S]*?)```/);
-    if (jsonMatch) {
-      jsonStr = jsonMatch[1];
-    }
-    
-    // Try to find JSON object in the response
-    const jsonObjectMatch = jsonStr.match(/\{[\s\S]*\}/);
-    if (jsonObjectMatch) {
-      jsonStr = jsonObjectMatch[0];
-    }
-    
-    const parsed = JSON.parse(jsonStr);
-    
-    return {
-      mainIdea: parsed.mainIdea || 'Content analyzed successfully',
-      bulletPoints: Array.isArray(parsed.bulletPoints) 
-        ? parsed.bulletPoints.slice(0, 5) 
-        : ['Key insight extracted from content'],
-      keywords: Array.isArray(parsed.keywords) 
-        ? parsed.keywords.slice(0, 10) 
-        : []
-    };
-  } catch (error) {
-    console.error('Failed to parse Gemini response:', error);
-    // Fallback: extract key sentences from the response
-    return {
-      mainIdea: response.substring(0, 100),
-      bulletPoints: [response.substring(0, 200)],
-      keywords: []
-    };
-  }
+function toContentSummary(raw: RawContentSummary): ContentSummary {
+  return {
+    mainIdea: raw.mainIdea.trim(),
+    bulletPoints: raw.bulletPoints.slice(0, 5),
+    keywords: raw.keywords.slice(0, 10)
+  };
 }
 
 /**
  * Main export: Analyze content from various sources
+ * `control` carries the cancel signal and retry progress callback;
+ * `template` is the user's summarize template, if they edited it
  */
 export async function analyzeContent(
   input: string | File,
   inputType: 'text' | 'pdf' | 'image',
-  apiKey: string
+  connection: ProviderConnection,
+  control: RequestControl = {},
+  template: PromptTemplate = PROMPT_TEMPLATE_REGISTRY.summarize.builtin
 ): Promise<ContentSummary> {
   try {
     if (inputType === 'text' && typeof input === 'string') {
@@ -261,20 +234,21 @@ export async function analyzeContent(
       if (input.trim().length < 10) {
         throw new Error('Please provide more content for analysis (at least 10 characters)');
       }
-      return await analyzeTextContent(input, apiKey);
+      return await analyzeLongText(input, connection, control, template);
     }
     
     if (inputType === 'pdf' && input instanceof File) {
       // Extract text from PDF then analyze
-      const extractedText = await extractTextFromPDF(input);
-      return await analyzeTextContent(extractedText, apiKey);
+      const { text, pageCount } = await extractTextFromPDF(input);
+      const summary = await analyzeLongText(text, connection, control, template);
+      return { ...summary, pageCount };
     }
     
     if (inputType === 'image' && input instanceof File) {
-      // Analyze image directly with Gemini Vision
-      const base64 = await imageToBase64(input);
+      // Analyze image directly with the provider's vision model
+      const base64 = await fileToBase64(input);
       const mimeType = input.type || 'image/jpeg';
-      return await analyzeImageContent(base64, mimeType, apiKey);
+      return await analyzeImageContent(base64, mimeType, connection, control, template);
     }
     
     throw new Error(`Unsupported input type: ${inputType}`);
@@ -288,26 +262,56 @@ export async function analyzeContent(
  * Fallback: Create a simple summary from text when Gemini fails
  * This allows GPT to still generate captions from raw text
  */
-export function createFallbackSummary(text: string): ContentSummary {
+export function createFallbackSummary(text: string, locale?: string): ContentSummary {
   // Extract first 3 sentences as bullet points
-  const sentences = text.match(/[^.!?]+[.!?]+/g) || [text];
-  const bulletPoints = sentences.slice(0, 3).map(s => s.trim());
-  
-  // Extract potential keywords (nouns/important words)
-  const words = text.toLowerCase().match(/\b[a-z]{4,}\b/g) || [];
-  const wordFreq: Record<string, number> = {};
+  const sentences = splitSentences(text, locale);
+  const bulletPoints = sentences.slice(0, 3);
+
+  // Most frequent longer words as keywords, in any script
+  const words = splitWords(text.toLocaleLowerCase(locale), locale)
+    .filter(word => [...word].length >= 4 && !/^\p{N}+$/u.test(word) && !FALLBACK_STOPWORDS.has(word));
+  const wordFreq = new Map<string, number>();
   words.forEach(word => {
-    wordFreq[word] = (wordFreq[word] || 0) + 1;
+    wordFreq.set(word, (wordFreq.get(word) || 0) + 1);
   });
-  
-  const keywords = Object.entries(wordFreq)
+
+  const keywords = [...wordFreq.entries()]
     .sort((a, b) => b[1] - a[1])
     .slice(0, 5)
     .map(([word]) => word);
-  
+
   return {
-    mainIdea: bulletPoints[0] || text.substring(0, 100),
-    bulletPoints: bulletPoints.length > 0 ? bulletPoints : [text.substring(0, 200)],
+    mainIdea: bulletPoints[0] || [...text].slice(0, 100).join(''),
+    bulletPoints: bulletPoints.length > 0 ? bulletPoints : [[...text].slice(0, 200).join('')],
     keywords
   };
 }
+
+/**
+ * Summary without a provider, for local mode: the fallback summary of
+ * the text, or of the text extracted from a PDF. Images need a vision
+ * model and can't be summarized locally.
+ */
+export async function createLocalSummary(
+  input: string | File,
+  inputType: 'text' | 'pdf' | 'image',
+  locale?: string
+): Promise<ContentSummary> {
+  if (inputType === 'text' && typeof input === 'string') {
+    if (input.trim().length < 10) {
+      throw new Error('Please provide more content for analysis (at least 10 characters)');
+    }
+    return createFallbackSummary(input, locale);
+  }
+
+  if (inputType === 'pdf' && input instanceof File) {
+    const { text, pageCount } = await extractTextFromPDF(input);
+    return { ...createFallbackSummary(text, locale), pageCount };
+  }
+
+  if (inputType === 'image') {
+    throw new Error('Images need an AI provider to describe them. Add your API keys, or paste text instead.');
+  }
+
+  throw new Error(`Unsupported input type: ${inputType}`);
+}
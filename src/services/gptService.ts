@@ -1,50 +1,64 @@
 /**
  * GPT API Service
  * 
- * Generates platform-specific social media captions using OpenAI's GPT.
+ * Generates platform-specific social media captions using the LLM
+ * provider configured for the caption stage (OpenAI, Groq, local, Gemini).
  * 
  * Features:
- * - Platform-specific formatting (Instagram, YouTube, LinkedIn)
+ * - Platform-specific formatting from the platform registry
  * - Tone customization (Professional, Fun, GenZ, Motivational)
- * - Language support (English, Hinglish)
+ * - Language support from the language registry (incl. Hindi, Arabic, Tamil...)
+ * - Optional brand kit (voice, examples, banned words, required hashtags)
  * - Generates 3 caption variations + hook lines + CTA + hashtags
+ * - Streams captions as they are written so cards can fill in live
+ * - Batch generation for several platforms from one content summary
+ * - Refines a single caption from a free-text instruction
+ * - Hashtags cleaned by the hashtag engine, and re-rolled on their own
+ * - Prompt from an editable template; captions record its version
  */
 
-import { CaptionResult, CaptionRequest, ContentSummary, Platform, Tone, Language } from '../types';
+import {
+  CaptionResult,
+  CaptionRequest,
+  ContentSummary,
+  Platform,
+  PlatformCaptionSet,
+  PromptTemplate,
+  Tone,
+  ProviderConnection,
+  RequestControl,
+  TokenUsage
+} from '../types';
+import { createProvider } from './providers';
+import { parsePartialJson } from './partialJson';
+import { completeStructured } from './structuredOutput';
+import { isAbortError } from './httpClient';
+import { buildBrandKitPrompt } from './brandKitService';
+import { buildPlatformPrompt, getPlatform } from './platforms';
+import { buildLanguagePrompt, getLanguage } from './languages';
+import { countChars, getPostedLength } from './captionValidator';
+import { CAPTIONS_FORMAT, HASHTAGS_FORMAT, RawCaption, SINGLE_CAPTION_FORMAT } from './outputSchemas';
+import { getHashtagOptions, processCaptionHashtags, processHashtags } from './hashtagEngine';
+import { PROMPT_TEMPLATE_REGISTRY, renderTemplate } from './promptTemplates';
 
-const OPENAI_API_URL = 'https://api.openai.com/v1/chat/completions';
+const SYSTEM_PROMPT = 'You are an expert social media copywriter. Always respond with valid JSON only.';
 
 /**
- * Platform-specific guidelines for caption generation
+ * Options for streamed caption generation
  */
-const PLATFORM_GUIDELINES: Record<Platform, string> = {
-  instagram: `
-    - Keep captions engaging and visually descriptive
-    - Use emojis strategically (2-4 per caption)
-    - Include a clear call-to-action
-    - Optimal length: 150-200 words
-    - Add relevant hashtags (5-10, mix of popular and niche)
-    - Break text into short paragraphs for readability
-    - Start with a strong hook to stop the scroll`,
-  
-  youtube: `
-    - Focus on video content description
-    - Include keywords for SEO
-    - Add timestamps hints if relevant
-    - Optimal length: 100-150 words for description start
-    - Include a subscribe CTA
-    - Mention what viewers will learn/gain
-    - NO hashtags needed (YouTube descriptions are different)`,
-  
-  linkedin: `
-    - Maintain professional tone even when casual
-    - Focus on value, insights, and thought leadership
-    - Use line breaks for readability
-    - Optimal length: 150-300 words
-    - Include industry-relevant insights
-    - End with a question to encourage engagement
-    - NO hashtags or minimal (3 max) professional hashtags`
-};
+export interface CaptionStreamOptions extends RequestControl {
+  // Called with every caption seen so far, unfinished ones marked isPartial
+  // Aborting `signal` stops the stream and keeps the captions that finished
+  onPartial?: (captions: CaptionResult[]) => void;
+}
+
+/**
+ * Options for generating several platforms at once
+ */
+export interface BatchCaptionOptions extends Omit<RequestControl, 'onUsage'> {
+  onPartial?: (platform: Platform, captions: CaptionResult[]) => void;
+  onUsage?: (platform: Platform, usage: TokenUsage) => void;
+}
 
 /**
  * Tone-specific writing styles
@@ -82,25 +96,17 @@ const TONE_STYLES: Record<Tone, string> = {
 };
 
 /**
- * Language-specific instructions
+ * The caption template for a request: the user's edit, or the built-in one
  */
-const LANGUAGE_INSTRUCTIONS: Record<Language, string> = {
-  english: 'Write in clear, modern English.',
-  hinglish: `Write in Hinglish - a mix of Hindi and English commonly used in India.
-    Examples of Hinglish style:
-    - "Yaar, this is so good na!"
-    - "Bilkul amazing content hai ye"
-    - "Aaj ka mood is totally lit 🔥"
-    - Mix Hindi phrases naturally with English
-    - Use Hindi words for emphasis and emotion`
-};
+function getCaptionTemplate(request: CaptionRequest): PromptTemplate {
+  return request.template ?? PROMPT_TEMPLATE_REGISTRY.caption.builtin;
+}
 
 /**
- * Build the main caption generation prompt
- * This is the core prompt engineering for quality captions
+ * Build the main caption generation prompt from the caption template
  */
 function buildCaptionPrompt(request: CaptionRequest): string {
-  const { platform, tone, language, summary, content } = request;
+  const { platform, tone, language, summary, content, brandKit } = request;
   
   const summaryText = summary 
     ? `
@@ -117,159 +123,177 @@ RAW CONTENT:
 ${content}
 `;
 
-  return `You are a world-class social media copywriter who creates viral, engaging content.
-
-${summaryText}
-
-PLATFORM: ${platform.toUpperCase()}
-${PLATFORM_GUIDELINES[platform]}
-
-TONE: ${tone.toUpperCase()}
-${TONE_STYLES[tone]}
-
-LANGUAGE: ${language.toUpperCase()}
-${LANGUAGE_INSTRUCTIONS[language]}
+  return renderTemplate(getCaptionTemplate(request), {
+    summary: summaryText,
+    platformGuidelines: buildPlatformPrompt(platform),
+    toneStyle: `TONE: ${tone.toUpperCase()}\n${TONE_STYLES[tone]}`,
+    brandKit: brandKit ? `\n${buildBrandKitPrompt(brandKit)}\n` : '',
+    language: buildLanguagePrompt(language),
+    platform: getPlatform(platform).label,
+    tone
+  });
+}
 
-YOUR TASK:
-Create 3 unique caption variations that will maximize engagement for this content.
+/**
+ * Convert a raw caption object from the model into a CaptionResult
+ */
+function toCaptionResult(caption: Partial<RawCaption>, id: string): CaptionResult {
+  return {
+    id,
+    caption: typeof caption.text === 'string' ? caption.text : '',
+    hookLines: Array.isArray(caption.hookLines)
+      ? caption.hookLines.filter((h): h is string => typeof h === 'string')
+      : [],
+    cta: typeof caption.cta === 'string' ? caption.cta : '',
+    hashtags: Array.isArray(caption.hashtags) 
+      ? caption.hashtags
+        .filter((h): h is string => typeof h === 'string')
+        .map(h => h.replace(/^#/, '')) 
+      : []
+  };
+}
 
-For each caption, you MUST also provide:
-- 2 powerful hook lines (opening sentences that grab attention)
-- 1 strong call-to-action (CTA)
-${platform === 'instagram' ? '- 8-10 relevant hashtags (mix of popular and niche)' : ''}
+const withHashtags = (caption: CaptionResult, request: CaptionRequest, mergeKeywords = true): CaptionResult => ({
+  ...caption,
+  hashtags: processHashtags(caption.hashtags, getHashtagOptions(request, mergeKeywords))
+});
 
-IMPORTANT RULES:
-1. DO NOT be generic - every caption should feel unique and tailored
-2. DO NOT start with "Looking for" or "Want to" - be more creative
-3. DO hook the reader in the first line - they should WANT to read more
-4. DO match the tone perfectly - a GenZ caption should FEEL like GenZ
-5. DO optimize for the platform's best practices
-6. DO include a clear value proposition
-7. DO make it shareable and engaging
+/**
+ * Parse the captions out of a response that is still streaming
+ * Captions whose JSON object has not closed yet are marked isPartial
+ */
+function parsePartialCaptions(buffer: string, runId: string): CaptionResult[] {
+  const start = buffer.indexOf('{');
+  if (start === -1) return [];
 
-Respond in this EXACT JSON format:
-{
-  "captions": [
-    {
-      "text": "Full caption text here",
-      "hookLines": ["Hook line 1", "Hook line 2"],
-      "cta": "Call to action text",
-      "hashtags": ["hashtag1", "hashtag2"]
-    },
-    {
-      "text": "Second caption variation",
-      "hookLines": ["Hook line 1", "Hook line 2"],
-      "cta": "Call to action text",
-      "hashtags": ["hashtag1", "hashtag2"]
-    },
-    {
-      "text": "Third caption variation",
-      "hookLines": ["Hook line 1", "Hook line 2"],
-      "cta": "Call to action text",
-      "hashtags": ["hashtag1", "hashtag2"]
-    }
-  ]
-}
+  const { value, isComplete } = parsePartialJson(buffer.slice(start));
+  const captions = (value as { captions?: unknown } | undefined)?.captions;
+  if (!Array.isArray(captions)) return [];
 
-Generate captions that would make a social media manager say "This is exactly what I needed!"`;
+  return captions
+    .filter((caption): caption is Partial<RawCaption> => typeof caption === 'object' && caption !== null)
+    .map((caption, index) => ({
+      ...toCaptionResult(caption, `caption-${runId}-${index}`),
+      isPartial: !isComplete(caption)
+    }))
+    .filter(caption => caption.caption || caption.hookLines.length > 0);
 }
 
 /**
- * Parse GPT response into CaptionResult array
+ * Generate captions using the configured caption provider
+ * With `onPartial`, the response is streamed and captions are reported
+ * as they are written; aborting keeps the ones that already finished
  */
-function parseGPTResponse(response: string): CaptionResult[] {
+export async function generateCaptions(
+  request: CaptionRequest,
+  connection: ProviderConnection,
+  options: CaptionStreamOptions = {}
+): Promise<CaptionResult[]> {
+  const prompt = buildCaptionPrompt(request);
+  const templateVersion = getCaptionTemplate(request).version;
+  // Platform in the id keeps captions unique when several platforms generate at once
+  const runId = `${request.platform}-${Date.now()}`;
+  let finished: CaptionResult[] = [];
+  
   try {
-    // Extract JSON from response
-    let jsonStr = response;
+    const provider = createProvider(connection);
+    const completion = {
+      system: SYSTEM_PROMPT,
+      prompt,
+      temperature: 0.8, // Creative but controlled
+      maxTokens: 2000,
+      signal: options.signal,
+      onRetry: options.onRetry,
+      onUsage: options.onUsage
+    };
     
-    // Remove markdown code blocks if present
-    const jsonMatch = response.match(/```(?:json)?\s*([\s\S]*?)```/);
-    if (jsonMatch) {
-      jsonStr = jsonMatch[1];
-    }
+    let streamed: string | undefined;
     
-    // Find JSON object
-    const jsonObjectMatch = jsonStr.match(/\{[\s\S]*\}/);
-    if (jsonObjectMatch) {
-      jsonStr = jsonObjectMatch[0];
+    if (options.onPartial) {
+      const { onPartial } = options;
+      let buffer = '';
+      const { text } = await provider.stream({ ...completion, responseFormat: CAPTIONS_FORMAT }, delta => {
+        buffer += delta;
+        const partial = parsePartialCaptions(buffer, runId).map(caption => ({ ...caption, templateVersion }));
+        finished = partial.filter(c => !c.isPartial);
+        onPartial(partial);
+      });
+      streamed = text;
     }
     
-    const parsed = JSON.parse(jsonStr);
+    // Validate the (streamed) output, asking again with the errors if it is invalid
+    const { captions } = await completeStructured<{ captions: RawCaption[] }>(
+      provider,
+      completion,
+      CAPTIONS_FORMAT,
+      { firstResponse: streamed }
+    );
     
-    if (!parsed.captions || !Array.isArray(parsed.captions)) {
-      throw new Error('Invalid response format');
-    }
+    const results = processCaptionHashtags(
+      captions.map((caption, index) => ({ ...toCaptionResult(caption, `caption-${runId}-${index}`), templateVersion })),
+      getHashtagOptions(request)
+    );
+    finished = results;
     
-    return parsed.captions.map((caption: {
-      text?: string;
-      hookLines?: string[];
-      cta?: string;
-      hashtags?: string[];
-    }, index: number) => ({
-      id: `caption-${Date.now()}-${index}`,
-      caption: caption.text || '',
-      hookLines: Array.isArray(caption.hookLines) ? caption.hookLines : [],
-      cta: caption.cta || '',
-      hashtags: Array.isArray(caption.hashtags) 
-        ? caption.hashtags.map((h: string) => h.replace(/^#/, '')) 
-        : []
+    // The model ignored the hard limit in the prompt: send those captions back to be shortened
+    const { charLimit } = getPlatform(request.platform);
+    return await Promise.all(results.map(async caption => {
+      if (getPostedLength(caption, request.platform) <= charLimit) return caption;
+      
+      try {
+        const shortened = await shortenCaption(request, connection, caption, {
+          signal: options.signal,
+          onRetry: options.onRetry,
+          onUsage: options.onUsage
+        });
+        return getPostedLength(shortened, request.platform) < getPostedLength(caption, request.platform)
+          ? shortened
+          : caption;
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.warn('Shortening failed, keeping original caption:', error);
+        return caption;
+      }
     }));
   } catch (error) {
-    console.error('Failed to parse GPT response:', error);
-    throw new Error('Failed to parse caption response. Please try again.');
+    if (isAbortError(error)) {
+      // Stopped by the user: keep the captions that were fully written
+      return finished;
+    }
+    console.error('GPT generation error:', error);
+    throw error;
   }
 }
 
 /**
- * Generate captions using OpenAI GPT API
+ * Generate captions for several platforms at the same time from one
+ * request (and so one content summary)
+ * A platform that fails gets an `error` instead of failing the batch
  */
-export async function generateCaptions(
-  request: CaptionRequest,
-  apiKey: string
-): Promise<CaptionResult[]> {
-  const prompt = buildCaptionPrompt(request);
-  
-  try {
-    const response = await fetch(OPENAI_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini', // Cost-effective and fast
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an expert social media copywriter. Always respond with valid JSON only.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.8, // Creative but controlled
-        max_tokens: 2000
-      })
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.error?.message || `OpenAI API error: ${response.status}`);
-    }
+export async function generateCaptionsForPlatforms(
+  request: Omit<CaptionRequest, 'platform'>,
+  platforms: Platform[],
+  connection: ProviderConnection,
+  options: BatchCaptionOptions = {}
+): Promise<PlatformCaptionSet[]> {
+  const { onPartial, onUsage, ...control } = options;
 
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content;
-    
-    if (!content) {
-      throw new Error('No response from OpenAI API');
+  return Promise.all(platforms.map(async (platform): Promise<PlatformCaptionSet> => {
+    try {
+      const captions = await generateCaptions({ ...request, platform }, connection, {
+        ...control,
+        onPartial: onPartial && (partial => onPartial(platform, partial)),
+        onUsage: onUsage && (usage => onUsage(platform, usage))
+      });
+      return { platform, captions };
+    } catch (error) {
+      return {
+        platform,
+        captions: [],
+        error: error instanceof Error ? error.message : 'Failed to generate captions'
+      };
     }
-
-    return parseGPTResponse(content);
-  } catch (error) {
-    console.error('GPT generation error:', error);
-    throw error;
-  }
+  }));
 }
 
 /**
@@ -277,8 +301,9 @@ export async function generateCaptions(
  */
 export async function regenerateSingleCaption(
   request: CaptionRequest,
-  apiKey: string,
-  existingCaptions: string[]
+  connection: ProviderConnection,
+  existingCaptions: string[],
+  control: RequestControl = {}
 ): Promise<CaptionResult> {
   const prompt = `${buildCaptionPrompt(request)}
 
@@ -297,62 +322,194 @@ Respond with ONLY ONE caption in this format:
 }`;
 
   try {
-    const response = await fetch(OPENAI_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an expert social media copywriter. Always respond with valid JSON only.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
+    const provider = createProvider(connection);
+    const { caption } = await completeStructured<{ caption: RawCaption }>(
+      provider,
+      {
+        ...control,
+        system: SYSTEM_PROMPT,
+        prompt,
         temperature: 0.9, // Higher temp for more variety
-        max_tokens: 800
-      })
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.error?.message || `OpenAI API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content;
-    
-    if (!content) {
-      throw new Error('No response from OpenAI API');
-    }
-
-    // Parse single caption response
-    let jsonStr = content;
-    const jsonMatch = content.match(/```(?:json)?\s*([\s\S]*?)```/);
-    if (jsonMatch) jsonStr = jsonMatch[1];
-    const jsonObjectMatch = jsonStr.match(/\{[\s\S]*\}/);
-    if (jsonObjectMatch) jsonStr = jsonObjectMatch[0];
-    
-    const parsed = JSON.parse(jsonStr);
-    const caption = parsed.caption || parsed.captions?.[0];
+        maxTokens: 800
+      },
+      SINGLE_CAPTION_FORMAT
+    );
     
-    return {
-      id: `caption-${Date.now()}-regen`,
-      caption: caption.text || '',
-      hookLines: Array.isArray(caption.hookLines) ? caption.hookLines : [],
-      cta: caption.cta || '',
-      hashtags: Array.isArray(caption.hashtags) 
-        ? caption.hashtags.map((h: string) => h.replace(/^#/, '')) 
-        : []
-    };
+    return withHashtags({
+      ...toCaptionResult(caption, `caption-${Date.now()}-regen`),
+      templateVersion: getCaptionTemplate(request).version
+    }, request);
   } catch (error) {
     console.error('Regeneration error:', error);
     throw error;
   }
 }
+
+/**
+ * Ask the model to rewrite a caption that breaks the platform's
+ * character limit, keeping its id so the card is updated in place
+ */
+export async function shortenCaption(
+  request: CaptionRequest,
+  connection: ProviderConnection,
+  caption: CaptionResult,
+  control: RequestControl = {}
+): Promise<CaptionResult> {
+  const spec = getPlatform(request.platform);
+  const length = getPostedLength(caption, request.platform);
+  const hashtagChars = length - countChars(caption.caption);
+  // Aim below the limit; models overshoot character targets
+  const target = Math.max(40, Math.floor((spec.charLimit - hashtagChars) * 0.85));
+
+  const prompt = `This ${spec.label} caption is ${length} characters, but ${spec.label} allows at most ${spec.charLimit} characters including hashtags.
+
+CAPTION:
+${caption.caption}
+
+HOOK LINES: ${caption.hookLines.join(' | ')}
+CTA: ${caption.cta}
+HASHTAGS: ${caption.hashtags.map(h => `#${h}`).join(' ')}
+
+Rewrite the caption text in at most ${target} characters.
+- Keep the hook, the key message and the call-to-action
+- Keep the same tone (${request.tone}) and language: ${getLanguage(request.language).instructions}
+- Keep at most ${spec.hashtags.max} hashtags
+${request.brandKit ? `\n${buildBrandKitPrompt(request.brandKit)}\n` : ''}
+Respond with ONLY the shortened caption in this format:
+{
+  "caption": {
+    "text": "Shortened caption text",
+    "hookLines": ["Hook 1", "Hook 2"],
+    "cta": "CTA text",
+    "hashtags": ["tag1", "tag2"]
+  }
+}`;
+
+  const provider = createProvider(connection);
+  const { caption: shortened } = await completeStructured<{ caption: RawCaption }>(
+    provider,
+    {
+      ...control,
+      system: SYSTEM_PROMPT,
+      prompt,
+      temperature: 0.5, // Stay close to the original
+      maxTokens: 800
+    },
+    SINGLE_CAPTION_FORMAT
+  );
+
+  return withHashtags({ ...toCaptionResult(shortened, caption.id), templateVersion: caption.templateVersion }, request, false);
+}
+
+/**
+ * Edit a caption following the user's instruction (e.g. "make it
+ * shorter"), keeping its id so the card is updated in place
+ */
+export async function refineCaption(
+  request: CaptionRequest,
+  connection: ProviderConnection,
+  caption: CaptionResult,
+  instruction: string,
+  control: RequestControl = {}
+): Promise<CaptionResult> {
+  const { summary } = request;
+  const spec = getPlatform(request.platform);
+
+  const context = summary
+    ? `CONTENT SUMMARY:
+Main Idea: ${summary.mainIdea}
+Key Points:
+${summary.bulletPoints.map(bp => `• ${bp}`).join('\n')}
+Keywords: ${summary.keywords.join(', ')}`
+    : `RAW CONTENT:
+${request.content}`;
+
+  const prompt = `Edit this ${spec.label} caption following the user's instruction.
+
+${context}
+
+CAPTION:
+${caption.caption}
+
+HOOK LINES: ${caption.hookLines.join(' | ')}
+CTA: ${caption.cta}
+HASHTAGS: ${caption.hashtags.map(h => `#${h}`).join(' ')}
+
+INSTRUCTION:
+${instruction}
+
+- Change only what the instruction asks for; keep everything else as close to the original as possible
+- Stay faithful to the content above and don't invent facts
+- Keep the tone (${request.tone}) unless the instruction changes it, and the language: ${getLanguage(request.language).instructions}
+- Stay within ${spec.charLimit} characters including hashtags
+${request.brandKit ? `\n${buildBrandKitPrompt(request.brandKit)}\n` : ''}
+Respond with ONLY the edited caption in this format:
+{
+  "caption": {
+    "text": "Edited caption text",
+    "hookLines": ["Hook 1", "Hook 2"],
+    "cta": "CTA text",
+    "hashtags": ["tag1", "tag2"]
+  }
+}`;
+
+  const provider = createProvider(connection);
+  const { caption: refined } = await completeStructured<{ caption: RawCaption }>(
+    provider,
+    {
+      ...control,
+      system: SYSTEM_PROMPT,
+      prompt,
+      temperature: 0.6,
+      maxTokens: 800
+    },
+    SINGLE_CAPTION_FORMAT
+  );
+
+  return withHashtags({ ...toCaptionResult(refined, caption.id), templateVersion: caption.templateVersion }, request, false);
+}
+
+/**
+ * Ask the model for different hashtags for a caption, leaving the
+ * caption text as it is
+ */
+export async function rerollHashtags(
+  request: CaptionRequest,
+  connection: ProviderConnection,
+  caption: CaptionResult,
+  control: RequestControl = {}
+): Promise<CaptionResult> {
+  const spec = getPlatform(request.platform);
+  const { min, max } = spec.hashtags;
+
+  const prompt = `Suggest new hashtags for this ${spec.label} caption.
+
+CAPTION:
+${caption.caption}
+${request.summary ? `\nKEYWORDS: ${request.summary.keywords.join(', ')}\n` : ''}
+CURRENT HASHTAGS (suggest different ones): ${caption.hashtags.map(h => `#${h}`).join(' ')}
+
+- ${min === 0 ? `Up to ${max}` : `${min}-${max}`} relevant hashtags, a mix of popular and niche
+- CamelCase, without '#' (e.g. "SocialMedia")
+- No banned or spammy tags (like4like, followforfollow...)
+
+Respond with ONLY the hashtags in this format:
+{
+  "hashtags": ["Tag1", "Tag2"]
+}`;
+
+  const provider = createProvider(connection);
+  const { hashtags } = await completeStructured<{ hashtags: string[] }>(
+    provider,
+    {
+      ...control,
+      system: SYSTEM_PROMPT,
+      prompt,
+      temperature: 0.9, // Higher temp for more variety
+      maxTokens: 300
+    },
+    HASHTAGS_FORMAT
+  );
+
+  return withHashtags({ ...caption, hashtags }, request, false);
+}
@@ -0,0 +1,98 @@
+/**
+ * Hashtag Blocklist
+ *
+ * Hashtags that platforms have banned, hide or rate-limit (mostly
+ * Instagram), plus engagement-bait tags that get posts down-ranked.
+ * Tags are lowercase without '#'. Platforms change these lists
+ * without notice: add or remove entries as reports come in.
+ */
+
+export const HASHTAG_BLOCKLIST: ReadonlySet<string> = new Set([
+  // Banned or shadow-banned
+  'adulting',
+  'alone',
+  'always',
+  'armparty',
+  'asiangirl',
+  'beautyblogger',
+  'bikinibody',
+  'boho',
+  'brain',
+  'costumes',
+  'curvygirls',
+  'date',
+  'dating',
+  'desk',
+  'direct',
+  'dm',
+  'edm',
+  'eggplant',
+  'elevator',
+  'girlsonly',
+  'gloves',
+  'hardworkpaysoff',
+  'hawks',
+  'hotweather',
+  'humpday',
+  'hustler',
+  'ilovemyinstagram',
+  'instababy',
+  'instasport',
+  'iphoneography',
+  'italiano',
+  'kansas',
+  'kissing',
+  'lean',
+  'lulu',
+  'master',
+  'milf',
+  'models',
+  'mustfollow',
+  'nasty',
+  'newyearsday',
+  'nudity',
+  'petite',
+  'pornfood',
+  'pushups',
+  'rate',
+  'ravens',
+  'saltwater',
+  'selfharm',
+  'single',
+  'singlelife',
+  'skateboarding',
+  'skype',
+  'snap',
+  'snapchat',
+  'snowstorm',
+  'sopretty',
+  'stranger',
+  'streetphoto',
+  'sunbathing',
+  'swole',
+  'tanlines',
+  'teens',
+  'thought',
+  'undies',
+  'valentinesday',
+  'workflow',
+  'youngmodel',
+
+  // Engagement bait
+  'comment4comment',
+  'f4f',
+  'follow4follow',
+  'followback',
+  'followforfollow',
+  'followforfollowback',
+  'followme',
+  'instalike',
+  'l4l',
+  'like4like',
+  'likeforfollow',
+  'likeforlike',
+  'likeforlikes',
+  'likes4likes',
+  'tag4like',
+  'tagsforlikes'
+]);
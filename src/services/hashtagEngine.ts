@@ -0,0 +1,196 @@
+/**
+ * Hashtag Engine
+ *
+ * Cleans up the hashtags the model writes before they reach a card:
+ * - CamelCase with no spaces or punctuation (#SocialMedia is readable
+ *   by screen readers, #socialmedia is not)
+ * - Duplicates removed, with one spelling per tag across all variants;
+ *   variants only repeat each other's tags to reach the platform minimum
+ * - Banned and shadow-banned tags dropped (local blocklist)
+ * - Tags ranked in tiers: pinned, then the model's, then tags derived
+ *   from the content keywords, cut to the platform's maximum
+ *
+ * Pinned tags are always kept and are remembered in client storage.
+ */
+
+import { CaptionRequest, CaptionResult, KeyValueStorage, Platform } from '../types';
+import { getPlatform } from './platforms';
+import { HASHTAG_BLOCKLIST } from './hashtagBlocklist';
+
+export const PINNED_HASHTAGS_STORAGE_KEY = 'pinnedHashtags';
+
+// Longer keywords make unreadable hashtags and are not turned into tags
+const MAX_KEYWORD_WORDS = 3;
+const MAX_KEYWORD_TAG_LENGTH = 30;
+
+export interface HashtagOptions {
+  platform: Platform;
+  pinned?: string[];   // Always included, first (brand kit and user pins)
+  keywords?: string[]; // ContentSummary keywords, used to fill free slots
+  blocked?: string[];  // Dropped in addition to the blocklist
+}
+
+/**
+ * Hashtag without '#', spaces or punctuation, each word capitalized:
+ * "#social media" -> "SocialMedia". Words that already have capitals
+ * ("iPhone") are left as they are. Empty if nothing usable is left.
+ */
+export function normalizeHashtag(tag: string): string {
+  return tag
+    .split(/[^\p{L}\p{M}\p{N}]+/u)
+    .filter(Boolean)
+    .map(word => /\p{Lu}/u.test(word) ? word : word.replace(/^\p{Ll}/u, letter => letter.toUpperCase()))
+    .join('');
+}
+
+// More capitals reads better: SocialMedia over Socialmedia
+const countCapitals = (tag: string): number => (tag.match(/\p{Lu}/gu) || []).length;
+
+const hashtagKey = (tag: string): string => normalizeHashtag(tag).toLowerCase();
+
+export function isBlockedHashtag(tag: string): boolean {
+  return HASHTAG_BLOCKLIST.has(hashtagKey(tag));
+}
+
+/**
+ * Hashtag rules for a request: brand kit and user pins, banned words,
+ * and content keywords to fill free slots (left out for edits of an
+ * existing caption, so they don't grow its hashtag list)
+ */
+export function getHashtagOptions(request: CaptionRequest, mergeKeywords = true): HashtagOptions {
+  return {
+    platform: request.platform,
+    pinned: [...(request.brandKit?.requiredHashtags ?? []), ...(request.pinnedHashtags ?? [])],
+    keywords: mergeKeywords ? request.summary?.keywords : undefined,
+    blocked: request.brandKit?.bannedWords
+  };
+}
+
+/**
+ * Short keywords as hashtags ("content marketing" -> "ContentMarketing")
+ */
+export function keywordsToHashtags(keywords: string[]): string[] {
+  return keywords
+    .filter(keyword => keyword.trim().split(/\s+/).length <= MAX_KEYWORD_WORDS)
+    .map(normalizeHashtag)
+    .filter(tag => tag.length > 1 && tag.length <= MAX_KEYWORD_TAG_LENGTH && !/^\p{N}+$/u.test(tag));
+}
+
+/**
+ * Tags typed by the user, separated by spaces or commas
+ */
+export function parseHashtagList(text: string): string[] {
+  const tags = text.split(/[\s,]+/).map(normalizeHashtag).filter(Boolean);
+  return tags.filter((tag, index) => tags.findIndex(t => t.toLowerCase() === tag.toLowerCase()) === index);
+}
+
+/**
+ * Normalized, deduplicated and unblocked tags in rank order (pinned
+ * first, `pinnedCount` of them), not yet cut to the platform's maximum
+ */
+function rankHashtags(tags: string[], options: HashtagOptions): { tags: string[]; pinnedCount: number } {
+  const pinned = options.pinned ?? [];
+  const blocked = new Set((options.blocked ?? []).map(hashtagKey));
+  const positions = new Map<string, number>();
+  const result: string[] = [];
+  let pinnedCount = 0;
+
+  const add = (tag: string, isPinned: boolean) => {
+    const normalized = normalizeHashtag(tag);
+    const key = normalized.toLowerCase();
+    if (!normalized) return;
+
+    // Duplicate: keep the first position but the more readable spelling (pins stay as typed)
+    const position = positions.get(key);
+    if (position !== undefined) {
+      if (position >= pinnedCount && countCapitals(normalized) > countCapitals(result[position])) {
+        result[position] = normalized;
+      }
+      return;
+    }
+
+    if (!isPinned && (HASHTAG_BLOCKLIST.has(key) || blocked.has(key))) return;
+    positions.set(key, result.length);
+    result.push(normalized);
+  };
+
+  pinned.forEach(tag => add(tag, true));
+  pinnedCount = result.length;
+  tags.forEach(tag => add(tag, false));
+  keywordsToHashtags(options.keywords ?? []).forEach(tag => add(tag, false));
+
+  return { tags: result, pinnedCount };
+}
+
+/**
+ * Clean one caption's hashtags
+ */
+export function processHashtags(tags: string[], options: HashtagOptions): string[] {
+  const { max } = getPlatform(options.platform).hashtags;
+  const ranked = rankHashtags(tags, options);
+
+  // Pinned tags are kept even past the limit, unless the platform takes no hashtags
+  return max === 0 ? [] : ranked.tags.slice(0, Math.max(max, ranked.pinnedCount));
+}
+
+/**
+ * Clean the hashtags of every variant and spread them across the
+ * variants: a tag goes to the first variant that ranks it, later ones
+ * reuse it only to reach the platform minimum. Keyword tags are offered
+ * to each variant starting from a different keyword, and each tag is
+ * written the same way in all of them.
+ */
+export function processCaptionHashtags(captions: CaptionResult[], options: HashtagOptions): CaptionResult[] {
+  const { min, max } = getPlatform(options.platform).hashtags;
+  const keywordTags = keywordsToHashtags(options.keywords ?? []);
+  const used = new Set<string>();
+
+  const processed = captions.map((caption, index) => {
+    if (max === 0) return { ...caption, hashtags: [] };
+
+    const offset = keywordTags.length > 0 ? index % keywordTags.length : 0;
+    const ranked = rankHashtags(
+      [...caption.hashtags, ...keywordTags.slice(offset), ...keywordTags.slice(0, offset)],
+      { ...options, keywords: undefined }
+    );
+    const limit = Math.max(max, ranked.pinnedCount);
+    const unpinned = ranked.tags.slice(ranked.pinnedCount);
+
+    const chosen = [
+      ...ranked.tags.slice(0, ranked.pinnedCount),
+      ...unpinned.filter(tag => !used.has(tag.toLowerCase()))
+    ].slice(0, limit);
+    const shared = unpinned.filter(tag => used.has(tag.toLowerCase()));
+    const hashtags = [...chosen, ...shared.slice(0, Math.max(0, Math.min(min, limit) - chosen.length))];
+
+    hashtags.forEach(tag => used.add(tag.toLowerCase()));
+    return { ...caption, hashtags };
+  });
+
+  const spellings = new Map<string, string>();
+  processed.flatMap(caption => caption.hashtags).forEach(tag => {
+    const current = spellings.get(tag.toLowerCase());
+    if (!current || countCapitals(tag) > countCapitals(current)) {
+      spellings.set(tag.toLowerCase(), tag);
+    }
+  });
+
+  return processed.map(caption => ({
+    ...caption,
+    hashtags: caption.hashtags.map(tag => spellings.get(tag.toLowerCase()) ?? tag)
+  }));
+}
+
+export async function loadPinnedHashtags(storage: KeyValueStorage): Promise<string[]> {
+  try {
+    const saved = await storage.getItem(PINNED_HASHTAGS_STORAGE_KEY);
+    return Array.isArray(saved) ? saved.filter((tag): tag is string => typeof tag === 'string') : [];
+  } catch (error) {
+    console.error('Failed to load pinned hashtags:', error);
+    return [];
+  }
+}
+
+export async function savePinnedHashtags(storage: KeyValueStorage, tags: string[]): Promise<void> {
+  await storage.setItem(PINNED_HASHTAGS_STORAGE_KEY, tags);
+}
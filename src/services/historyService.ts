@@ -0,0 +1,180 @@
+/**
+ * History Service
+ *
+ * Stores every generation run (source, summary, settings and captions)
+ * in the add-on's client storage, with starred captions kept as
+ * favourites. When storage runs out, the oldest runs without any
+ * favourites are evicted first.
+ */
+
+import {
+  CaptionResult,
+  ContentSummary,
+  HistoryEntry,
+  HistoryFilter,
+  HistorySource,
+  KeyValueStorage,
+  Language,
+  Platform,
+  Tone
+} from '../types';
+
+export const HISTORY_STORAGE_KEY = 'captionHistory';
+
+// Soft limits that keep history well inside the client storage quota
+const MAX_HISTORY_ENTRIES = 100;
+const MAX_HISTORY_CHARS = 1_000_000;
+
+// Source text kept per run; enough to recognise it in search
+const MAX_SOURCE_TEXT = 2000;
+
+export const DEFAULT_HISTORY_FILTER: HistoryFilter = {
+  query: '',
+  platform: 'all',
+  tone: 'all',
+  favoritesOnly: false
+};
+
+/**
+ * Build a history entry for a finished generation run
+ */
+export function createHistoryEntry(run: {
+  source: HistorySource;
+  summary: ContentSummary;
+  platform: Platform;
+  tone: Tone;
+  language: Language;
+  captions: CaptionResult[];
+}): HistoryEntry {
+  return {
+    ...run,
+    id: `run-${run.platform}-${Date.now()}`,
+    createdAt: Date.now(),
+    source: {
+      ...run.source,
+      text: run.source.text?.substring(0, MAX_SOURCE_TEXT)
+    },
+    captions: run.captions.map(({ isPartial, ...caption }) => caption),
+    favoriteCaptionIds: []
+  };
+}
+
+export function isProtected(entry: HistoryEntry): boolean {
+  return entry.favoriteCaptionIds.length > 0;
+}
+
+/**
+ * Drop the oldest run without favourites
+ * Returns null when every remaining run is protected
+ */
+function evictOldest(entries: HistoryEntry[]): HistoryEntry[] | null {
+  // Entries are kept newest first
+  for (let i = entries.length - 1; i >= 0; i--) {
+    if (!isProtected(entries[i])) {
+      return [...entries.slice(0, i), ...entries.slice(i + 1)];
+    }
+  }
+  return null;
+}
+
+/**
+ * Evict runs until the list is within the soft limits
+ */
+function enforceLimits(entries: HistoryEntry[]): HistoryEntry[] {
+  let result = entries;
+
+  while (result.length > MAX_HISTORY_ENTRIES || JSON.stringify(result).length > MAX_HISTORY_CHARS) {
+    const next = evictOldest(result);
+    if (!next) break;
+    result = next;
+  }
+
+  return result;
+}
+
+/**
+ * Load stored runs, newest first
+ */
+export async function loadHistory(storage: KeyValueStorage): Promise<HistoryEntry[]> {
+  try {
+    const saved = await storage.getItem(HISTORY_STORAGE_KEY);
+    return Array.isArray(saved) ? (saved as HistoryEntry[]) : [];
+  } catch (error) {
+    console.error('Failed to load history:', error);
+    return [];
+  }
+}
+
+/**
+ * Persist runs, evicting the oldest unstarred ones if the write is
+ * rejected for lack of space. Returns the list that was actually saved.
+ */
+export async function saveHistory(
+  storage: KeyValueStorage,
+  entries: HistoryEntry[]
+): Promise<HistoryEntry[]> {
+  let toSave = enforceLimits(entries);
+
+  for (;;) {
+    try {
+      await storage.setItem(HISTORY_STORAGE_KEY, toSave);
+      return toSave;
+    } catch (error) {
+      const next = evictOldest(toSave);
+      if (!next) {
+        console.error('Failed to save history:', error);
+        throw new Error('History storage is full. Remove some favourites to keep saving runs.');
+      }
+      console.warn('History storage full, evicting oldest run');
+      toSave = next;
+    }
+  }
+}
+
+/**
+ * Star or unstar a caption within a run
+ */
+export function toggleFavorite(
+  entries: HistoryEntry[],
+  entryId: string,
+  captionId: string
+): HistoryEntry[] {
+  return entries.map(entry => {
+    if (entry.id !== entryId) return entry;
+
+    const favoriteCaptionIds = entry.favoriteCaptionIds.includes(captionId)
+      ? entry.favoriteCaptionIds.filter(id => id !== captionId)
+      : [...entry.favoriteCaptionIds, captionId];
+
+    return { ...entry, favoriteCaptionIds };
+  });
+}
+
+/**
+ * Apply the History tab's search and filters
+ * With favoritesOnly, runs are trimmed to their starred captions
+ */
+export function filterHistory(entries: HistoryEntry[], filter: HistoryFilter): HistoryEntry[] {
+  const query = filter.query.trim().toLowerCase();
+
+  return entries
+    .filter(entry => filter.platform === 'all' || entry.platform === filter.platform)
+    .filter(entry => filter.tone === 'all' || entry.tone === filter.tone)
+    .map(entry => filter.favoritesOnly
+      ? { ...entry, captions: entry.captions.filter(c => entry.favoriteCaptionIds.includes(c.id)) }
+      : entry)
+    .filter(entry => entry.captions.length > 0)
+    .filter(entry => {
+      if (!query) return true;
+
+      const haystack = [
+        entry.source.text,
+        entry.source.fileName,
+        entry.summary.mainIdea,
+        ...entry.summary.keywords,
+        ...entry.captions.flatMap(c => [c.caption, c.cta, ...c.hookLines, ...c.hashtags])
+      ].join('\n').toLowerCase();
+
+      return haystack.includes(query);
+    });
+}
@@ -0,0 +1,187 @@
+/**
+ * HTTP Client
+ *
+ * Shared fetch wrapper for every AI call:
+ * - Per-call timeout (until the response headers arrive)
+ * - Cancellation through the caller's AbortSignal
+ * - Retries 429/5xx responses and network failures with exponential
+ *   backoff, honouring Retry-After headers
+ * - Reports each scheduled retry so the UI can show progress
+ */
+
+import { RequestControl, RetryNotice } from '../types';
+
+const DEFAULT_TIMEOUT_MS = 90_000;
+const DEFAULT_MAX_RETRIES = 3;
+
+// Backoff doubles from here: 1s, 2s, 4s...
+const BASE_RETRY_DELAY_MS = 1000;
+
+// Longer waits (e.g. a Retry-After of several minutes) are not worth blocking on
+const MAX_RETRY_DELAY_MS = 30_000;
+
+export interface HttpRequestOptions extends RequestControl {
+  // Provider name used in error and progress messages
+  label: string;
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+function abortError(): DOMException {
+  return new DOMException('The request was cancelled', 'AbortError');
+}
+
+/**
+ * Human-readable progress message for a scheduled retry
+ */
+export function describeRetry(notice: RetryNotice): string {
+  const seconds = Math.max(1, Math.round(notice.delayMs / 1000));
+  return `${notice.providerLabel} ${notice.reason} - retrying in ${seconds}s… (${notice.attempt}/${notice.maxRetries})`;
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Read the server's requested wait from Retry-After (seconds or HTTP date)
+ * or OpenAI's retry-after-ms header
+ */
+function parseRetryAfter(headers: Headers): number | null {
+  const ms = headers.get('retry-after-ms');
+  if (ms && !isNaN(Number(ms))) {
+    return Number(ms);
+  }
+
+  const value = headers.get('retry-after');
+  if (!value) return null;
+
+  if (/^\d+(\.\d+)?$/.test(value.trim())) {
+    return Number(value) * 1000;
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function backoffDelay(attempt: number): number {
+  const exponential = BASE_RETRY_DELAY_MS * 2 ** attempt;
+  // Jitter keeps parallel chunk requests from retrying in lockstep
+  return exponential + Math.random() * exponential * 0.2;
+}
+
+/**
+ * Wait for `ms`, rejecting early if the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Single attempt with a timeout linked to the caller's signal
+ */
+async function fetchWithTimeout(
+  url: string,
+  init: RequestInit,
+  options: HttpRequestOptions
+): Promise<Response> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const onAbort = () => controller.abort();
+  options.signal?.addEventListener('abort', onAbort, { once: true });
+
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (timedOut) {
+      throw new Error(`${options.label} did not respond within ${Math.round(timeoutMs / 1000)}s. Please try again.`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Fetch with timeout, cancellation and retry/backoff
+ * Returns the last response when retries run out, so callers can
+ * surface the provider's own error message
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  options: HttpRequestOptions
+): Promise<Response> {
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+  for (let attempt = 0; ; attempt++) {
+    if (options.signal?.aborted) {
+      throw abortError();
+    }
+
+    let delayMs: number;
+    let reason: string;
+
+    try {
+      const response = await fetchWithTimeout(url, init, options);
+
+      if (response.ok || !isRetryableStatus(response.status) || attempt >= maxRetries) {
+        return response;
+      }
+
+      const retryAfter = parseRetryAfter(response.headers);
+      if (retryAfter !== null && retryAfter > MAX_RETRY_DELAY_MS) {
+        return response;
+      }
+
+      delayMs = retryAfter ?? backoffDelay(attempt);
+      reason = response.status === 429 ? 'is rate limiting' : `returned ${response.status}`;
+    } catch (error) {
+      // fetch rejects with a TypeError on network failures; timeouts and aborts are final
+      if (!(error instanceof TypeError) || attempt >= maxRetries) {
+        throw error;
+      }
+
+      delayMs = backoffDelay(attempt);
+      reason = 'is unreachable';
+    }
+
+    options.onRetry?.({
+      providerLabel: options.label,
+      attempt: attempt + 1,
+      maxRetries,
+      delayMs,
+      reason
+    });
+
+    await sleep(delayMs, options.signal);
+  }
+}
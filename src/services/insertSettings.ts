@@ -0,0 +1,58 @@
+/**
+ * Insert Settings
+ *
+ * How captions are placed and styled on the canvas (placement, wrap
+ * width, font size, colour, alignment, one node or one per part).
+ * The last choice is remembered in client storage.
+ */
+
+import { CaptionParts, CaptionResult, InsertOptions, KeyValueStorage, Platform } from '../types';
+import { getAppendedHashtags } from './platforms';
+
+export const INSERT_SETTINGS_STORAGE_KEY = 'insertSettings';
+
+export const DEFAULT_INSERT_OPTIONS: InsertOptions = {
+  placement: 'center',
+  maxWidth: 480,
+  fontSize: 24,
+  color: '#1a1a1a',
+  align: 'left',
+  layout: 'single',
+  includeHook: false,
+  includeCta: false
+};
+
+export async function loadInsertOptions(storage: KeyValueStorage): Promise<InsertOptions> {
+  try {
+    const saved = await storage.getItem(INSERT_SETTINGS_STORAGE_KEY);
+    return saved && typeof saved === 'object'
+      ? { ...DEFAULT_INSERT_OPTIONS, ...(saved as Partial<InsertOptions>) }
+      : DEFAULT_INSERT_OPTIONS;
+  } catch (error) {
+    console.error('Failed to load insert settings:', error);
+    return DEFAULT_INSERT_OPTIONS;
+  }
+}
+
+export async function saveInsertOptions(storage: KeyValueStorage, options: InsertOptions): Promise<void> {
+  await storage.setItem(INSERT_SETTINGS_STORAGE_KEY, options);
+}
+
+/**
+ * Split a caption into the parts to insert, with hashtags formatted
+ * the way the platform posts them
+ */
+export function buildCaptionParts(
+  caption: CaptionResult,
+  platform: Platform,
+  options: InsertOptions
+): CaptionParts {
+  const hashtags = getAppendedHashtags(caption, platform);
+
+  return {
+    hook: options.includeHook ? caption.hookLines[0] : undefined,
+    body: caption.caption,
+    cta: options.includeCta && caption.cta ? caption.cta : undefined,
+    hashtags: hashtags.length > 0 ? hashtags.join(' ') : undefined
+  };
+}
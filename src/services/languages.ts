@@ -0,0 +1,139 @@
+/**
+ * Language Registry
+ *
+ * One entry per output language: writing instructions, hashtag
+ * conventions, locale and text direction. Drives the caption prompt,
+ * the language picker and right-to-left rendering of cards.
+ */
+
+import { Language, LanguageSpec } from '../types';
+
+export const LANGUAGE_REGISTRY: Record<Language, LanguageSpec> = {
+  english: {
+    id: 'english',
+    label: 'English',
+    flag: '🇬🇧',
+    locale: 'en',
+    direction: 'ltr',
+    instructions: 'Write in clear, modern English.',
+    hashtagConvention: 'English hashtags in CamelCase (e.g. #SummerVibes).'
+  },
+
+  hinglish: {
+    id: 'hinglish',
+    label: 'Hinglish',
+    flag: '🇮🇳',
+    locale: 'hi-Latn',
+    direction: 'ltr',
+    instructions: `Write in Hinglish - a mix of Hindi and English commonly used in India.
+    Examples of Hinglish style:
+    - "Yaar, this is so good na!"
+    - "Bilkul amazing content hai ye"
+    - "Aaj ka mood is totally lit 🔥"
+    - Mix Hindi phrases naturally with English
+    - Use Hindi words for emphasis and emotion`,
+    hashtagConvention: 'Latin-script hashtags mixing Hindi and English words (e.g. #DesiVibes, #ChaiTime).'
+  },
+
+  hindi: {
+    id: 'hindi',
+    label: 'हिन्दी',
+    flag: '🇮🇳',
+    locale: 'hi',
+    direction: 'ltr',
+    instructions: `Write in Hindi using Devanagari script.
+    - Use natural, conversational Hindi as spoken today, not overly formal (shuddh) Hindi
+    - Common English loanwords (e.g. "फ़ोन", "ऑनलाइन") are fine when that is how people speak
+    - End sentences with the purna viram (।) rather than a full stop`,
+    hashtagConvention: 'Mix Devanagari hashtags (e.g. #भारत) with popular Latin-script ones; Devanagari tags have no CamelCase.'
+  },
+
+  spanish: {
+    id: 'spanish',
+    label: 'Español',
+    flag: '🇪🇸',
+    locale: 'es',
+    direction: 'ltr',
+    instructions: `Write in natural, neutral Spanish that works across Spain and Latin America.
+    - Use opening punctuation (¿ ¡) correctly
+    - Prefer "tú" for a friendly voice unless the tone is professional`,
+    hashtagConvention: 'Spanish hashtags keeping accents and ñ (e.g. #España, not #Espana), CamelCase for multi-word tags.'
+  },
+
+  portuguese: {
+    id: 'portuguese',
+    label: 'Português',
+    flag: '🇧🇷',
+    locale: 'pt',
+    direction: 'ltr',
+    instructions: `Write in Brazilian Portuguese.
+    - Warm, expressive and conversational
+    - Use "você" for a friendly voice`,
+    hashtagConvention: 'Portuguese hashtags keeping accents (e.g. #Verão), mixed with English tags only when they are widely used in Brazil.'
+  },
+
+  french: {
+    id: 'french',
+    label: 'Français',
+    flag: '🇫🇷',
+    locale: 'fr',
+    direction: 'ltr',
+    instructions: `Write in natural, modern French.
+    - Use a non-breaking space before ? ! : ; as in French typography
+    - Prefer "vous" for professional tones and "tu" for fun or GenZ tones`,
+    hashtagConvention: 'French hashtags keeping accents (e.g. #Été), CamelCase for multi-word tags.'
+  },
+
+  arabic: {
+    id: 'arabic',
+    label: 'العربية',
+    flag: '🇸🇦',
+    locale: 'ar',
+    direction: 'rtl',
+    instructions: `Write in Modern Standard Arabic that reads naturally on social media.
+    - Use Arabic punctuation (، ؟ ؛)
+    - Keep sentences short; avoid heavy classical phrasing`,
+    hashtagConvention: 'Arabic hashtags with words joined by underscores (e.g. #صيف_2024), plus a few popular English tags.'
+  },
+
+  tamil: {
+    id: 'tamil',
+    label: 'தமிழ்',
+    flag: '🇮🇳',
+    locale: 'ta',
+    direction: 'ltr',
+    instructions: `Write in Tamil using Tamil script.
+    - Use everyday spoken-style Tamil suitable for social media, not literary Tamil
+    - English loanwords common in Tamil speech are fine`,
+    hashtagConvention: 'Mix Tamil-script hashtags (e.g. #தமிழ்) with popular Latin-script ones.'
+  },
+
+  bengali: {
+    id: 'bengali',
+    label: 'বাংলা',
+    flag: '🇧🇩',
+    locale: 'bn',
+    direction: 'ltr',
+    instructions: `Write in Bengali using Bengali script.
+    - Natural, conversational Bengali understood in both Bangladesh and West Bengal
+    - End sentences with the dari (।)`,
+    hashtagConvention: 'Mix Bengali-script hashtags (e.g. #বাংলা) with popular Latin-script ones.'
+  }
+};
+
+export const LANGUAGE_IDS = Object.keys(LANGUAGE_REGISTRY) as Language[];
+
+export function getLanguage(language: Language): LanguageSpec {
+  return LANGUAGE_REGISTRY[language];
+}
+
+/**
+ * Build the language section of the caption prompt
+ */
+export function buildLanguagePrompt(language: Language): string {
+  const spec = getLanguage(language);
+
+  return `LANGUAGE: ${spec.id.toUpperCase()}
+${spec.instructions}
+Hashtag convention: ${spec.hashtagConvention}`;
+}
@@ -0,0 +1,200 @@
+/**
+ * Local Caption Engine
+ *
+ * Writes captions without any AI provider, for demos, offline use and
+ * users without API keys. Each variant combines the content summary
+ * (main idea, key points, keywords) with a hook pattern, CTA, hashtags
+ * and layout for the platform, tone and language, then goes through
+ * the same hashtag rules and length limit as model captions.
+ *
+ * The summary text itself is not translated: only the phrases around
+ * it are in the chosen language.
+ */
+
+import { CaptionRequest, CaptionResult, ContentSummary, Platform, PlatformCaptionSet, Tone } from '../types';
+import { getPlatform } from './platforms';
+import { getLanguage } from './languages';
+import { applyFix, getPostedLength } from './captionValidator';
+import { getHashtagOptions, keywordsToHashtags, processHashtags } from './hashtagEngine';
+import { splitSentences } from './textSegmentation';
+import { PHRASE_BANKS, PhraseBank } from './localPhraseBanks';
+
+// Stands in for a prompt template version on local captions
+export const LOCAL_TEMPLATE_VERSION = 'local-v1';
+
+const DEFAULT_VARIANTS = 3;
+
+// Phrase rotations tried when regenerating before settling for a repeat
+const MAX_REGENERATE_SEEDS = 12;
+
+const EMOJI_PATTERN = /\p{Extended_Pictographic}️?/gu;
+
+/**
+ * How much of the summary fits the platform: key points listed under
+ * the main idea, and whether the CTA closes the caption text
+ */
+const PLATFORM_LAYOUTS: Record<Platform, { points: number; ctaInText: boolean }> = {
+  instagram: { points: 3, ctaInText: true },
+  youtube: { points: 3, ctaInText: true },
+  linkedin: { points: 3, ctaInText: true },
+  x: { points: 0, ctaInText: false },
+  tiktok: { points: 0, ctaInText: true },
+  facebook: { points: 2, ctaInText: true },
+  threads: { points: 1, ctaInText: false },
+  pinterest: { points: 1, ctaInText: true }
+};
+
+const BULLETS: Record<Tone, string> = {
+  professional: '•',
+  fun: '✨',
+  genz: '👉',
+  motivational: '✅'
+};
+
+export interface LocalCaptionOptions {
+  variants?: number;
+  seed?: number; // Rotates the phrases, for a different set of variants
+}
+
+// Item `offset` places after `seed`, wrapping around
+const pick = <T>(items: T[], seed: number, offset: number): T => items[(seed + offset) % items.length];
+
+// The list turned `offset` places, so each variant leads with a different point
+const rotate = <T>(items: T[], offset: number): T[] =>
+  items.length === 0 ? items : [...items.slice(offset % items.length), ...items.slice(0, offset % items.length)];
+
+/**
+ * Summary for requests that arrive without one: the first sentences of the content
+ */
+function summaryOf(request: CaptionRequest): ContentSummary {
+  if (request.summary) return request.summary;
+  const sentences = splitSentences(request.content, getLanguage(request.language).locale);
+  return {
+    mainIdea: sentences[0] ?? request.content.trim(),
+    bulletPoints: sentences.slice(1, 4),
+    keywords: []
+  };
+}
+
+/**
+ * What a hook is about: a content keyword that isn't banned by the
+ * brand kit, or the start of the main idea when there is none
+ */
+function topicOf(summary: ContentSummary, offset: number, banned: string[]): string {
+  const bannedWords = new Set(banned.map(word => word.trim().toLowerCase()));
+  const keywords = summary.keywords.filter(keyword => keyword.trim() && !bannedWords.has(keyword.trim().toLowerCase()));
+  if (keywords.length > 0) return pick(keywords, 0, offset).trim();
+  return summary.mainIdea.split(/\s+/).slice(0, 4).join(' ').replace(/[.,;:!?…]+$/, '');
+}
+
+function renderHook(pattern: string, topic: string, tone: Tone): string {
+  const hook = pattern.replace(/\{topic\}/g, topic);
+  // Gen Z hooks are lowercase on purpose
+  return tone === 'genz' ? hook : hook.replace(/^\p{Ll}/u, letter => letter.toUpperCase());
+}
+
+/**
+ * Hashtags for one variant: up to half from the content keywords, the
+ * rest from the language's tone and platform banks, each list turned
+ * per variant so the variants get different tags
+ */
+function hashtagsFor(request: CaptionRequest, summary: ContentSummary, bank: PhraseBank, seed: number, index: number): string[] {
+  const { max } = getPlatform(request.platform).hashtags;
+  const keywordTags = rotate(keywordsToHashtags(summary.keywords), index).slice(0, Math.ceil(max / 2));
+  const bankTags = [...(bank.platformHashtags[request.platform] ?? []), ...bank.hashtags[request.tone]];
+  const free = Math.max(1, max - keywordTags.length);
+
+  return processHashtags([...keywordTags, ...rotate(bankTags, (seed + index) * free)], getHashtagOptions(request));
+}
+
+/**
+ * One caption variant; `index` picks its hooks, CTA, topic, point order and hashtags
+ */
+function buildVariant(request: CaptionRequest, summary: ContentSummary, seed: number, index: number, id: string): CaptionResult {
+  const { platform, tone, brandKit } = request;
+  const bank = PHRASE_BANKS[request.language] ?? PHRASE_BANKS.english;
+  const layout = PLATFORM_LAYOUTS[platform];
+
+  const hookPatterns = bank.hooks[tone];
+  const hookLines = [0, 1].map(offset =>
+    renderHook(pick(hookPatterns, seed, index + offset), topicOf(summary, index + offset, brandKit?.bannedWords ?? []), tone)
+  );
+  const platformCta = bank.platformCtas[platform];
+  const cta = brandKit?.defaultCta.trim()
+    || pick(platformCta ? [platformCta, ...bank.ctas[tone]] : bank.ctas[tone], seed, index);
+
+  const withoutEmojis = brandKit?.emojiPolicy === 'none';
+  const bullet = withoutEmojis ? BULLETS.professional : BULLETS[tone];
+  const points = rotate(summary.bulletPoints.filter(point => point.trim() && point !== summary.mainIdea), index)
+    .slice(0, layout.points);
+
+  const paragraphs = [
+    hookLines[0],
+    summary.mainIdea,
+    ...(points.length > 0
+      ? [[bank.pointsIntro[tone], ...points.map(point => `${bullet} ${point}`)].join('\n')]
+      : []),
+    ...(layout.ctaInText ? [cta] : [])
+  ];
+
+  let caption: CaptionResult = {
+    id,
+    caption: paragraphs.join('\n\n'),
+    hookLines,
+    cta,
+    hashtags: hashtagsFor(request, summary, bank, seed, index),
+    templateVersion: LOCAL_TEMPLATE_VERSION,
+    isLocal: true
+  };
+
+  if (withoutEmojis) {
+    const strip = (text: string) => text.replace(EMOJI_PATTERN, '').replace(/[ \t]{2,}/g, ' ').replace(/^ +| +$/gm, '').trim();
+    caption = { ...caption, caption: strip(caption.caption), hookLines: caption.hookLines.map(strip), cta: strip(caption.cta) };
+  }
+
+  return getPostedLength(caption, platform) > getPlatform(platform).charLimit
+    ? applyFix(caption, 'shorten', platform)
+    : caption;
+}
+
+/**
+ * Caption variants for one platform, written from the request's summary
+ */
+export function generateLocalCaptions(request: CaptionRequest, options: LocalCaptionOptions = {}): CaptionResult[] {
+  const { variants = DEFAULT_VARIANTS, seed = 0 } = options;
+  const summary = summaryOf(request);
+  const runId = `${request.platform}-${Date.now()}`;
+
+  return Array.from({ length: variants }, (_, index) =>
+    buildVariant(request, summary, seed, index, `caption-local-${runId}-${index}`)
+  );
+}
+
+/**
+ * One new local caption, different from the existing ones when the
+ * phrase banks allow it
+ */
+export function regenerateLocalCaption(request: CaptionRequest, existingCaptions: string[]): CaptionResult {
+  const summary = summaryOf(request);
+  const existing = new Set(existingCaptions);
+  const id = `caption-local-${request.platform}-${Date.now()}-regen`;
+
+  const candidates = Array.from({ length: MAX_REGENERATE_SEEDS }, (_, seed) =>
+    buildVariant(request, summary, seed + 1, existingCaptions.length, id)
+  );
+  return candidates.find(candidate => !existing.has(candidate.caption)) ?? candidates[0];
+}
+
+/**
+ * Local captions for several platforms from one request
+ */
+export function generateLocalCaptionsForPlatforms(
+  request: Omit<CaptionRequest, 'platform'>,
+  platforms: Platform[],
+  options: LocalCaptionOptions = {}
+): PlatformCaptionSet[] {
+  return platforms.map(platform => ({
+    platform,
+    captions: generateLocalCaptions({ ...request, platform }, options)
+  }));
+}
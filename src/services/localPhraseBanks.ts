@@ -0,0 +1,412 @@
+/**
+ * Local Phrase Banks
+ *
+ * Curated hook patterns, CTAs, connecting phrases and hashtags per
+ * language and tone for the offline caption engine. {topic} is replaced
+ * with a content keyword. Every language needs at least two hooks and
+ * two CTAs per tone so the variants differ, and enough tone and
+ * platform hashtags to reach each platform's minimum without keywords
+ * (Instagram: 8).
+ */
+
+import { Language, Platform, Tone } from '../types';
+
+export interface PhraseBank {
+  hooks: Record<Tone, string[]>;
+  ctas: Record<Tone, string[]>;
+  pointsIntro: Record<Tone, string>; // Line before the key points
+  platformCtas: Partial<Record<Platform, string>>; // Used instead of the tone CTA on these platforms
+  hashtags: Record<Tone, string[]>; // Tags that fit the tone, on any platform
+  platformHashtags: Partial<Record<Platform, string[]>>; // Tags the platform's audience follows
+}
+
+export const PHRASE_BANKS: Record<Language, PhraseBank> = {
+  english: {
+    hooks: {
+      professional: [
+        "Here's what matters about {topic}.",
+        '{topic}: the key takeaway.',
+        'A closer look at {topic}.',
+        'What every team should know about {topic}.'
+      ],
+      fun: [
+        "Okay, let's talk about {topic}! 🎉",
+        "Guess what's new? {topic}! ✨",
+        'Plot twist: {topic} just got better 😄',
+        'Your feed needed more {topic} 🙌'
+      ],
+      genz: [
+        'not me obsessing over {topic} rn 💀',
+        '{topic} is giving main character energy ✨',
+        'pov: you just found out about {topic} 👀',
+        'no thoughts, just {topic} 🫶'
+      ],
+      motivational: [
+        'Every big step starts with {topic}. 💪',
+        'This is your sign to go all in on {topic}.',
+        'Small wins in {topic} add up to big results. 🌟',
+        "Progress over perfection — that's {topic}."
+      ]
+    },
+    ctas: {
+      professional: ['Share your thoughts in the comments.', 'Follow for more insights.', 'Learn more via the link.'],
+      fun: ['Tag a friend who needs this! 👇', "Drop an emoji if you're in! 🙌", 'Save this for later! 📌'],
+      genz: ['tag ur bestie fr 👇', 'drop a 🔥 if u agree', 'save this, thank me later'],
+      motivational: ['Save this as your reminder. 💫', 'Share this with someone who needs it today.', 'Tell us your next goal below! 👇']
+    },
+    pointsIntro: {
+      professional: 'Key points:',
+      fun: "Here's the fun part:",
+      genz: 'the tea:',
+      motivational: 'Remember:'
+    },
+    platformCtas: {
+      youtube: 'Subscribe for more and hit the bell 🔔',
+      linkedin: "What's your take? Let me know in the comments.",
+      pinterest: 'Save this Pin for later 📌'
+    },
+    hashtags: {
+      professional: ['Business', 'Leadership', 'Insights', 'Strategy', 'Growth', 'ProfessionalDevelopment', 'Innovation', 'Productivity'],
+      fun: ['GoodVibes', 'JustForFun', 'WeekendMood', 'SmileMore', 'HappyTimes', 'FunFacts', 'LOL', 'GoodTimes'],
+      genz: ['MainCharacter', 'ItsGiving', 'NoCap', 'Vibes', 'RelatableContent', 'Aesthetic', 'Slay', 'Mood'],
+      motivational: ['Motivation', 'Inspiration', 'GrowthMindset', 'KeepGoing', 'SelfImprovement', 'Goals', 'Mindset', 'NeverGiveUp']
+    },
+    platformHashtags: {
+      instagram: ['InstaDaily', 'PhotoOfTheDay', 'ExplorePage', 'ReelsDaily'],
+      linkedin: ['CareerGrowth', 'FutureOfWork', 'Networking'],
+      x: ['TrendingNow', 'Thread'],
+      tiktok: ['FYP', 'ForYouPage', 'TikTokTips'],
+      facebook: ['Community', 'ShareThis'],
+      threads: ['ThreadsApp', 'Conversation'],
+      pinterest: ['Inspo', 'IdeasBoard', 'PinterestInspired']
+    }
+  },
+
+  hinglish: {
+    hooks: {
+      professional: ['{topic} ke baare mein zaroori baatein.', '{topic} par ek nazar.'],
+      fun: ['Chalo {topic} ki baat karte hain! 🎉', 'Guess karo kya naya hai? {topic}! ✨'],
+      genz: ['{topic} toh full main character vibe hai ✨', 'pov: tumhe abhi {topic} ke baare mein pata chala 👀'],
+      motivational: ['Har bada kadam {topic} se shuru hota hai. 💪', 'Yeh tumhara sign hai — {topic} mein full dedication do.']
+    },
+    ctas: {
+      professional: ['Comments mein apni raay zaroor batayein.', 'Aur insights ke liye follow karein.'],
+      fun: ['Us dost ko tag karo jise yeh chahiye! 👇', 'Baad ke liye save kar lo! 📌'],
+      genz: ['apne bestie ko tag karo 👇', 'agree ho toh 🔥 drop karo'],
+      motivational: ['Reminder ke liye save karo. 💫', 'Kisi aise insaan ke saath share karo jise aaj iski zaroorat hai.']
+    },
+    pointsIntro: {
+      professional: 'Key points:',
+      fun: 'Mazedaar baat:',
+      genz: 'asli baat:',
+      motivational: 'Yaad rakho:'
+    },
+    platformCtas: {
+      youtube: 'Aur videos ke liye subscribe karo aur bell dabao 🔔',
+      linkedin: 'Aapki kya raay hai? Comments mein batayein.',
+      pinterest: 'Is Pin ko baad ke liye save karo 📌'
+    },
+    hashtags: {
+      professional: ['BusinessIndia', 'StartupIndia', 'Insights', 'Strategy', 'Growth', 'CareerTips', 'Innovation', 'Productivity'],
+      fun: ['MastiTime', 'DesiVibes', 'GoodVibes', 'FunTime', 'YaariDosti', 'Bindaas', 'DesiFun', 'Mazedaar'],
+      genz: ['DesiGenZ', 'MainCharacter', 'Vibes', 'RelatableDesi', 'NoCap', 'Aesthetic', 'Slay', 'DesiMood'],
+      motivational: ['MotivationHindi', 'Inspiration', 'KeepGoing', 'Safalta', 'Mehnat', 'Goals', 'Mindset', 'HaarNahiMaanenge']
+    },
+    platformHashtags: {
+      instagram: ['InstaIndia', 'IndianInstagram', 'ExplorePage', 'ReelsIndia'],
+      linkedin: ['LinkedInIndia', 'CareerGrowth', 'Networking'],
+      x: ['IndiaTrending', 'Thread'],
+      tiktok: ['FYP', 'ForYouPage', 'DesiTok'],
+      facebook: ['Community', 'ShareKaro'],
+      threads: ['ThreadsIndia', 'Conversation'],
+      pinterest: ['DesiInspo', 'IdeasBoard', 'Inspo']
+    }
+  },
+
+  hindi: {
+    hooks: {
+      professional: ['{topic} के बारे में ज़रूरी बातें।', '{topic} पर एक नज़र।'],
+      fun: ['चलो {topic} की बात करते हैं! 🎉', 'अंदाज़ा लगाओ क्या नया है? {topic}! ✨'],
+      genz: ['{topic} तो एकदम मेन कैरेक्टर वाइब है ✨', 'pov: तुम्हें अभी {topic} के बारे में पता चला 👀'],
+      motivational: ['हर बड़ा कदम {topic} से शुरू होता है। 💪', 'यह आपका संकेत है — {topic} में पूरी तरह जुट जाइए।']
+    },
+    ctas: {
+      professional: ['कमेंट में अपनी राय ज़रूर बताएं।', 'ऐसी और जानकारी के लिए फ़ॉलो करें।'],
+      fun: ['उस दोस्त को टैग करो जिसे ये चाहिए! 👇', 'बाद के लिए सेव कर लो! 📌'],
+      genz: ['अपने बेस्टी को टैग करो 👇', 'सहमत हो तो 🔥 डालो'],
+      motivational: ['इसे याद दिलाने के लिए सेव करें। 💫', 'इसे किसी ऐसे व्यक्ति के साथ शेयर करें जिसे आज इसकी ज़रूरत है।']
+    },
+    pointsIntro: {
+      professional: 'मुख्य बातें:',
+      fun: 'मज़ेदार बात:',
+      genz: 'असली बात:',
+      motivational: 'याद रखें:'
+    },
+    platformCtas: {
+      youtube: 'और वीडियो के लिए सब्सक्राइब करें और बेल आइकन दबाएं 🔔',
+      linkedin: 'आपकी क्या राय है? कमेंट में बताएं।',
+      pinterest: 'इस पिन को बाद के लिए सेव करें 📌'
+    },
+    hashtags: {
+      professional: ['व्यापार', 'नेतृत्व', 'जानकारी', 'रणनीति', 'विकास', 'करियर', 'नवाचार', 'उत्पादकता'],
+      fun: ['मस्ती', 'मज़ा', 'खुशी', 'दोस्ती', 'मनोरंजन', 'हंसी', 'धमाल', 'जश्न'],
+      genz: ['GenZ', 'Vibes', 'ट्रेंडिंग', 'युवा', 'देसी', 'स्टाइल', 'मूड', 'ट्रेंड'],
+      motivational: ['प्रेरणा', 'सफलता', 'मेहनत', 'लक्ष्य', 'हौसला', 'सकारात्मक', 'आत्मविश्वास', 'सपने']
+    },
+    platformHashtags: {
+      instagram: ['हिंदी', 'भारत', 'InstaIndia', 'ReelsIndia'],
+      linkedin: ['LinkedInIndia', 'पेशेवर', 'नेटवर्किंग'],
+      x: ['हिंदी', 'ट्रेंड'],
+      tiktok: ['FYP', 'हिंदी', 'ForYouPage'],
+      facebook: ['समुदाय', 'शेयर'],
+      threads: ['हिंदी', 'बातचीत'],
+      pinterest: ['विचार', 'आइडिया', 'Inspo']
+    }
+  },
+
+  spanish: {
+    hooks: {
+      professional: ['Lo esencial sobre {topic}.', 'Una mirada más cercana a {topic}.'],
+      fun: ['¡Hablemos de {topic}! 🎉', '¿Adivina qué hay de nuevo? ¡{topic}! ✨'],
+      genz: ['{topic} tiene energía de protagonista ✨', 'pov: acabas de descubrir {topic} 👀'],
+      motivational: ['Todo gran paso empieza con {topic}. 💪', 'Esta es tu señal para apostar por {topic}.']
+    },
+    ctas: {
+      professional: ['Comparte tu opinión en los comentarios.', 'Síguenos para más ideas.'],
+      fun: ['¡Etiqueta a un amigo que necesita esto! 👇', '¡Guárdalo para después! 📌'],
+      genz: ['etiqueta a tu bestie 👇', 'deja un 🔥 si estás de acuerdo'],
+      motivational: ['Guárdalo como recordatorio. 💫', 'Compártelo con alguien que lo necesite hoy.']
+    },
+    pointsIntro: {
+      professional: 'Puntos clave:',
+      fun: 'Lo mejor:',
+      genz: 'el chisme:',
+      motivational: 'Recuerda:'
+    },
+    platformCtas: {
+      youtube: 'Suscríbete para más y activa la campana 🔔',
+      linkedin: '¿Qué opinas? Cuéntamelo en los comentarios.',
+      pinterest: 'Guarda este Pin para después 📌'
+    },
+    hashtags: {
+      professional: ['Negocios', 'Liderazgo', 'Estrategia', 'Emprendimiento', 'Crecimiento', 'Marketing', 'Innovación', 'Productividad'],
+      fun: ['BuenasVibras', 'Diversión', 'Felicidad', 'Humor', 'FinDeSemana', 'Sonríe', 'Risas', 'BuenosMomentos'],
+      genz: ['Vibras', 'Aesthetic', 'Relatable', 'Protagonista', 'ModoOn', 'SinFiltro', 'Mood', 'Tendencia'],
+      motivational: ['Motivación', 'Inspiración', 'Superación', 'Metas', 'Éxito', 'NuncaTeRindas', 'Mentalidad', 'Constancia']
+    },
+    platformHashtags: {
+      instagram: ['InstaEspañol', 'FotoDelDía', 'Explorar', 'ReelsEspañol'],
+      linkedin: ['DesarrolloProfesional', 'Networking', 'Empleo'],
+      x: ['Tendencia', 'Hilo'],
+      tiktok: ['ParaTi', 'FYP', 'TikTokEspañol'],
+      facebook: ['Comunidad', 'Comparte'],
+      threads: ['ThreadsEspañol', 'Conversación'],
+      pinterest: ['Ideas', 'Inspo', 'TableroDeIdeas']
+    }
+  },
+
+  portuguese: {
+    hooks: {
+      professional: ['O essencial sobre {topic}.', 'Um olhar mais atento sobre {topic}.'],
+      fun: ['Vamos falar de {topic}! 🎉', 'Adivinha a novidade? {topic}! ✨'],
+      genz: ['{topic} tá com energia de protagonista ✨', 'pov: você acabou de descobrir {topic} 👀'],
+      motivational: ['Todo grande passo começa com {topic}. 💪', 'Este é o seu sinal para apostar em {topic}.']
+    },
+    ctas: {
+      professional: ['Compartilhe sua opinião nos comentários.', 'Siga para mais conteúdos.'],
+      fun: ['Marque um amigo que precisa ver isso! 👇', 'Salve para depois! 📌'],
+      genz: ['marca teu bestie 👇', 'manda um 🔥 se concorda'],
+      motivational: ['Salve como lembrete. 💫', 'Compartilhe com alguém que precisa disso hoje.']
+    },
+    pointsIntro: {
+      professional: 'Pontos principais:',
+      fun: 'O melhor:',
+      genz: 'a fofoca:',
+      motivational: 'Lembre-se:'
+    },
+    platformCtas: {
+      youtube: 'Inscreva-se para mais e ative o sininho 🔔',
+      linkedin: 'Qual é a sua opinião? Conta nos comentários.',
+      pinterest: 'Salve este Pin para depois 📌'
+    },
+    hashtags: {
+      professional: ['Negócios', 'Liderança', 'Estratégia', 'Empreendedorismo', 'Crescimento', 'Marketing', 'Inovação', 'Produtividade'],
+      fun: ['BoasVibes', 'Diversão', 'Felicidade', 'Humor', 'FimDeSemana', 'Sorria', 'Risadas', 'BonsMomentos'],
+      genz: ['Vibes', 'Aesthetic', 'Relatable', 'Protagonista', 'Real', 'SemFiltro', 'Mood', 'Tendência'],
+      motivational: ['Motivação', 'Inspiração', 'Foco', 'Metas', 'Sucesso', 'NuncaDesista', 'Mentalidade', 'Persistência']
+    },
+    platformHashtags: {
+      instagram: ['InstaBrasil', 'FotoDoDia', 'Explorar', 'ReelsBrasil'],
+      linkedin: ['Carreira', 'Networking', 'DesenvolvimentoProfissional'],
+      x: ['Tendência', 'Fio'],
+      tiktok: ['ParaVocê', 'FYP', 'TikTokBrasil'],
+      facebook: ['Comunidade', 'Compartilhe'],
+      threads: ['ThreadsBrasil', 'Conversa'],
+      pinterest: ['Ideias', 'Inspo', 'Decoração']
+    }
+  },
+
+  french: {
+    hooks: {
+      professional: ["L'essentiel sur {topic}.", 'Zoom sur {topic}.'],
+      fun: ['Parlons de {topic} ! 🎉', 'Devinez quoi ? {topic} ! ✨'],
+      genz: ["{topic}, c'est le main character ✨", 'pov : tu viens de découvrir {topic} 👀'],
+      motivational: ['Chaque grand pas commence par {topic}. 💪', "C'est le signe pour te lancer dans {topic}."]
+    },
+    ctas: {
+      professional: ['Partagez votre avis en commentaire.', "Suivez-nous pour plus d'idées."],
+      fun: ['Identifie un ami qui doit voir ça ! 👇', 'Enregistre-le pour plus tard ! 📌'],
+      genz: ['tag ton bestie 👇', "lâche un 🔥 si t'es d'accord"],
+      motivational: ['Enregistre-le comme rappel. 💫', "Partage-le avec quelqu'un qui en a besoin aujourd'hui."]
+    },
+    pointsIntro: {
+      professional: 'Points clés :',
+      fun: 'Le meilleur :',
+      genz: 'les potins :',
+      motivational: 'Rappelle-toi :'
+    },
+    platformCtas: {
+      youtube: 'Abonne-toi et active la cloche 🔔',
+      linkedin: "Qu'en pensez-vous ? Dites-le en commentaire.",
+      pinterest: 'Enregistre cette épingle pour plus tard 📌'
+    },
+    hashtags: {
+      professional: ['Entreprise', 'Leadership', 'Stratégie', 'Entrepreneuriat', 'Croissance', 'Marketing', 'Innovation', 'Productivité'],
+      fun: ['BonneHumeur', 'Détente', 'Bonheur', 'Humour', 'Weekend', 'Sourire', 'Rire', 'BonsMoments'],
+      genz: ['Vibes', 'Aesthetic', 'Relatable', 'Ambiance', 'Tendance', 'SansFiltre', 'Mood', 'Style'],
+      motivational: ['Motivation', 'Inspiration', 'DéveloppementPersonnel', 'Objectifs', 'Réussite', 'NeLâcheRien', 'Ambition', 'Persévérance']
+    },
+    platformHashtags: {
+      instagram: ['InstaFrance', 'PhotoDuJour', 'Explorer', 'ReelsFrance'],
+      linkedin: ['Carrière', 'Réseautage', 'Emploi'],
+      x: ['Actu', 'Thread'],
+      tiktok: ['PourToi', 'FYP', 'TikTokFrance'],
+      facebook: ['Communauté', 'Partage'],
+      threads: ['ThreadsFrance', 'Discussion'],
+      pinterest: ['Idées', 'Inspo', 'Déco']
+    }
+  },
+
+  arabic: {
+    hooks: {
+      professional: ['أهم ما يجب معرفته عن {topic}.', 'نظرة أقرب على {topic}.'],
+      fun: ['يلا نتكلم عن {topic}! 🎉', 'خمّن إيش الجديد؟ {topic}! ✨'],
+      genz: ['{topic} طاقته طاقة البطل ✨', 'pov: اكتشفت {topic} للتو 👀'],
+      motivational: ['كل خطوة كبيرة تبدأ بـ{topic}. 💪', 'هذه إشارتك لتبدأ في {topic}.']
+    },
+    ctas: {
+      professional: ['شاركنا رأيك في التعليقات.', 'تابعنا لمزيد من الأفكار.'],
+      fun: ['منشن صديق يحتاج هذا! 👇', 'احفظه لوقت لاحق! 📌'],
+      genz: ['منشن البيستي 👇', 'حط 🔥 إذا توافق'],
+      motivational: ['احفظه كتذكير. 💫', 'شاركه مع شخص يحتاجه اليوم.']
+    },
+    pointsIntro: {
+      professional: 'النقاط الرئيسية:',
+      fun: 'الجزء الممتع:',
+      genz: 'الخلاصة:',
+      motivational: 'تذكّر:'
+    },
+    platformCtas: {
+      youtube: 'اشترك في القناة وفعّل الجرس 🔔',
+      linkedin: 'ما رأيك؟ شاركنا في التعليقات.',
+      pinterest: 'احفظ هذا الدبوس لوقت لاحق 📌'
+    },
+    hashtags: {
+      professional: ['أعمال', 'قيادة', 'استراتيجية', 'تسويق', 'نمو', 'ريادة', 'ابتكار', 'إنتاجية'],
+      fun: ['ضحك', 'فرح', 'متعة', 'ترفيه', 'سعادة', 'وناسة', 'مرح', 'بهجة'],
+      genz: ['ترند', 'ستايل', 'شباب', 'يوميات', 'Vibes', 'Aesthetic', 'مود', 'عصري'],
+      motivational: ['تحفيز', 'إلهام', 'نجاح', 'طموح', 'أهداف', 'إصرار', 'ثقة', 'أحلام']
+    },
+    platformHashtags: {
+      instagram: ['انستقرام', 'اكسبلور', 'ريلز', 'عربي'],
+      linkedin: ['وظائف', 'تطوير', 'مهنية'],
+      x: ['نقاش', 'رأي'],
+      tiktok: ['تيكتوك', 'FYP', 'اكسبلور'],
+      facebook: ['مجتمع', 'شارك'],
+      threads: ['ثريدز', 'حوار'],
+      pinterest: ['أفكار', 'ديكور', 'إلهام']
+    }
+  },
+
+  tamil: {
+    hooks: {
+      professional: ['{topic} பற்றி தெரிந்துகொள்ள வேண்டியவை.', '{topic} குறித்து ஒரு பார்வை.'],
+      fun: ['வாங்க {topic} பற்றி பேசலாம்! 🎉', 'புதுசா என்ன தெரியுமா? {topic}! ✨'],
+      genz: ['{topic} செம மெயின் கேரக்டர் வைப் ✨', 'pov: இப்போதான் {topic} பற்றி தெரிஞ்சுது 👀'],
+      motivational: ['ஒவ்வொரு பெரிய அடியும் {topic} இல் தொடங்குகிறது. 💪', '{topic} இல் முழுமையாக இறங்க இதுதான் உங்கள் அறிகுறி.']
+    },
+    ctas: {
+      professional: ['உங்கள் கருத்தை கமெண்டில் பகிருங்கள்.', 'மேலும் தகவல்களுக்கு ஃபாலோ செய்யுங்கள்.'],
+      fun: ['இது தேவைப்படும் நண்பரை டேக் பண்ணுங்க! 👇', 'பிறகு பார்க்க சேவ் பண்ணுங்க! 📌'],
+      genz: ['உங்க பெஸ்டியை டேக் பண்ணுங்க 👇', 'ஒத்துக்கிட்டா 🔥 போடுங்க'],
+      motivational: ['நினைவூட்டலாக சேவ் செய்யுங்கள். 💫', 'இன்று இது தேவைப்படும் ஒருவருடன் பகிருங்கள்.']
+    },
+    pointsIntro: {
+      professional: 'முக்கிய அம்சங்கள்:',
+      fun: 'சுவாரஸ்யமான பகுதி:',
+      genz: 'விஷயம் இதுதான்:',
+      motivational: 'நினைவில் கொள்ளுங்கள்:'
+    },
+    platformCtas: {
+      youtube: 'மேலும் வீடியோக்களுக்கு சப்ஸ்க்ரைப் செய்து பெல் ஐகானை அழுத்துங்கள் 🔔',
+      linkedin: 'உங்கள் கருத்து என்ன? கமெண்டில் சொல்லுங்கள்.',
+      pinterest: 'இந்த பின்னை பிறகு பார்க்க சேவ் செய்யுங்கள் 📌'
+    },
+    hashtags: {
+      professional: ['தொழில்', 'தலைமைத்துவம்', 'வணிகம்', 'உத்தி', 'வளர்ச்சி', 'சந்தைப்படுத்தல்', 'புதுமை', 'உற்பத்தித்திறன்'],
+      fun: ['மகிழ்ச்சி', 'கொண்டாட்டம்', 'நகைச்சுவை', 'ஜாலி', 'நண்பர்கள்', 'சிரிப்பு', 'கலகலப்பு', 'குதூகலம்'],
+      genz: ['ட்ரெண்டிங்', 'வைப்ஸ்', 'ஸ்டைல்', 'இளைஞர்கள்', 'Vibes', 'Aesthetic', 'மூட்', 'ட்ரெண்ட்'],
+      motivational: ['ஊக்கம்', 'வெற்றி', 'உழைப்பு', 'இலக்கு', 'நம்பிக்கை', 'முயற்சி', 'தன்னம்பிக்கை', 'கனவுகள்']
+    },
+    platformHashtags: {
+      instagram: ['தமிழ்', 'தமிழ்நாடு', 'InstaTamil', 'ReelsTamil'],
+      linkedin: ['வேலைவாய்ப்பு', 'தொழில்முறை', 'Networking'],
+      x: ['தமிழ்', 'விவாதம்'],
+      tiktok: ['FYP', 'தமிழ்', 'ForYouPage'],
+      facebook: ['சமூகம்', 'பகிர்வு'],
+      threads: ['தமிழ்', 'உரையாடல்'],
+      pinterest: ['யோசனைகள்', 'அலங்காரம்', 'Inspo']
+    }
+  },
+
+  bengali: {
+    hooks: {
+      professional: ['{topic} সম্পর্কে যা জানা দরকার।', '{topic}-এর দিকে এক নজর।'],
+      fun: ['চলো {topic} নিয়ে কথা বলি! 🎉', 'বলো তো নতুন কী? {topic}! ✨'],
+      genz: ['{topic} একদম মেইন ক্যারেক্টার ভাইব ✨', 'pov: তুমি মাত্র {topic} সম্পর্কে জানলে 👀'],
+      motivational: ['প্রতিটি বড় পদক্ষেপ শুরু হয় {topic} দিয়ে। 💪', 'এটাই তোমার সংকেত — {topic}-এ পুরোপুরি মন দাও।']
+    },
+    ctas: {
+      professional: ['কমেন্টে আপনার মতামত জানান।', 'আরও তথ্যের জন্য ফলো করুন।'],
+      fun: ['যে বন্ধুর এটা দরকার তাকে ট্যাগ করো! 👇', 'পরে দেখার জন্য সেভ করে রাখো! 📌'],
+      genz: ['তোমার বেস্টিকে ট্যাগ করো 👇', 'একমত হলে 🔥 দাও'],
+      motivational: ['রিমাইন্ডার হিসেবে সেভ করে রাখুন। 💫', 'আজ যার এটা দরকার তার সাথে শেয়ার করুন।']
+    },
+    pointsIntro: {
+      professional: 'মূল বিষয়গুলো:',
+      fun: 'মজার ব্যাপার:',
+      genz: 'আসল কথা:',
+      motivational: 'মনে রাখবেন:'
+    },
+    platformCtas: {
+      youtube: 'আরও ভিডিওর জন্য সাবস্ক্রাইব করুন এবং বেল আইকনে চাপ দিন 🔔',
+      linkedin: 'আপনার মতামত কী? কমেন্টে জানান।',
+      pinterest: 'এই পিনটি পরে দেখার জন্য সেভ করুন 📌'
+    },
+    hashtags: {
+      professional: ['ব্যবসা', 'নেতৃত্ব', 'কৌশল', 'উদ্যোক্তা', 'উন্নতি', 'মার্কেটিং', 'উদ্ভাবন', 'উৎপাদনশীলতা'],
+      fun: ['আনন্দ', 'মজা', 'হাসি', 'বন্ধুত্ব', 'আড্ডা', 'খুশি', 'হইচই', 'উৎসব'],
+      genz: ['ট্রেন্ডিং', 'ভাইবস', 'স্টাইল', 'তরুণ', 'Vibes', 'Aesthetic', 'মুড', 'ট্রেন্ড'],
+      motivational: ['অনুপ্রেরণা', 'সাফল্য', 'পরিশ্রম', 'লক্ষ্য', 'স্বপ্ন', 'আত্মবিশ্বাস', 'মনোবল', 'স্বপ্নপূরণ']
+    },
+    platformHashtags: {
+      instagram: ['বাংলা', 'InstaBangla', 'ReelsBangla', 'ExplorePage'],
+      linkedin: ['চাকরি', 'ক্যারিয়ার', 'Networking'],
+      x: ['বাংলা', 'আলোচনা'],
+      tiktok: ['FYP', 'বাংলা', 'ForYouPage'],
+      facebook: ['কমিউনিটি', 'শেয়ার'],
+      threads: ['বাংলা', 'আলাপ'],
+      pinterest: ['আইডিয়া', 'সাজসজ্জা', 'Inspo']
+    }
+  }
+};
@@ -0,0 +1,83 @@
+/**
+ * Output Schemas
+ *
+ * JSON schemas for the model responses behind CaptionResult and
+ * ContentSummary. Used both to request native JSON output from
+ * providers and to validate what comes back.
+ */
+
+import { JsonSchema, ResponseFormat } from '../types';
+
+const stringList: JsonSchema = { type: 'array', items: { type: 'string' } };
+
+const CAPTION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    text: { type: 'string', minLength: 1 },
+    hookLines: stringList,
+    cta: { type: 'string' },
+    hashtags: stringList
+  },
+  required: ['text', 'hookLines', 'cta', 'hashtags']
+};
+
+// Raw caption object as written by the model
+export interface RawCaption {
+  text: string;
+  hookLines: string[];
+  cta: string;
+  hashtags: string[];
+}
+
+// Raw summary object as written by the model
+export interface RawContentSummary {
+  mainIdea: string;
+  bulletPoints: string[];
+  keywords: string[];
+}
+
+export const CAPTIONS_FORMAT: ResponseFormat = {
+  name: 'captions',
+  schema: {
+    type: 'object',
+    properties: {
+      captions: { type: 'array', items: CAPTION_SCHEMA, minItems: 1 }
+    },
+    required: ['captions']
+  }
+};
+
+export const SINGLE_CAPTION_FORMAT: ResponseFormat = {
+  name: 'caption',
+  schema: {
+    type: 'object',
+    properties: {
+      caption: CAPTION_SCHEMA
+    },
+    required: ['caption']
+  }
+};
+
+export const HASHTAGS_FORMAT: ResponseFormat = {
+  name: 'hashtags',
+  schema: {
+    type: 'object',
+    properties: {
+      hashtags: { type: 'array', items: { type: 'string' }, minItems: 1 }
+    },
+    required: ['hashtags']
+  }
+};
+
+export const CONTENT_SUMMARY_FORMAT: ResponseFormat = {
+  name: 'content_summary',
+  schema: {
+    type: 'object',
+    properties: {
+      mainIdea: { type: 'string', minLength: 1 },
+      bulletPoints: { type: 'array', items: { type: 'string' }, minItems: 1 },
+      keywords: stringList
+    },
+    required: ['mainIdea', 'bulletPoints', 'keywords']
+  }
+};
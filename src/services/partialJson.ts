@@ -0,0 +1,143 @@
+/**
+ * Partial JSON Parser
+ *
+ * Parses a JSON document that is still being streamed. Unterminated
+ * strings, arrays and objects are returned with whatever has arrived so
+ * far, and fully closed containers are tracked so callers can tell
+ * finished items from ones still being written.
+ */
+
+export interface PartialJsonResult {
+  value: unknown;
+  // True once the closing bracket of an object/array has been seen
+  isComplete(node: unknown): boolean;
+}
+
+const INCOMPLETE = Symbol('incomplete');
+
+/**
+ * Parse the longest usable prefix of a JSON document
+ */
+export function parsePartialJson(text: string): PartialJsonResult {
+  const completed = new WeakSet<object>();
+  let pos = 0;
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+
+  const parseString = (): string => {
+    pos++; // opening quote
+    let out = '';
+
+    while (pos < text.length) {
+      const ch = text[pos];
+      if (ch === '"') {
+        pos++;
+        return out;
+      }
+      if (ch === '\\') {
+        const next = text[pos + 1];
+        if (next === undefined) break;
+        if (next === 'u') {
+          const hex = text.slice(pos + 2, pos + 6);
+          if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+          out += String.fromCharCode(parseInt(hex, 16));
+          pos += 6;
+          continue;
+        }
+        const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+        out += escapes[next] ?? next;
+        pos += 2;
+        continue;
+      }
+      out += ch;
+      pos++;
+    }
+
+    // Unterminated: hand back what has streamed so far
+    pos = text.length;
+    return out;
+  };
+
+  const parseValue = (): unknown => {
+    skipWhitespace();
+    if (pos >= text.length) return INCOMPLETE;
+
+    const ch = text[pos];
+
+    if (ch === '{') {
+      pos++;
+      const obj: Record<string, unknown> = {};
+
+      for (;;) {
+        skipWhitespace();
+        if (pos >= text.length) return obj;
+        if (text[pos] === '}') {
+          pos++;
+          completed.add(obj);
+          return obj;
+        }
+        if (text[pos] === ',') {
+          pos++;
+          continue;
+        }
+        if (text[pos] !== '"') return obj;
+
+        const key = parseString();
+        skipWhitespace();
+        // A key whose closing quote or colon has not arrived yet is dropped
+        if (pos >= text.length || text[pos] !== ':') {
+          return obj;
+        }
+        pos++;
+
+        const value = parseValue();
+        if (value === INCOMPLETE) return obj;
+        obj[key] = value;
+      }
+    }
+
+    if (ch === '[') {
+      pos++;
+      const arr: unknown[] = [];
+
+      for (;;) {
+        skipWhitespace();
+        if (pos >= text.length) return arr;
+        if (text[pos] === ']') {
+          pos++;
+          completed.add(arr);
+          return arr;
+        }
+        if (text[pos] === ',') {
+          pos++;
+          continue;
+        }
+
+        const value = parseValue();
+        if (value === INCOMPLETE) return arr;
+        arr.push(value);
+      }
+    }
+
+    if (ch === '"') return parseString();
+
+    const literal = text.slice(pos).match(/^(-?\d+(\.\d+)?([eE][+-]?\d+)?|true|false|null)/);
+    if (literal) {
+      // A number touching the end of the buffer may still be growing
+      pos += literal[0].length;
+      if (pos >= text.length && /\d$/.test(literal[0])) return INCOMPLETE;
+      return JSON.parse(literal[0]);
+    }
+
+    return INCOMPLETE;
+  };
+
+  const value = parseValue();
+
+  return {
+    value: value === INCOMPLETE ? undefined : value,
+    isComplete: (node: unknown) => typeof node === 'object' && node !== null && completed.has(node)
+  };
+}
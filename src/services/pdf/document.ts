@@ -0,0 +1,257 @@
+/**
+ * PDF Document Loader
+ *
+ * Scans the file for indirect objects (including those packed into
+ * compressed object streams), decodes stream filters and walks the
+ * page tree in reading order.
+ */
+
+import {
+  PdfDict,
+  PdfName,
+  PdfLexer,
+  PdfStream,
+  PdfValue,
+  isDict,
+  isName,
+  isOperator,
+  isRef,
+  isStream,
+  latin1
+} from './lexer';
+
+export interface PdfDocument {
+  resolve(value: PdfValue | undefined): PdfValue | undefined;
+  get(dict: PdfDict | undefined, key: string): PdfValue | undefined;
+  decodeStream(stream: PdfStream): Promise<Uint8Array>;
+  pages: PdfPage[];
+}
+
+export interface PdfPage {
+  dict: PdfDict;
+  resources: PdfDict | undefined;
+}
+
+const OBJECT_HEADER = /(\d+)\s+(\d+)\s+obj\b/g;
+const ENDSTREAM = 'endstream';
+
+/**
+ * Inflate a zlib (FlateDecode) stream using the browser's DecompressionStream
+ */
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const attempt = async (format: CompressionFormat, input: Uint8Array) => {
+    const stream = new Blob([input.slice()]).stream().pipeThrough(new DecompressionStream(format));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  };
+
+  try {
+    return await attempt('deflate', data);
+  } catch {
+    // Some writers emit a bad checksum or a bare deflate stream
+    return attempt('deflate-raw', data.subarray(2)).catch(() => new Uint8Array(0));
+  }
+}
+
+function decodeAsciiHex(data: Uint8Array): Uint8Array {
+  const hex = latin1(data).replace(/[^0-9a-fA-F]/g, '');
+  const out = new Uint8Array(Math.ceil(hex.length / 2));
+  for (let i = 0; i < out.length; i++) {
+    out[i] = parseInt(hex.substr(i * 2, 2).padEnd(2, '0'), 16);
+  }
+  return out;
+}
+
+function decodeAscii85(data: Uint8Array): Uint8Array {
+  const text = latin1(data).replace(/\s+/g, '').replace(/^<~/, '').replace(/~>.*$/, '');
+  const out: number[] = [];
+  let group: number[] = [];
+
+  const flush = (count: number) => {
+    while (group.length < 5) group.push(84); // pad with 'u'
+    let value = 0;
+    for (const digit of group) value = value * 85 + digit;
+    for (let i = 0; i < count - 1; i++) {
+      out.push((value >>> (24 - i * 8)) & 0xff);
+    }
+    group = [];
+  };
+
+  for (const ch of text) {
+    if (ch === 'z' && group.length === 0) {
+      out.push(0, 0, 0, 0);
+      continue;
+    }
+    group.push(ch.charCodeAt(0) - 33);
+    if (group.length === 5) flush(5);
+  }
+  if (group.length > 0) flush(group.length);
+
+  return Uint8Array.from(out);
+}
+
+/**
+ * Locate the end of a stream's data
+ * Trusts /Length when it points at `endstream`, otherwise searches for it
+ */
+function findStreamEnd(bytes: Uint8Array, start: number, length: PdfValue | undefined): number {
+  if (typeof length === 'number') {
+    const end = start + length;
+    const tail = latin1(bytes.subarray(end, end + 20));
+    if (/^\s*endstream/.test(tail)) return end;
+  }
+
+  const text = latin1(bytes.subarray(start, Math.min(bytes.length, start + 64 * 1024 * 1024)));
+  let end = text.indexOf(ENDSTREAM);
+  if (end === -1) return bytes.length;
+
+  // Trim the end-of-line marker before `endstream`
+  if (text[end - 1] === '\n') end--;
+  if (text[end - 1] === '\r') end--;
+  return start + end;
+}
+
+/**
+ * Load a PDF from raw bytes
+ */
+export async function loadPdfDocument(bytes: Uint8Array): Promise<PdfDocument> {
+  const objects = new Map<number, PdfValue>();
+  const objectStreams: PdfStream[] = [];
+  let catalog: PdfDict | undefined;
+  let encrypted = false;
+
+  const text = latin1(bytes);
+
+  // Pass 1: top-level indirect objects (later definitions win, matching incremental updates)
+  OBJECT_HEADER.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = OBJECT_HEADER.exec(text)) !== null) {
+    const lexer = new PdfLexer(bytes, match.index + match[0].length);
+    const value = lexer.readObject();
+    if (value === undefined || isOperator(value)) continue;
+
+    let object: PdfValue = value;
+    if (isDict(value)) {
+      const dataStart = lexer.readStreamStart();
+      if (dataStart !== null) {
+        const dataEnd = findStreamEnd(bytes, dataStart, value.entries.Length);
+        object = { type: 'stream', dict: value, data: bytes.subarray(dataStart, dataEnd) };
+        OBJECT_HEADER.lastIndex = dataEnd;
+      }
+    }
+
+    objects.set(parseInt(match[1], 10), object);
+
+    const dict = isStream(object) ? object.dict : isDict(object) ? object : undefined;
+    if (dict && isName(dict.entries.Type, 'ObjStm') && isStream(object)) objectStreams.push(object);
+    if (dict && isName(dict.entries.Type, 'XRef') && dict.entries.Encrypt) encrypted = true;
+  }
+
+  // Classic trailers can also point at an /Encrypt dictionary
+  if (/trailer\s*<<(?:(?!>>)[\s\S])*\/Encrypt\b/.test(text)) encrypted = true;
+  if (encrypted) {
+    throw new Error('This PDF is password-protected or encrypted. Please export an unprotected copy.');
+  }
+
+  const resolve = (value: PdfValue | undefined, depth: number = 0): PdfValue | undefined => {
+    if (isRef(value) && depth < 16) {
+      return resolve(objects.get(value.num), depth + 1);
+    }
+    return value;
+  };
+
+  const get = (dict: PdfDict | undefined, key: string) => resolve(dict?.entries[key]);
+
+  const decodeStream = async (stream: PdfStream): Promise<Uint8Array> => {
+    const filter = get(stream.dict, 'Filter');
+    const filters = (Array.isArray(filter) ? filter : filter ? [filter] : [])
+      .map(f => resolve(f))
+      .filter((f): f is PdfName => isName(f))
+      .map(f => f.value);
+
+    let data = stream.data;
+    for (const name of filters) {
+      switch (name) {
+        case 'FlateDecode':
+        case 'Fl':
+          data = await inflate(data);
+          break;
+        case 'ASCIIHexDecode':
+        case 'AHx':
+          data = decodeAsciiHex(data);
+          break;
+        case 'ASCII85Decode':
+        case 'A85':
+          data = decodeAscii85(data);
+          break;
+        default:
+          // Image codecs and rarely used filters carry no text
+          return new Uint8Array(0);
+      }
+    }
+    return data;
+  };
+
+  // Pass 2: objects packed into compressed object streams
+  for (const stream of objectStreams) {
+    const count = get(stream.dict, 'N');
+    const first = get(stream.dict, 'First');
+    if (typeof count !== 'number' || typeof first !== 'number') continue;
+
+    const data = await decodeStream(stream);
+    const header = new PdfLexer(data);
+    const offsets: [number, number][] = [];
+    for (let i = 0; i < count; i++) {
+      const num = header.readObject();
+      const offset = header.readObject();
+      if (typeof num !== 'number' || typeof offset !== 'number') break;
+      offsets.push([num, offset]);
+    }
+
+    for (const [num, offset] of offsets) {
+      // Objects defined directly in the file take precedence
+      if (objects.has(num)) continue;
+      const value = new PdfLexer(data, first + offset).readObject();
+      if (value !== undefined && !isOperator(value)) objects.set(num, value);
+    }
+  }
+
+  for (const object of objects.values()) {
+    if (isDict(object) && isName(object.entries.Type, 'Catalog')) catalog = object;
+  }
+
+  // Walk the page tree depth-first to keep reading order
+  const pages: PdfPage[] = [];
+  const visited = new Set<PdfDict>();
+
+  const walk = (node: PdfValue | undefined, inheritedResources: PdfDict | undefined) => {
+    const dict = resolve(node);
+    if (!isDict(dict) || visited.has(dict)) return;
+    visited.add(dict);
+
+    const ownResources = get(dict, 'Resources');
+    const resources = isDict(ownResources) ? ownResources : inheritedResources;
+    const kids = get(dict, 'Kids');
+
+    if (Array.isArray(kids)) {
+      kids.forEach(kid => walk(kid, resources));
+    } else if (isName(dict.entries.Type, 'Page') || get(dict, 'Contents') !== undefined) {
+      pages.push({ dict, resources });
+    }
+  };
+
+  if (catalog) {
+    walk(catalog.entries.Pages, undefined);
+  }
+
+  // Damaged files: fall back to every page object in file order
+  if (pages.length === 0) {
+    for (const object of objects.values()) {
+      if (isDict(object) && isName(object.entries.Type, 'Page')) {
+        const resources = get(object, 'Resources');
+        pages.push({ dict: object, resources: isDict(resources) ? resources : undefined });
+      }
+    }
+  }
+
+  return { resolve, get, decodeStream, pages };
+}
@@ -0,0 +1,281 @@
+/**
+ * PDF Font Decoding
+ *
+ * Turns the byte strings passed to text-showing operators into Unicode,
+ * using (in order of preference) the font's ToUnicode CMap, its
+ * /Differences glyph names and its base encoding.
+ */
+
+import { PdfDocument } from './document';
+import { PdfDict, PdfValue, isDict, isName, isStream, latin1 } from './lexer';
+
+export interface FontDecoder {
+  decode(bytes: Uint8Array): string;
+  // Total advance width of the glyphs, in ems
+  measure(bytes: Uint8Array): number;
+}
+
+// Fallback glyph width (ems) when a font carries no metrics
+const DEFAULT_GLYPH_WIDTH = 0.5;
+
+// Single-byte base encodings, built from the platform's TextDecoder tables
+const WIN_ANSI = buildSingleByteTable('windows-1252');
+const MAC_ROMAN = buildSingleByteTable('macintosh');
+
+// StandardEncoding differs from ASCII mainly in its curly quotes
+const STANDARD = (() => {
+  const table = WIN_ANSI.slice();
+  table[0x27] = '’';
+  table[0x60] = '‘';
+  return table;
+})();
+
+// Common glyph names from the Adobe Glyph List
+const GLYPH_NAMES: Record<string, string> = {
+  space: ' ', exclam: '!', quotedbl: '"', numbersign: '#', dollar: '$', percent: '%',
+  ampersand: '&', quotesingle: "'", quoteright: '’', quoteleft: '‘',
+  parenleft: '(', parenright: ')', asterisk: '*', plus: '+', comma: ',', hyphen: '-',
+  period: '.', slash: '/', colon: ':', semicolon: ';', less: '<', equal: '=', greater: '>',
+  question: '?', at: '@', bracketleft: '[', backslash: '\\', bracketright: ']',
+  asciicircum: '^', underscore: '_', grave: '`', braceleft: '{', bar: '|', braceright: '}',
+  asciitilde: '~', zero: '0', one: '1', two: '2', three: '3', four: '4', five: '5',
+  six: '6', seven: '7', eight: '8', nine: '9', quotedblleft: '“', quotedblright: '”',
+  quotesinglbase: '‚', quotedblbase: '„', endash: '–', emdash: '—',
+  bullet: '•', ellipsis: '…', dagger: '†', daggerdbl: '‡',
+  trademark: '™', copyright: '©', registered: '®', degree: '°',
+  section: '§', paragraph: '¶', sterling: '£', yen: '¥', Euro: '€',
+  cent: '¢', fi: 'fi', fl: 'fl', ff: 'ff', ffi: 'ffi', ffl: 'ffl', germandbls: 'ß',
+  ae: 'æ', AE: 'Æ', oe: 'œ', OE: 'Œ', oslash: 'ø', Oslash: 'Ø',
+  dotlessi: 'ı', nbspace: '\u00A0', minus: '−', multiply: '×', divide: '÷',
+  guillemotleft: '«', guillemotright: '»', exclamdown: '¡', questiondown: '¿',
+  periodcentered: '·', middot: '·'
+};
+
+// Accent suffixes in glyph names such as "eacute" or "Udieresis"
+const ACCENT_SUFFIXES: Record<string, string> = {
+  acute: '\u0301', grave: '\u0300', circumflex: '\u0302', dieresis: '\u0308',
+  tilde: '\u0303', ring: '\u030A', cedilla: '\u0327', caron: '\u030C', macron: '\u0304'
+};
+
+function buildSingleByteTable(label: string): string[] {
+  const bytes = new Uint8Array(256).map((_, i) => i);
+  let decoded: string[];
+  try {
+    decoded = Array.from(new TextDecoder(label).decode(bytes));
+  } catch {
+    decoded = Array.from(latin1(bytes));
+  }
+  // Control characters never carry visible text
+  return decoded.map((ch, i) => (i < 0x20 ? '' : ch));
+}
+
+/**
+ * Map a glyph name to Unicode
+ */
+export function glyphNameToUnicode(name: string): string {
+  const base = name.split('.')[0]; // drop suffixes like "a.sc"
+
+  if (GLYPH_NAMES[base] !== undefined) return GLYPH_NAMES[base];
+  if (/^[A-Za-z]$/.test(base)) return base;
+
+  const uni = base.match(/^uni([0-9A-Fa-f]{4,})$/);
+  if (uni) {
+    return (uni[1].match(/.{4}/g) || []).map(hex => String.fromCharCode(parseInt(hex, 16))).join('');
+  }
+
+  const u = base.match(/^u([0-9A-Fa-f]{4,6})$/);
+  if (u) return String.fromCodePoint(parseInt(u[1], 16));
+
+  const accented = base.match(/^([A-Za-z])(acute|grave|circumflex|dieresis|tilde|ring|cedilla|caron|macron)$/);
+  if (accented) return (accented[1] + ACCENT_SUFFIXES[accented[2]]).normalize('NFC');
+
+  return '';
+}
+
+/**
+ * Decode a UTF-16BE byte sequence (ToUnicode destination values)
+ */
+function utf16be(hex: string): string {
+  const units: number[] = [];
+  for (let i = 0; i + 4 <= hex.length; i += 4) {
+    units.push(parseInt(hex.substr(i, 4), 16));
+  }
+  if (units.length === 0 && hex.length === 2) units.push(parseInt(hex, 16));
+  return String.fromCharCode(...units);
+}
+
+/**
+ * Parse a ToUnicode CMap into a code → text map
+ */
+function parseToUnicode(cmap: string): { map: Map<number, string>; codeLength: number } {
+  const map = new Map<number, string>();
+  let codeLength = 1;
+
+  const codespace = cmap.match(/begincodespacerange\s*<([0-9a-fA-F]+)>/);
+  if (codespace) codeLength = Math.max(1, codespace[1].length / 2);
+
+  const charBlocks = cmap.match(/beginbfchar([\s\S]*?)endbfchar/g) || [];
+  for (const block of charBlocks) {
+    const pairs = block.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g);
+    for (const [, src, dst] of pairs) {
+      map.set(parseInt(src, 16), utf16be(dst));
+    }
+  }
+
+  const rangeBlocks = cmap.match(/beginbfrange([\s\S]*?)endbfrange/g) || [];
+  for (const block of rangeBlocks) {
+    const ranges = block.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g);
+    for (const [, lo, hi, dst] of ranges) {
+      const start = parseInt(lo, 16);
+      const end = Math.min(parseInt(hi, 16), start + 0xffff);
+
+      if (dst.startsWith('[')) {
+        const values = dst.match(/<([0-9a-fA-F]*)>/g) || [];
+        values.forEach((value, i) => map.set(start + i, utf16be(value.slice(1, -1))));
+      } else {
+        // Increment the last UTF-16 unit across the range
+        const hex = dst.slice(1, -1);
+        const prefix = hex.slice(0, -4);
+        const last = parseInt(hex.slice(-4) || '0', 16);
+        for (let code = start; code <= end; code++) {
+          map.set(code, utf16be(prefix) + String.fromCharCode(last + code - start));
+        }
+      }
+    }
+  }
+
+  return { map, codeLength };
+}
+
+function baseEncodingTable(value: PdfValue | undefined): string[] {
+  if (isName(value, 'MacRomanEncoding')) return MAC_ROMAN;
+  if (isName(value, 'StandardEncoding')) return STANDARD;
+  return WIN_ANSI;
+}
+
+/**
+ * Build the code → text table for a simple (single-byte) font
+ */
+function buildSimpleFontTable(doc: PdfDocument, font: PdfDict): string[] {
+  const encoding = doc.get(font, 'Encoding');
+  const table = baseEncodingTable(isDict(encoding) ? doc.get(encoding, 'BaseEncoding') : encoding).slice();
+
+  if (isDict(encoding)) {
+    const differences = doc.get(encoding, 'Differences');
+    if (Array.isArray(differences)) {
+      let code = 0;
+      for (const entry of differences) {
+        if (typeof entry === 'number') {
+          code = entry;
+        } else if (isName(entry)) {
+          table[code & 0xff] = glyphNameToUnicode(entry.value);
+          code++;
+        }
+      }
+    }
+  }
+
+  return table;
+}
+
+/**
+ * Read glyph widths (in ems) for a font
+ * Simple fonts use /FirstChar + /Widths, composite fonts use the
+ * descendant font's /W array and /DW default
+ */
+function buildWidths(doc: PdfDocument, font: PdfDict, isComposite: boolean): (code: number) => number {
+  if (isComposite) {
+    const descendants = doc.get(font, 'DescendantFonts');
+    const cidFont = Array.isArray(descendants) ? doc.resolve(descendants[0]) : undefined;
+    if (!isDict(cidFont)) return () => 1;
+
+    const defaultWidth = doc.get(cidFont, 'DW');
+    const fallback = typeof defaultWidth === 'number' ? defaultWidth / 1000 : 1;
+    const widths = new Map<number, number>();
+    const w = doc.get(cidFont, 'W');
+
+    if (Array.isArray(w)) {
+      for (let i = 0; i < w.length;) {
+        const first = doc.resolve(w[i]);
+        const next = doc.resolve(w[i + 1]);
+        if (typeof first !== 'number') break;
+
+        if (Array.isArray(next)) {
+          next.forEach((width, j) => {
+            const value = doc.resolve(width);
+            if (typeof value === 'number') widths.set(first + j, value / 1000);
+          });
+          i += 2;
+        } else {
+          const width = doc.resolve(w[i + 2]);
+          if (typeof next !== 'number' || typeof width !== 'number') break;
+          for (let code = first; code <= next && code - first < 0xffff; code++) {
+            widths.set(code, width / 1000);
+          }
+          i += 3;
+        }
+      }
+    }
+
+    return code => widths.get(code) ?? fallback;
+  }
+
+  const firstChar = doc.get(font, 'FirstChar');
+  const widths = doc.get(font, 'Widths');
+  const descriptor = doc.get(font, 'FontDescriptor');
+  const missing = isDict(descriptor) ? doc.get(descriptor, 'MissingWidth') : undefined;
+  const fallback = typeof missing === 'number' && missing > 0 ? missing / 1000 : DEFAULT_GLYPH_WIDTH;
+
+  if (typeof firstChar !== 'number' || !Array.isArray(widths)) return () => fallback;
+
+  return code => {
+    const width = doc.resolve(widths[code - firstChar]);
+    return typeof width === 'number' && width > 0 ? width / 1000 : fallback;
+  };
+}
+
+/**
+ * Build a decoder for a font dictionary
+ */
+export async function createFontDecoder(doc: PdfDocument, font: PdfDict): Promise<FontDecoder> {
+  const isComposite = isName(doc.get(font, 'Subtype'), 'Type0');
+  const simpleTable = isComposite ? null : buildSimpleFontTable(doc, font);
+  const widthOf = buildWidths(doc, font, isComposite);
+
+  // Composite fonts default to 2-byte (Identity-H) codes
+  let codeWidth = isComposite ? 2 : 1;
+  let lookup = (code: number): string => (simpleTable ? simpleTable[code] : '');
+
+  const toUnicode = doc.get(font, 'ToUnicode');
+  if (isStream(toUnicode)) {
+    const { map, codeLength } = parseToUnicode(latin1(await doc.decodeStream(toUnicode)));
+
+    if (map.size > 0) {
+      codeWidth = isComposite ? Math.max(2, codeLength) : codeLength;
+      // Identity-encoded CID fonts without a mapping have no recoverable text
+      lookup = code => map.get(code) ?? (simpleTable && codeWidth === 1 ? simpleTable[code] : '');
+    }
+  }
+
+  const forEachCode = (bytes: Uint8Array, callback: (code: number) => void) => {
+    for (let i = 0; i + codeWidth <= bytes.length; i += codeWidth) {
+      let code = 0;
+      for (let j = 0; j < codeWidth; j++) code = (code << 8) | bytes[i + j];
+      callback(code);
+    }
+  };
+
+  return {
+    decode(bytes: Uint8Array): string {
+      let out = '';
+      forEachCode(bytes, code => { out += lookup(code); });
+      return out;
+    },
+
+    measure(bytes: Uint8Array): number {
+      let total = 0;
+      forEachCode(bytes, code => { total += widthOf(code); });
+      return total;
+    }
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * PDF Text Extraction
+ *
+ * Dependency-free extractor for the 'pdf' input source. Handles
+ * compressed (FlateDecode) content and object streams, font encodings
+ * and ToUnicode maps, and keeps page order and paragraph breaks.
+ */
+
+import { loadPdfDocument } from './document';
+import { FontDecoder } from './fonts';
+import { PdfDict } from './lexer';
+import { extractPageText } from './textExtractor';
+
+export interface PdfExtractionResult {
+  // Full text, paragraphs separated by blank lines
+  text: string;
+  // Text of each page, in page order
+  pages: string[];
+  pageCount: number;
+}
+
+/**
+ * Extract readable text from PDF bytes
+ */
+export async function extractPdfText(bytes: Uint8Array): Promise<PdfExtractionResult> {
+  // The header may be preceded by junk bytes, but must appear near the start
+  if (!String.fromCharCode(...bytes.subarray(0, 1024)).includes('%PDF-')) {
+    throw new Error('This file does not look like a PDF.');
+  }
+
+  const doc = await loadPdfDocument(bytes);
+  const fontCache = new Map<PdfDict, FontDecoder>();
+  const pages: string[] = [];
+
+  for (const page of doc.pages) {
+    try {
+      const paragraphs = await extractPageText(doc, page, fontCache);
+      pages.push(paragraphs.join('\n\n'));
+    } catch (error) {
+      // One broken page should not lose the rest of the document
+      console.warn('Failed to extract PDF page text:', error);
+      pages.push('');
+    }
+  }
+
+  return {
+    text: pages.filter(page => page.trim()).join('\n\n'),
+    pages,
+    pageCount: doc.pages.length
+  };
+}
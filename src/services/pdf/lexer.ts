@@ -0,0 +1,376 @@
+/**
+ * PDF Lexer & Object Parser
+ *
+ * Tokenizes raw PDF bytes and parses PDF objects (numbers, names,
+ * strings, arrays, dictionaries, references). Used both for the file
+ * body and for page content streams.
+ */
+
+export interface PdfName {
+  type: 'name';
+  value: string;
+}
+
+export interface PdfRef {
+  type: 'ref';
+  num: number;
+  gen: number;
+}
+
+export interface PdfString {
+  type: 'string';
+  bytes: Uint8Array;
+}
+
+export interface PdfDict {
+  type: 'dict';
+  entries: Record<string, PdfValue>;
+}
+
+export interface PdfStream {
+  type: 'stream';
+  dict: PdfDict;
+  data: Uint8Array;
+}
+
+export interface PdfOperator {
+  type: 'op';
+  value: string;
+}
+
+export type PdfValue =
+  | number
+  | boolean
+  | null
+  | PdfName
+  | PdfRef
+  | PdfString
+  | PdfDict
+  | PdfStream
+  | PdfValue[];
+
+type Token =
+  | PdfName
+  | PdfString
+  | PdfOperator
+  | { type: 'number'; value: number }
+  | { type: 'delim'; value: '[' | ']' | '<<' | '>>' | '{' | '}' };
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set([0x28, 0x29, 0x3c, 0x3e, 0x5b, 0x5d, 0x7b, 0x7d, 0x2f, 0x25]);
+
+const isWhitespace = (byte: number) => WHITESPACE.has(byte);
+const isRegular = (byte: number) => !WHITESPACE.has(byte) && !DELIMITERS.has(byte);
+
+/**
+ * Sequential reader over PDF bytes
+ */
+export class PdfLexer {
+  pos: number;
+  private peeked: Token[] = [];
+
+  constructor(readonly bytes: Uint8Array, start: number = 0) {
+    this.pos = start;
+  }
+
+  /**
+   * Skip whitespace and comments, returning the new position
+   */
+  skipWhitespace(): number {
+    const { bytes } = this;
+    while (this.pos < bytes.length) {
+      const byte = bytes[this.pos];
+      if (isWhitespace(byte)) {
+        this.pos++;
+      } else if (byte === 0x25) {
+        // % comment runs to end of line
+        while (this.pos < bytes.length && bytes[this.pos] !== 0x0a && bytes[this.pos] !== 0x0d) {
+          this.pos++;
+        }
+      } else {
+        break;
+      }
+    }
+    return this.pos;
+  }
+
+  peekToken(offset: number = 0): Token | null {
+    while (this.peeked.length <= offset) {
+      const token = this.readRawToken();
+      if (!token) return null;
+      this.peeked.push(token);
+    }
+    return this.peeked[offset];
+  }
+
+  nextToken(): Token | null {
+    if (this.peeked.length > 0) return this.peeked.shift()!;
+    return this.readRawToken();
+  }
+
+  /**
+   * If the next keyword is `stream`, consume it and return the offset
+   * where the stream data begins (after the end-of-line marker)
+   */
+  readStreamStart(): number | null {
+    const next = this.peekToken();
+    if (next?.type !== 'op' || next.value !== 'stream' || this.peeked.length !== 1) {
+      return null;
+    }
+    this.peeked = [];
+
+    if (this.bytes[this.pos] === 0x0d) this.pos++;
+    if (this.bytes[this.pos] === 0x0a) this.pos++;
+    return this.pos;
+  }
+
+  /**
+   * Skip an inline image body (`ID ... EI`) in a content stream
+   */
+  skipInlineImage(): void {
+    const { bytes } = this;
+    this.peeked = [];
+    this.pos++; // single whitespace after ID
+    while (this.pos < bytes.length - 1) {
+      if (
+        bytes[this.pos] === 0x45 && bytes[this.pos + 1] === 0x49 &&
+        isWhitespace(bytes[this.pos - 1]) &&
+        (this.pos + 2 >= bytes.length || !isRegular(bytes[this.pos + 2]))
+      ) {
+        this.pos += 2;
+        return;
+      }
+      this.pos++;
+    }
+    this.pos = bytes.length;
+  }
+
+  private readRawToken(): Token | null {
+    const { bytes } = this;
+    this.skipWhitespace();
+    if (this.pos >= bytes.length) return null;
+
+    const byte = bytes[this.pos];
+
+    switch (byte) {
+      case 0x2f: // /Name
+        return this.readName();
+      case 0x28: // (literal string)
+        return this.readLiteralString();
+      case 0x3c: // < hex string or <<
+        if (bytes[this.pos + 1] === 0x3c) {
+          this.pos += 2;
+          return { type: 'delim', value: '<<' };
+        }
+        return this.readHexString();
+      case 0x3e: // >>
+        this.pos += bytes[this.pos + 1] === 0x3e ? 2 : 1;
+        return { type: 'delim', value: '>>' };
+      case 0x5b:
+      case 0x5d:
+      case 0x7b:
+      case 0x7d:
+        this.pos++;
+        return { type: 'delim', value: String.fromCharCode(byte) as '[' | ']' | '{' | '}' };
+      case 0x29: // Stray ) - skip it
+        this.pos++;
+        return this.readRawToken();
+    }
+
+    const start = this.pos;
+    while (this.pos < bytes.length && isRegular(bytes[this.pos])) this.pos++;
+    const word = latin1(bytes.subarray(start, this.pos));
+
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+      return { type: 'number', value: parseFloat(word) };
+    }
+
+    return { type: 'op', value: word };
+  }
+
+  private readName(): PdfName {
+    const { bytes } = this;
+    this.pos++; // skip /
+    const start = this.pos;
+    while (this.pos < bytes.length && isRegular(bytes[this.pos])) this.pos++;
+    const raw = latin1(bytes.subarray(start, this.pos));
+    // #xx escapes
+    const value = raw.replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+    return { type: 'name', value };
+  }
+
+  private readLiteralString(): PdfString {
+    const { bytes } = this;
+    this.pos++; // skip (
+    const out: number[] = [];
+    let depth = 1;
+
+    while (this.pos < bytes.length) {
+      const byte = bytes[this.pos++];
+
+      if (byte === 0x5c) {
+        // Backslash escape
+        const next = bytes[this.pos++];
+        switch (next) {
+          case 0x6e: out.push(0x0a); break; // \n
+          case 0x72: out.push(0x0d); break; // \r
+          case 0x74: out.push(0x09); break; // \t
+          case 0x62: out.push(0x08); break; // \b
+          case 0x66: out.push(0x0c); break; // \f
+          case 0x0d: // Line continuation
+            if (bytes[this.pos] === 0x0a) this.pos++;
+            break;
+          case 0x0a:
+            break;
+          default:
+            if (next >= 0x30 && next <= 0x37) {
+              // Up to 3 octal digits
+              let code = next - 0x30;
+              for (let i = 0; i < 2; i++) {
+                const digit = bytes[this.pos];
+                if (digit < 0x30 || digit > 0x37) break;
+                code = code * 8 + (digit - 0x30);
+                this.pos++;
+              }
+              out.push(code & 0xff);
+            } else if (next !== undefined) {
+              out.push(next);
+            }
+        }
+      } else if (byte === 0x28) {
+        depth++;
+        out.push(byte);
+      } else if (byte === 0x29) {
+        depth--;
+        if (depth === 0) break;
+        out.push(byte);
+      } else {
+        out.push(byte);
+      }
+    }
+
+    return { type: 'string', bytes: Uint8Array.from(out) };
+  }
+
+  private readHexString(): PdfString {
+    const { bytes } = this;
+    this.pos++; // skip <
+    let hex = '';
+    while (this.pos < bytes.length && bytes[this.pos] !== 0x3e) {
+      const ch = String.fromCharCode(bytes[this.pos++]);
+      if (/[0-9a-fA-F]/.test(ch)) hex += ch;
+    }
+    this.pos++; // skip >
+    if (hex.length % 2 === 1) hex += '0';
+
+    const out = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < out.length; i++) {
+      out[i] = parseInt(hex.substr(i * 2, 2), 16);
+    }
+    return { type: 'string', bytes: out };
+  }
+
+  /**
+   * Parse the next PDF object, resolving `num gen R` into references
+   * Returns an operator token when one is found instead of a value
+   */
+  readObject(): PdfValue | PdfOperator | undefined {
+    const token = this.nextToken();
+    if (!token) return undefined;
+
+    switch (token.type) {
+      case 'number': {
+        // Look ahead for an indirect reference
+        const second = this.peekToken(0);
+        if (!Number.isInteger(token.value) || second?.type !== 'number') {
+          return token.value;
+        }
+        const third = this.peekToken(1);
+        if (third?.type === 'op' && third.value === 'R') {
+          this.nextToken();
+          this.nextToken();
+          return { type: 'ref', num: token.value, gen: second.value };
+        }
+        return token.value;
+      }
+      case 'name':
+      case 'string':
+        return token;
+      case 'delim':
+        if (token.value === '[') return this.readArray();
+        if (token.value === '<<') return this.readDict();
+        return this.readObject();
+      case 'op':
+        if (token.value === 'true') return true;
+        if (token.value === 'false') return false;
+        if (token.value === 'null') return null;
+        return token;
+    }
+  }
+
+  private readArray(): PdfValue[] {
+    const items: PdfValue[] = [];
+    for (;;) {
+      const next = this.peekToken();
+      if (!next) break;
+      if (next.type === 'delim' && next.value === ']') {
+        this.nextToken();
+        break;
+      }
+      const value = this.readObject();
+      if (value === undefined) break;
+      if (isOperator(value)) continue;
+      items.push(value);
+    }
+    return items;
+  }
+
+  private readDict(): PdfDict {
+    const entries: Record<string, PdfValue> = {};
+    for (;;) {
+      const key = this.nextToken();
+      if (!key || (key.type === 'delim' && key.value === '>>')) break;
+      if (key.type !== 'name') continue;
+      const value = this.readObject();
+      if (value === undefined) break;
+      if (!isOperator(value)) entries[key.value] = value;
+    }
+    return { type: 'dict', entries };
+  }
+}
+
+export function isOperator(value: unknown): value is PdfOperator {
+  return typeof value === 'object' && value !== null && (value as PdfOperator).type === 'op';
+}
+
+export function isName(value: unknown, name?: string): value is PdfName {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    (value as PdfName).type === 'name' && (name === undefined || (value as PdfName).value === name);
+}
+
+export function isDict(value: unknown): value is PdfDict {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && (value as PdfDict).type === 'dict';
+}
+
+export function isStream(value: unknown): value is PdfStream {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && (value as PdfStream).type === 'stream';
+}
+
+export function isRef(value: unknown): value is PdfRef {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && (value as PdfRef).type === 'ref';
+}
+
+export function isPdfString(value: unknown): value is PdfString {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && (value as PdfString).type === 'string';
+}
+
+/**
+ * Decode bytes one-to-one into a string (PDF syntax is byte oriented)
+ */
+export function latin1(bytes: Uint8Array): string {
+  let out = '';
+  for (let i = 0; i < bytes.length; i += 8192) {
+    out += String.fromCharCode(...bytes.subarray(i, i + 8192));
+  }
+  return out;
+}
@@ -0,0 +1,268 @@
+/**
+ * PDF Content Stream Text Extraction
+ *
+ * Interprets page content streams, following text positioning
+ * (Td/TD/Tm/T*) and text-showing (Tj/TJ/'/") operators to rebuild
+ * lines and paragraphs in reading order.
+ */
+
+import { PdfDocument, PdfPage } from './document';
+import { FontDecoder, createFontDecoder } from './fonts';
+import { PdfDict, PdfLexer, PdfName, PdfValue, isDict, isName, isOperator, isPdfString, isStream } from './lexer';
+
+const MAX_FORM_DEPTH = 5;
+
+// TJ adjustments (thousandths of an em) beyond this count as a word gap
+const TJ_SPACE_THRESHOLD = 250;
+
+interface TextState {
+  font: FontDecoder | null;
+  fontSize: number;
+  leading: number;
+  // Text matrix [a b c d e f] and line matrix
+  tm: number[];
+  tlm: number[];
+}
+
+/**
+ * Collects text runs and turns position changes into line/paragraph breaks
+ */
+class LineBuilder {
+  private lines: { text: string; y: number; size: number }[] = [];
+  private current = '';
+  private lineY: number | null = null;
+  private lineSize = 0;
+  private endX: number | null = null;
+
+  add(text: string, x: number, y: number, size: number, advance: number): void {
+    if (!text) return;
+
+    if (this.lineY === null || Math.abs(y - this.lineY) > size * 0.5) {
+      this.flush();
+      this.lineY = y;
+      this.lineSize = size;
+    } else if (this.endX !== null && x - this.endX > size * 0.2 && !/\s$/.test(this.current) && !/^\s/.test(text)) {
+      // Visible horizontal gap between runs on the same line
+      this.current += ' ';
+    }
+
+    this.current += text;
+    this.endX = x + advance;
+  }
+
+  addSpace(): void {
+    if (this.current && !/\s$/.test(this.current)) this.current += ' ';
+  }
+
+  flush(): void {
+    if (this.current.trim() && this.lineY !== null) {
+      this.lines.push({ text: this.current.replace(/\s+/g, ' ').trim(), y: this.lineY, size: this.lineSize });
+    }
+    this.current = '';
+    this.endX = null;
+  }
+
+  /**
+   * Join lines into paragraphs, splitting on large vertical gaps or
+   * jumps back up the page (new column)
+   */
+  toParagraphs(): string[] {
+    this.flush();
+    const paragraphs: string[] = [];
+    let paragraph = '';
+    let previous: { y: number; size: number } | null = null;
+
+    for (const line of this.lines) {
+      const gap = previous ? previous.y - line.y : 0;
+      const isBreak = previous !== null && (gap > Math.max(previous.size, line.size) * 1.8 || gap < -line.size);
+
+      if (isBreak && paragraph) {
+        paragraphs.push(paragraph);
+        paragraph = '';
+      }
+
+      if (!paragraph) {
+        paragraph = line.text;
+      } else if (/[A-Za-z]-$/.test(paragraph) && /^[a-z]/.test(line.text)) {
+        // Re-join words hyphenated across lines
+        paragraph = paragraph.slice(0, -1) + line.text;
+      } else {
+        paragraph += ' ' + line.text;
+      }
+      previous = line;
+    }
+
+    if (paragraph) paragraphs.push(paragraph);
+    return paragraphs;
+  }
+}
+
+function multiply(m1: number[], m2: number[]): number[] {
+  return [
+    m1[0] * m2[0] + m1[1] * m2[2],
+    m1[0] * m2[1] + m1[1] * m2[3],
+    m1[2] * m2[0] + m1[3] * m2[2],
+    m1[2] * m2[1] + m1[3] * m2[3],
+    m1[4] * m2[0] + m1[5] * m2[2] + m2[4],
+    m1[4] * m2[1] + m1[5] * m2[3] + m2[5]
+  ];
+}
+
+/**
+ * Extract the text of one page as paragraphs
+ * The font cache is shared across pages since most pages reuse fonts
+ */
+export async function extractPageText(
+  doc: PdfDocument,
+  page: PdfPage,
+  fontCache: Map<PdfDict, FontDecoder>
+): Promise<string[]> {
+  const builder = new LineBuilder();
+
+  const getFont = async (resources: PdfDict | undefined, name: string): Promise<FontDecoder | null> => {
+    const fonts = doc.get(resources, 'Font');
+    const font = isDict(fonts) ? doc.get(fonts, name) : undefined;
+    if (!isDict(font)) return null;
+
+    if (!fontCache.has(font)) {
+      fontCache.set(font, await createFontDecoder(doc, font));
+    }
+    return fontCache.get(font)!;
+  };
+
+  const contents = doc.get(page.dict, 'Contents');
+  const streams = (Array.isArray(contents) ? contents : [contents])
+    .map(item => doc.resolve(item))
+    .filter(isStream);
+
+  // Page content may be split across streams at arbitrary token boundaries
+  const parts = await Promise.all(streams.map(stream => doc.decodeStream(stream)));
+  const data = new Uint8Array(parts.reduce((sum, part) => sum + part.length + 1, 0));
+  let offset = 0;
+  for (const part of parts) {
+    data.set(part, offset);
+    data[offset + part.length] = 0x0a;
+    offset += part.length + 1;
+  }
+
+  await interpret(data, page.resources, 0);
+  return builder.toParagraphs();
+
+  async function interpret(content: Uint8Array, resources: PdfDict | undefined, depth: number): Promise<void> {
+    const lexer = new PdfLexer(content);
+    const state: TextState = {
+      font: null,
+      fontSize: 12,
+      leading: 0,
+      tm: [1, 0, 0, 1, 0, 0],
+      tlm: [1, 0, 0, 1, 0, 0]
+    };
+    let operands: PdfValue[] = [];
+
+    const moveLine = (tx: number, ty: number) => {
+      state.tlm = multiply([1, 0, 0, 1, tx, ty], state.tlm);
+      state.tm = state.tlm.slice();
+    };
+
+    const show = (bytes: Uint8Array) => {
+      if (!state.font) return;
+      const text = state.font.decode(bytes);
+      const scale = Math.hypot(state.tm[2], state.tm[3]) || 1;
+      const size = Math.abs(state.fontSize * scale) || 1;
+      const advance = state.font.measure(bytes) * state.fontSize;
+      const [x, y] = [state.tm[4], state.tm[5]];
+
+      builder.add(text, x, y, size, advance * scale);
+      // Advance the text matrix so following runs on the line stay in order
+      state.tm = multiply([1, 0, 0, 1, advance, 0], state.tm);
+    };
+
+    for (;;) {
+      const value = lexer.readObject();
+      if (value === undefined) break;
+
+      if (!isOperator(value)) {
+        operands.push(value);
+        continue;
+      }
+
+      const nums = operands.filter((o): o is number => typeof o === 'number');
+
+      switch (value.value) {
+        case 'BT':
+          state.tm = [1, 0, 0, 1, 0, 0];
+          state.tlm = [1, 0, 0, 1, 0, 0];
+          break;
+        case 'Tf': {
+          const name = operands.find((o): o is PdfName => isName(o));
+          if (name) state.font = await getFont(resources, name.value);
+          if (nums.length > 0) state.fontSize = nums[nums.length - 1];
+          break;
+        }
+        case 'TL':
+          if (nums.length > 0) state.leading = nums[0];
+          break;
+        case 'Td':
+          if (nums.length >= 2) moveLine(nums[0], nums[1]);
+          break;
+        case 'TD':
+          if (nums.length >= 2) {
+            state.leading = -nums[1];
+            moveLine(nums[0], nums[1]);
+          }
+          break;
+        case 'Tm':
+          if (nums.length >= 6) {
+            state.tlm = nums.slice(0, 6);
+            state.tm = state.tlm.slice();
+          }
+          break;
+        case 'T*':
+          moveLine(0, -state.leading);
+          break;
+        case 'Tj':
+          operands.filter(isPdfString).forEach(s => show(s.bytes));
+          break;
+        case "'":
+        case '"':
+          moveLine(0, -state.leading);
+          operands.filter(isPdfString).forEach(s => show(s.bytes));
+          break;
+        case 'TJ': {
+          const items = operands.find(Array.isArray) as PdfValue[] | undefined;
+          for (const item of items || []) {
+            if (isPdfString(item)) {
+              show(item.bytes);
+            } else if (typeof item === 'number') {
+              if (-item > TJ_SPACE_THRESHOLD) builder.addSpace();
+              state.tm = multiply([1, 0, 0, 1, (-item / 1000) * state.fontSize, 0], state.tm);
+            }
+          }
+          break;
+        }
+        case 'ET':
+          break;
+        case 'ID':
+          lexer.skipInlineImage();
+          break;
+        case 'Do': {
+          const name = operands.find((o): o is PdfName => isName(o));
+          const xobjects = doc.get(resources, 'XObject');
+          const xobject = name && isDict(xobjects) ? doc.get(xobjects, name.value) : undefined;
+
+          if (isStream(xobject) && isName(doc.get(xobject.dict, 'Subtype'), 'Form') && depth < MAX_FORM_DEPTH) {
+            const formResources = doc.get(xobject.dict, 'Resources');
+            await interpret(
+              await doc.decodeStream(xobject),
+              isDict(formResources) ? formResources : resources,
+              depth + 1
+            );
+          }
+          break;
+        }
+      }
+
+      operands = [];
+    }
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * Platform Registry
+ *
+ * One data-driven entry per social platform: prompt guidelines,
+ * character limit, ideal length, hashtag policy, link handling and icon. Prompt
+ * building, the platform picker and copy/insert formatting all read
+ * from here.
+ */
+
+import { CaptionResult, Platform, PlatformSpec } from '../types';
+
+export const PLATFORM_REGISTRY: Record<Platform, PlatformSpec> = {
+  instagram: {
+    id: 'instagram',
+    label: 'Instagram',
+    icon: '📸',
+    charLimit: 2200,
+    idealLength: { min: 900, max: 1300 },
+    guidelines: `
+    - Keep captions engaging and visually descriptive
+    - Use emojis strategically (2-4 per caption)
+    - Include a clear call-to-action
+    - Optimal length: 150-200 words
+    - Break text into short paragraphs for readability
+    - Start with a strong hook to stop the scroll`,
+    hashtags: { min: 8, max: 10, placement: 'end', show: true },
+    links: 'bio',
+    firstComment: true
+  },
+
+  youtube: {
+    id: 'youtube',
+    label: 'YouTube',
+    icon: '▶️',
+    charLimit: 5000,
+    idealLength: { min: 600, max: 1000 },
+    guidelines: `
+    - Focus on video content description
+    - Include keywords for SEO
+    - Add timestamps hints if relevant
+    - Optimal length: 100-150 words for description start
+    - Include a subscribe CTA
+    - Mention what viewers will learn/gain`,
+    hashtags: { min: 0, max: 0, placement: 'end', show: false },
+    links: 'inline',
+    firstComment: false
+  },
+
+  linkedin: {
+    id: 'linkedin',
+    label: 'LinkedIn',
+    icon: '💼',
+    charLimit: 3000,
+    idealLength: { min: 900, max: 1900 },
+    guidelines: `
+    - Maintain professional tone even when casual
+    - Focus on value, insights, and thought leadership
+    - Use line breaks for readability
+    - Optimal length: 150-300 words
+    - Include industry-relevant insights
+    - End with a question to encourage engagement`,
+    hashtags: { min: 0, max: 3, placement: 'end', show: true },
+    links: 'inline',
+    firstComment: true
+  },
+
+  x: {
+    id: 'x',
+    label: 'X',
+    icon: '𝕏',
+    charLimit: 280,
+    idealLength: { min: 120, max: 230 },
+    guidelines: `
+    - One punchy idea per post
+    - Lead with the most surprising or useful point
+    - Conversational, direct, no filler words
+    - Optimal length: 150-250 characters
+    - Emojis sparingly (0-1)`,
+    hashtags: { min: 1, max: 2, placement: 'inline', show: true },
+    links: 'inline',
+    firstComment: false
+  },
+
+  tiktok: {
+    id: 'tiktok',
+    label: 'TikTok',
+    icon: '🎵',
+    charLimit: 2200,
+    idealLength: { min: 50, max: 300 },
+    guidelines: `
+    - Write for the video: tease what happens, don't summarize it all
+    - Very short, casual and energetic
+    - Optimal length: 1-3 short sentences
+    - Use emojis freely (2-5)
+    - Invite comments or duets`,
+    hashtags: { min: 3, max: 5, placement: 'end', show: true },
+    links: 'bio',
+    firstComment: false
+  },
+
+  facebook: {
+    id: 'facebook',
+    label: 'Facebook',
+    icon: '👍',
+    charLimit: 63206,
+    idealLength: { min: 250, max: 650 },
+    guidelines: `
+    - Friendly, community-oriented storytelling
+    - Put the key message in the first 2 lines (before "See more")
+    - Optimal length: 40-100 words
+    - Ask a question or invite sharing
+    - Emojis in moderation (1-3)`,
+    hashtags: { min: 0, max: 3, placement: 'end', show: true },
+    links: 'inline',
+    firstComment: true
+  },
+
+  threads: {
+    id: 'threads',
+    label: 'Threads',
+    icon: '🧵',
+    charLimit: 500,
+    idealLength: { min: 100, max: 450 },
+    guidelines: `
+    - Casual, conversational and opinionated
+    - Start a conversation rather than broadcast
+    - Optimal length: 1-3 short paragraphs
+    - Emojis sparingly (0-2)`,
+    hashtags: { min: 0, max: 1, placement: 'end', show: true },
+    links: 'inline',
+    firstComment: false
+  },
+
+  pinterest: {
+    id: 'pinterest',
+    label: 'Pinterest',
+    icon: '📌',
+    charLimit: 500,
+    idealLength: { min: 100, max: 400 },
+    guidelines: `
+    - Describe what the pin shows and why it's useful
+    - Use natural, searchable keywords (Pinterest is a search engine)
+    - Inspirational, helpful tone
+    - Optimal length: 2-3 sentences
+    - Emojis rarely`,
+    hashtags: { min: 2, max: 5, placement: 'end', show: true },
+    links: 'destination',
+    firstComment: false
+  }
+};
+
+export const PLATFORM_IDS = Object.keys(PLATFORM_REGISTRY) as Platform[];
+
+export function getPlatform(platform: Platform): PlatformSpec {
+  return PLATFORM_REGISTRY[platform];
+}
+
+const LINK_INSTRUCTIONS: Record<PlatformSpec['links'], string> = {
+  inline: 'Links are clickable in the text; include one only if the content provides it.',
+  bio: 'Links are NOT clickable in captions - point to "link in bio" instead of writing a URL.',
+  destination: 'Do NOT put URLs in the text - the link is set as the pin destination.'
+};
+
+/**
+ * Build the platform section of the caption prompt from the registry
+ */
+export function buildPlatformPrompt(platform: Platform): string {
+  const spec = getPlatform(platform);
+  const { min, max, placement } = spec.hashtags;
+
+  const hashtagRule = max === 0
+    ? '- NO hashtags (leave the hashtags array empty)'
+    : `- ${min === 0 ? `Up to ${max}` : `${min}-${max}`} relevant hashtags${placement === 'inline' ? ', woven naturally into the text' : ' (mix of popular and niche)'}, in CamelCase (#SocialMedia)`;
+
+  return `PLATFORM: ${spec.label.toUpperCase()}
+${spec.guidelines}
+    ${hashtagRule}
+    - ${LINK_INSTRUCTIONS[spec.links]}
+    - HARD LIMIT: ${spec.charLimit} characters including hashtags`;
+}
+
+/**
+ * Hashtags to append when posting: the caption's tags the model did not
+ * already write into the text, or none if the platform hides hashtags
+ */
+export function getAppendedHashtags(caption: CaptionResult, platform: Platform): string[] {
+  if (!getPlatform(platform).hashtags.show) return [];
+
+  const inText = new Set(
+    (caption.caption.match(/#[\p{L}\p{M}\p{N}_]+/gu) || []).map(tag => tag.toLowerCase())
+  );
+  return caption.hashtags
+    .map(tag => `#${tag}`)
+    .filter(tag => !inText.has(tag.toLowerCase()));
+}
+
+/**
+ * Caption text ready to post: hashtags appended per the platform's
+ * policy, skipping any the model already wrote into the text
+ */
+export function formatCaptionText(caption: CaptionResult, platform: Platform): string {
+  const missing = getAppendedHashtags(caption, platform);
+  if (missing.length === 0) return caption.caption;
+
+  const separator = getPlatform(platform).hashtags.placement === 'inline' ? ' ' : '\n\n';
+  return `${caption.caption}${separator}${missing.join(' ')}`;
+}
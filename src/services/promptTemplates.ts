@@ -0,0 +1,206 @@
+/**
+ * Prompt Templates
+ *
+ * The caption and summarization prompts as templates with {variable}
+ * placeholders, so they can be changed without a rebuild. Built-in
+ * templates carry a version id (bump it when editing them here); user
+ * edits from the advanced settings are stored in client storage with
+ * their own version, and every caption records the version that wrote it.
+ */
+
+import {
+  KeyValueStorage,
+  PromptTemplate,
+  PromptTemplateId,
+  PromptTemplateOverrides,
+  PromptTemplateSpec
+} from '../types';
+
+export const PROMPT_TEMPLATES_STORAGE_KEY = 'promptTemplates';
+
+const VARIABLE_PATTERN = /\{([a-zA-Z][a-zA-Z0-9]*)\}/g;
+
+const CAPTION_TEMPLATE = `You are a world-class social media copywriter who creates viral, engaging content.
+
+{summary}
+
+{platformGuidelines}
+
+{toneStyle}
+{brandKit}
+{language}
+
+YOUR TASK:
+Create 3 unique caption variations that will maximize engagement for this content.
+
+For each caption, you MUST also provide:
+- 2 powerful hook lines (opening sentences that grab attention)
+- 1 strong call-to-action (CTA)
+- Hashtags as described in the platform rules above
+
+IMPORTANT RULES:
+1. DO NOT be generic - every caption should feel unique and tailored
+2. DO NOT start with "Looking for" or "Want to" - be more creative
+3. DO hook the reader in the first line - they should WANT to read more
+4. DO match the tone perfectly - a GenZ caption should FEEL like GenZ
+5. DO optimize for the platform's best practices
+6. DO include a clear value proposition
+7. DO make it shareable and engaging
+
+Respond in this EXACT JSON format:
+{
+  "captions": [
+    {
+      "text": "Full caption text here",
+      "hookLines": ["Hook line 1", "Hook line 2"],
+      "cta": "Call to action text",
+      "hashtags": ["hashtag1", "hashtag2"]
+    },
+    {
+      "text": "Second caption variation",
+      "hookLines": ["Hook line 1", "Hook line 2"],
+      "cta": "Call to action text",
+      "hashtags": ["hashtag1", "hashtag2"]
+    },
+    {
+      "text": "Third caption variation",
+      "hookLines": ["Hook line 1", "Hook line 2"],
+      "cta": "Call to action text",
+      "hashtags": ["hashtag1", "hashtag2"]
+    }
+  ]
+}
+
+Generate captions that would make a social media manager say "This is exactly what I needed!"`;
+
+const SUMMARIZE_TEMPLATE = `You are a content analyst specializing in social media marketing.
+
+Analyze the following {contentType} and provide a structured summary for caption generation.
+
+Your task:
+1. Identify the MAIN IDEA or core message
+2. Extract 3-5 KEY POINTS that support the main idea
+3. Identify relevant KEYWORDS for hashtag generation
+
+{imageInstructions}
+
+Content to analyze:
+{content}
+
+Respond in this EXACT JSON format:
+{
+  "mainIdea": "One sentence capturing the core message",
+  "bulletPoints": [
+    "Key point 1",
+    "Key point 2", 
+    "Key point 3",
+    "Key point 4 (optional)",
+    "Key point 5 (optional)"
+  ],
+  "keywords": ["keyword1", "keyword2", "keyword3", "keyword4", "keyword5"]
+}
+
+Rules:
+- Be concise but insightful
+- Focus on what would resonate with social media audiences
+- Extract emotional hooks if present
+- Identify unique selling points or value propositions
+- Keep bullet points under 15 words each`;
+
+export const PROMPT_TEMPLATE_REGISTRY: Record<PromptTemplateId, PromptTemplateSpec> = {
+  caption: {
+    id: 'caption',
+    label: 'Caption writing',
+    variables: [
+      { name: 'summary', description: 'Content summary (main idea, key points, keywords) or the raw content', required: true },
+      { name: 'platformGuidelines', description: 'Platform rules: guidelines, hashtags, links, character limit', required: true },
+      { name: 'toneStyle', description: 'Tone name and its writing style', required: true },
+      { name: 'language', description: 'Language and script instructions', required: true },
+      { name: 'brandKit', description: 'Brand kit guidelines (empty without a kit)', required: false },
+      { name: 'platform', description: 'Platform name, e.g. Instagram', required: false },
+      { name: 'tone', description: 'Tone name, e.g. professional', required: false }
+    ],
+    builtin: { id: 'caption', version: 'caption-v1', body: CAPTION_TEMPLATE }
+  },
+
+  summarize: {
+    id: 'summarize',
+    label: 'Content analysis',
+    variables: [
+      { name: 'content', description: 'Text to analyze (empty for images)', required: true },
+      { name: 'contentType', description: '"content" or "image"', required: false },
+      { name: 'imageInstructions', description: 'Extra instructions for images (empty for text)', required: false }
+    ],
+    builtin: { id: 'summarize', version: 'summarize-v1', body: SUMMARIZE_TEMPLATE }
+  }
+};
+
+export const PROMPT_TEMPLATE_IDS = Object.keys(PROMPT_TEMPLATE_REGISTRY) as PromptTemplateId[];
+
+/**
+ * The user's edit of a template, or the built-in one
+ */
+export function resolveTemplate(id: PromptTemplateId, overrides: PromptTemplateOverrides): PromptTemplate {
+  return overrides[id] ?? PROMPT_TEMPLATE_REGISTRY[id].builtin;
+}
+
+/**
+ * Fill in a template's variables; unknown {names} are left as written
+ */
+export function renderTemplate(template: PromptTemplate, values: Record<string, string>): string {
+  return template.body.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name] : placeholder
+  );
+}
+
+/**
+ * Problems that would break the prompt: missing required variables and
+ * names that are not variables of this template
+ */
+export function validateTemplate(id: PromptTemplateId, body: string): string[] {
+  const { variables } = PROMPT_TEMPLATE_REGISTRY[id];
+  const used = new Set([...body.matchAll(VARIABLE_PATTERN)].map(match => match[1]));
+  const known = new Set(variables.map(variable => variable.name));
+
+  return [
+    ...variables
+      .filter(variable => variable.required && !used.has(variable.name))
+      .map(variable => `Missing required variable {${variable.name}}`),
+    ...[...used]
+      .filter(name => !known.has(name))
+      .map(name => `Unknown variable {${name}}`)
+  ];
+}
+
+/**
+ * A user edit of a template, with a new version id
+ */
+export function createCustomTemplate(id: PromptTemplateId, body: string): PromptTemplate {
+  return { id, version: `${id}-custom-${Date.now()}`, body };
+}
+
+export async function loadTemplateOverrides(storage: KeyValueStorage): Promise<PromptTemplateOverrides> {
+  try {
+    const saved = await storage.getItem(PROMPT_TEMPLATES_STORAGE_KEY);
+    if (!saved || typeof saved !== 'object') return {};
+
+    // Drop anything malformed rather than send a broken prompt
+    return Object.fromEntries(
+      Object.entries(saved as Record<string, PromptTemplate>).filter(([id, template]) =>
+        PROMPT_TEMPLATE_IDS.includes(id as PromptTemplateId) &&
+        typeof template?.body === 'string' &&
+        typeof template.version === 'string'
+      )
+    );
+  } catch (error) {
+    console.error('Failed to load prompt templates:', error);
+    return {};
+  }
+}
+
+export async function saveTemplateOverrides(
+  storage: KeyValueStorage,
+  overrides: PromptTemplateOverrides
+): Promise<void> {
+  await storage.setItem(PROMPT_TEMPLATES_STORAGE_KEY, overrides);
+}
@@ -0,0 +1,196 @@
+/**
+ * Gemini Provider
+ *
+ * Talks to Google's Gemini generateContent API.
+ * Supports text prompts, inline images (vision), SSE streaming
+ * via streamGenerateContent and JSON output via responseSchema.
+ * Token counts come from `usageMetadata`.
+ */
+
+import {
+  CompletionRequest,
+  CompletionResponse,
+  JsonSchema,
+  LLMProvider,
+  ProviderConnection,
+  ProviderPreset,
+  RequestControl
+} from '../../types';
+import { readServerSentEvents } from './sse';
+import { fetchWithRetry } from '../httpClient';
+
+// Key checks fetch the model's metadata: no tokens used, and a quick answer
+const KEY_CHECK_TIMEOUT_MS = 15_000;
+
+interface GeminiUsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+}
+
+/**
+ * Read the text out of a generateContent response (or stream chunk)
+ */
+function extractText(data: { candidates?: { content?: { parts?: { text?: string }[] } }[] }): string {
+  return (data.candidates?.[0]?.content?.parts || []).map(part => part.text || '').join('');
+}
+
+/**
+ * Convert a schema to Gemini's OpenAPI-style responseSchema
+ * Property order is pinned so streamed JSON arrives in prompt order
+ */
+function toGeminiSchema(schema: JsonSchema): Record<string, unknown> {
+  switch (schema.type) {
+    case 'object':
+      return {
+        type: 'OBJECT',
+        properties: Object.fromEntries(
+          Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+        ),
+        required: schema.required,
+        propertyOrdering: Object.keys(schema.properties)
+      };
+    case 'array':
+      return {
+        type: 'ARRAY',
+        items: toGeminiSchema(schema.items),
+        ...(schema.minItems !== undefined && { minItems: schema.minItems }),
+        ...(schema.maxItems !== undefined && { maxItems: schema.maxItems })
+      };
+    case 'string':
+      return { type: 'STRING' };
+  }
+}
+
+/**
+ * Create a provider for the Gemini generateContent endpoint
+ */
+export function createGeminiProvider(
+  connection: ProviderConnection,
+  preset: ProviderPreset
+): LLMProvider {
+  const { label } = preset;
+  const baseUrl = `${connection.baseUrl.replace(/\/+$/, '')}/models/${connection.model}`;
+
+  const reportUsage = (request: CompletionRequest, usage?: GeminiUsageMetadata) => {
+    if (!usage || !request.onUsage) return;
+    request.onUsage({
+      providerId: connection.providerId,
+      model: connection.model,
+      promptTokens: usage.promptTokenCount ?? 0,
+      completionTokens: usage.candidatesTokenCount ?? 0
+    });
+  };
+
+  const post = async (request: CompletionRequest, url: string): Promise<Response> => {
+    const parts: unknown[] = [{ text: request.prompt }];
+
+    if (request.image) {
+      parts.push({
+        inlineData: {
+          mimeType: request.image.mimeType,
+          data: request.image.data
+        }
+      });
+    }
+
+    const response = await fetchWithRetry(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        ...(request.system && {
+          systemInstruction: { parts: [{ text: request.system }] }
+        }),
+        contents: [{ parts }],
+        generationConfig: {
+          temperature: request.temperature,
+          maxOutputTokens: request.maxTokens,
+          ...(request.responseFormat && preset.structuredOutput !== 'none' && {
+            responseMimeType: 'application/json',
+            responseSchema: toGeminiSchema(request.responseFormat.schema)
+          })
+        }
+      })
+    }, {
+      label,
+      signal: request.signal,
+      onRetry: request.onRetry,
+      timeoutMs: request.timeoutMs
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error?.message || `${label} API error: ${response.status}`);
+    }
+
+    return response;
+  };
+
+  return {
+    id: connection.providerId,
+
+    async complete(request: CompletionRequest): Promise<CompletionResponse> {
+      const response = await post(request, `${baseUrl}:generateContent?key=${connection.apiKey}`);
+      const data = await response.json();
+      reportUsage(request, data.usageMetadata);
+      const text = extractText(data);
+
+      if (!text) {
+        throw new Error(`No response from ${label} API`);
+      }
+
+      return { text };
+    },
+
+    async stream(request: CompletionRequest, onDelta: (delta: string) => void): Promise<CompletionResponse> {
+      const response = await post(
+        request,
+        `${baseUrl}:streamGenerateContent?alt=sse&key=${connection.apiKey}`
+      );
+      let text = '';
+      // Every chunk carries the running totals; the last one is final
+      let usage: GeminiUsageMetadata | undefined;
+
+      await readServerSentEvents(response, data => {
+        const chunk = JSON.parse(data);
+        if (chunk.error) {
+          throw new Error(chunk.error.message || `${label} API error`);
+        }
+        usage = chunk.usageMetadata ?? usage;
+
+        const delta = extractText(chunk);
+        if (delta) {
+          text += delta;
+          onDelta(delta);
+        }
+      });
+      reportUsage(request, usage);
+
+      if (!text) {
+        throw new Error(`No response from ${label} API`);
+      }
+
+      return { text };
+    },
+
+    async checkKey(control: RequestControl = {}): Promise<boolean> {
+      const response = await fetchWithRetry(`${baseUrl}?key=${connection.apiKey}`, {}, {
+        label,
+        signal: control.signal,
+        timeoutMs: KEY_CHECK_TIMEOUT_MS,
+        maxRetries: 0
+      });
+
+      if (response.status === 401 || response.status === 403) return false;
+      if (!response.ok) {
+        // Gemini answers an unknown key with 400 "API key not valid"
+        const errorData = await response.json().catch(() => ({}));
+        const message: string = errorData.error?.message || '';
+        if (response.status === 400 && /api key/i.test(message)) return false;
+        throw new Error(message || `${label} API error: ${response.status}`);
+      }
+      return true;
+    }
+  };
+}
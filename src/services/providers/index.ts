@@ -0,0 +1,146 @@
+/**
+ * LLM Provider Registry
+ *
+ * Maps provider ids to their adapter, default endpoint and model so
+ * each pipeline stage (summarize, caption) can use any provider.
+ */
+
+import {
+  LLMProvider,
+  PipelineStage,
+  ProviderConnection,
+  ProviderId,
+  ProviderPreset,
+  ProviderSettings
+} from '../../types';
+import { createOpenAICompatibleProvider } from './openaiCompatible';
+import { createGeminiProvider } from './gemini';
+
+/**
+ * Known providers with their default endpoints and capabilities
+ */
+export const PROVIDER_PRESETS: Record<ProviderId, ProviderPreset> = {
+  openai: {
+    id: 'openai',
+    label: 'OpenAI',
+    kind: 'openai-compatible',
+    defaultBaseUrl: 'https://api.openai.com/v1',
+    defaultModel: 'gpt-4o-mini', // Cost-effective and fast
+    requiresApiKey: true,
+    supportsImages: true,
+    structuredOutput: 'json_schema'
+  },
+  groq: {
+    id: 'groq',
+    label: 'Groq',
+    kind: 'openai-compatible',
+    defaultBaseUrl: 'https://api.groq.com/openai/v1',
+    defaultModel: 'llama-3.1-8b-instant',
+    requiresApiKey: true,
+    supportsImages: false,
+    structuredOutput: 'json_object'
+  },
+  ollama: {
+    id: 'ollama',
+    label: 'Ollama (local)',
+    kind: 'openai-compatible',
+    defaultBaseUrl: 'http://localhost:11434/v1',
+    defaultModel: 'llama3.1',
+    requiresApiKey: false,
+    supportsImages: false,
+    structuredOutput: 'json_object'
+  },
+  llamacpp: {
+    id: 'llamacpp',
+    label: 'llama.cpp (local)',
+    kind: 'openai-compatible',
+    defaultBaseUrl: 'http://localhost:8080/v1',
+    defaultModel: 'default',
+    requiresApiKey: false,
+    supportsImages: false,
+    structuredOutput: 'json_object'
+  },
+  gemini: {
+    id: 'gemini',
+    label: 'Gemini',
+    kind: 'gemini',
+    defaultBaseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+    defaultModel: 'gemini-1.5-flash',
+    requiresApiKey: true,
+    supportsImages: true,
+    structuredOutput: 'json_schema'
+  }
+};
+
+export const PROVIDER_IDS = Object.keys(PROVIDER_PRESETS) as ProviderId[];
+
+/**
+ * Default pipeline: Gemini summarizes, OpenAI writes captions
+ */
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  summarize: {
+    providerId: 'gemini',
+    baseUrl: PROVIDER_PRESETS.gemini.defaultBaseUrl,
+    model: PROVIDER_PRESETS.gemini.defaultModel
+  },
+  caption: {
+    providerId: 'openai',
+    baseUrl: PROVIDER_PRESETS.openai.defaultBaseUrl,
+    model: PROVIDER_PRESETS.openai.defaultModel
+  },
+  apiKeys: {},
+  proxy: {
+    enabled: false,
+    url: 'http://localhost:8787'
+  }
+};
+
+/**
+ * Resolve the connection (endpoint, model, key) for a pipeline stage
+ */
+export function resolveConnection(
+  settings: ProviderSettings,
+  stage: PipelineStage
+): ProviderConnection {
+  const config = settings[stage];
+  const preset = PROVIDER_PRESETS[config.providerId];
+
+  return {
+    providerId: config.providerId,
+    baseUrl: config.baseUrl || preset.defaultBaseUrl,
+    model: config.model || preset.defaultModel,
+    apiKey: settings.apiKeys[config.providerId] || ''
+  };
+}
+
+/**
+ * List providers used by the pipeline that still need an API key
+ * (none when a proxy holds the keys)
+ */
+export function getMissingApiKeys(settings: ProviderSettings): ProviderPreset[] {
+  if (settings.proxy.enabled) return [];
+
+  const used = new Set<ProviderId>([settings.summarize.providerId, settings.caption.providerId]);
+
+  return [...used]
+    .map(id => PROVIDER_PRESETS[id])
+    .filter(preset => preset.requiresApiKey && !settings.apiKeys[preset.id]);
+}
+
+/**
+ * Create the adapter for a resolved connection
+ */
+export function createProvider(connection: ProviderConnection): LLMProvider {
+  const preset = PROVIDER_PRESETS[connection.providerId];
+
+  if (!preset) {
+    throw new Error(`Unknown provider: ${connection.providerId}`);
+  }
+
+  switch (preset.kind) {
+    case 'gemini':
+      return createGeminiProvider(connection, preset);
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider(connection, preset);
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * OpenAI-compatible Provider
+ *
+ * Talks to any server implementing the OpenAI chat completions API:
+ * - OpenAI
+ * - Groq
+ * - Local servers (Ollama, llama.cpp)
+ *
+ * Streaming uses the `stream: true` SSE mode of the same endpoint.
+ * Structured output uses `response_format` (json_schema or json_object).
+ * Token counts come from `usage` (Groq streams send it as `x_groq.usage`).
+ */
+
+import {
+  CompletionRequest,
+  CompletionResponse,
+  JsonSchema,
+  LLMProvider,
+  ProviderConnection,
+  ProviderPreset,
+  RequestControl
+} from '../../types';
+import { readServerSentEvents } from './sse';
+import { fetchWithRetry } from '../httpClient';
+
+// Key checks list the models: no tokens used, and a quick answer
+const KEY_CHECK_TIMEOUT_MS = 15_000;
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+/**
+ * Build the chat messages for a completion request
+ * Images are sent as data URLs, which vision-capable models accept
+ */
+function buildMessages(request: CompletionRequest): unknown[] {
+  const messages: unknown[] = [];
+
+  if (request.system) {
+    messages.push({ role: 'system', content: request.system });
+  }
+
+  if (request.image) {
+    messages.push({
+      role: 'user',
+      content: [
+        { type: 'text', text: request.prompt },
+        {
+          type: 'image_url',
+          image_url: { url: `data:${request.image.mimeType};base64,${request.image.data}` }
+        }
+      ]
+    });
+  } else {
+    messages.push({ role: 'user', content: request.prompt });
+  }
+
+  return messages;
+}
+
+/**
+ * Convert a schema to OpenAI strict mode: every object closed and
+ * fully required, and no length keywords (strict mode rejects them)
+ */
+function toStrictSchema(schema: JsonSchema): Record<string, unknown> {
+  switch (schema.type) {
+    case 'object':
+      return {
+        type: 'object',
+        properties: Object.fromEntries(
+          Object.entries(schema.properties).map(([key, value]) => [key, toStrictSchema(value)])
+        ),
+        required: Object.keys(schema.properties),
+        additionalProperties: false
+      };
+    case 'array':
+      return { type: 'array', items: toStrictSchema(schema.items) };
+    case 'string':
+      return { type: 'string' };
+  }
+}
+
+/**
+ * Build the `response_format` field for the provider's structured-output mode
+ */
+function buildResponseFormat(request: CompletionRequest, preset: ProviderPreset): unknown {
+  if (!request.responseFormat) return undefined;
+
+  switch (preset.structuredOutput) {
+    case 'json_schema':
+      return {
+        type: 'json_schema',
+        json_schema: {
+          name: request.responseFormat.name,
+          schema: toStrictSchema(request.responseFormat.schema),
+          strict: true
+        }
+      };
+    case 'json_object':
+      return { type: 'json_object' };
+    case 'none':
+      return undefined;
+  }
+}
+
+/**
+ * Create a provider for an OpenAI-compatible chat completions endpoint
+ */
+export function createOpenAICompatibleProvider(
+  connection: ProviderConnection,
+  preset: ProviderPreset
+): LLMProvider {
+  const { label } = preset;
+  const baseUrl = connection.baseUrl.replace(/\/+$/, '');
+  const endpoint = `${baseUrl}/chat/completions`;
+
+  const reportUsage = (request: CompletionRequest, usage?: OpenAIUsage) => {
+    if (!usage || !request.onUsage) return;
+    request.onUsage({
+      providerId: connection.providerId,
+      model: connection.model,
+      promptTokens: usage.prompt_tokens ?? 0,
+      completionTokens: usage.completion_tokens ?? 0
+    });
+  };
+
+  const post = async (request: CompletionRequest, stream: boolean): Promise<Response> => {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json'
+    };
+
+    // Local servers usually run without a key
+    if (connection.apiKey) {
+      headers['Authorization'] = `Bearer ${connection.apiKey}`;
+    }
+
+    const response = await fetchWithRetry(endpoint, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: connection.model,
+        messages: buildMessages(request),
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        response_format: buildResponseFormat(request, preset),
+        stream,
+        // Streams only report usage in a last chunk when asked to
+        ...(stream && { stream_options: { include_usage: true } })
+      })
+    }, {
+      label,
+      signal: request.signal,
+      onRetry: request.onRetry,
+      timeoutMs: request.timeoutMs
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error?.message || `${label} API error: ${response.status}`);
+    }
+
+    return response;
+  };
+
+  return {
+    id: connection.providerId,
+
+    async complete(request: CompletionRequest): Promise<CompletionResponse> {
+      const response = await post(request, false);
+      const data = await response.json();
+      reportUsage(request, data.usage);
+      const text = data.choices?.[0]?.message?.content;
+
+      if (!text) {
+        throw new Error(`No response from ${label} API`);
+      }
+
+      return { text };
+    },
+
+    async stream(request: CompletionRequest, onDelta: (delta: string) => void): Promise<CompletionResponse> {
+      const response = await post(request, true);
+      let text = '';
+      let usage: OpenAIUsage | undefined;
+
+      await readServerSentEvents(response, data => {
+        if (data === '[DONE]') return;
+
+        const chunk = JSON.parse(data);
+        if (chunk.error) {
+          throw new Error(chunk.error.message || `${label} API error`);
+        }
+        usage = chunk.usage ?? chunk.x_groq?.usage ?? usage;
+
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onDelta(delta);
+        }
+      });
+      reportUsage(request, usage);
+
+      if (!text) {
+        throw new Error(`No response from ${label} API`);
+      }
+
+      return { text };
+    },
+
+    async checkKey(control: RequestControl = {}): Promise<boolean> {
+      const response = await fetchWithRetry(`${baseUrl}/models`, {
+        headers: connection.apiKey ? { Authorization: `Bearer ${connection.apiKey}` } : {}
+      }, {
+        label,
+        signal: control.signal,
+        timeoutMs: KEY_CHECK_TIMEOUT_MS,
+        maxRetries: 0
+      });
+
+      if (response.status === 401 || response.status === 403) return false;
+      if (!response.ok) {
+        throw new Error(`${label} API error: ${response.status}`);
+      }
+      return true;
+    }
+  };
+}
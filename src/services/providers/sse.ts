@@ -0,0 +1,79 @@
+/**
+ * Server-Sent Events Reader
+ *
+ * Reads a streaming fetch response and hands each `data:` payload to a
+ * callback. Shared by the streaming provider adapters.
+ */
+
+// A stream that goes quiet for this long is treated as hung
+const STREAM_IDLE_TIMEOUT_MS = 30_000;
+
+/**
+ * Read the next chunk, failing if nothing arrives within the idle timeout
+ */
+async function readWithIdleTimeout(
+  reader: ReadableStreamDefaultReader<Uint8Array>
+): Promise<ReadableStreamReadResult<Uint8Array>> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      reader.cancel().catch(() => undefined);
+      reject(new Error(`The stream stalled - no data for ${STREAM_IDLE_TIMEOUT_MS / 1000}s. Please try again.`));
+    }, STREAM_IDLE_TIMEOUT_MS);
+  });
+
+  try {
+    return await Promise.race([reader.read(), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Consume an SSE response body, calling `onData` for every event payload
+ */
+export async function readServerSentEvents(
+  response: Response,
+  onData: (data: string) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Streaming is not supported by this browser');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let dataLines: string[] = [];
+
+  const dispatch = () => {
+    if (dataLines.length > 0) {
+      onData(dataLines.join('\n'));
+      dataLines = [];
+    }
+  };
+
+  const processLine = (line: string) => {
+    if (line === '') {
+      // Blank line ends an event
+      dispatch();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).replace(/^ /, ''));
+    }
+    // Comments (":") and other fields (event, id, retry) are ignored
+  };
+
+  for (;;) {
+    const { done, value } = await readWithIdleTimeout(reader);
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split(/\r\n|\r|\n/);
+    buffer = lines.pop() || '';
+    lines.forEach(processLine);
+  }
+
+  buffer += decoder.decode();
+  if (buffer) processLine(buffer);
+  dispatch();
+}
@@ -0,0 +1,186 @@
+/**
+ * Proxy Client
+ *
+ * Runs the pipeline through the optional proxy server (server/) instead
+ * of calling providers from the panel, so no API keys are needed here.
+ * The proxy answers with the same ContentSummary and CaptionResult
+ * objects as the direct calls, plus the token usage of its provider calls.
+ * It writes prompts from its own built-in templates, so edited templates
+ * are not sent.
+ */
+
+import {
+  CaptionRequest,
+  CaptionResult,
+  ContentSummary,
+  Platform,
+  PlatformCaptionSet,
+  ProxyCaptionEditRequest,
+  ProxyCaptionsRequest,
+  ProxySettings,
+  ProxySummarizeRequest,
+  RequestControl,
+  TokenUsage
+} from '../types';
+import { fetchWithRetry } from './httpClient';
+import { fileToBase64 } from './geminiService';
+import { BatchCaptionOptions } from './gptService';
+
+const PROXY_LABEL = 'Caption proxy';
+
+// The request as the proxy takes it, without a prompt template
+const toProxyRequest = ({ template: _template, ...request }: CaptionRequest): ProxyCaptionsRequest['request'] => request;
+
+/**
+ * POST to the proxy and return its JSON, or throw its { error } message
+ * The usage of the proxy's provider calls is reported through `control`
+ */
+async function postToProxy<T>(
+  settings: ProxySettings,
+  path: string,
+  body: unknown,
+  control: RequestControl
+): Promise<T> {
+  const response = await fetchWithRetry(`${settings.url.trim().replace(/\/+$/, '')}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  }, {
+    label: PROXY_LABEL,
+    signal: control.signal,
+    onRetry: control.onRetry
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `${PROXY_LABEL} error: ${response.status}`);
+  }
+
+  const result = data as T & { usage?: TokenUsage[] };
+  result.usage?.forEach(usage => control.onUsage?.(usage));
+  return result;
+}
+
+/**
+ * Summarize text, a PDF or an image on the proxy
+ */
+export async function analyzeContentViaProxy(
+  settings: ProxySettings,
+  input: string | File,
+  inputType: 'text' | 'pdf' | 'image',
+  control: RequestControl = {}
+): Promise<ContentSummary> {
+  const body: ProxySummarizeRequest = typeof input === 'string'
+    ? { type: inputType, content: input }
+    : { type: inputType, data: await fileToBase64(input), mimeType: input.type, fileName: input.name };
+
+  const { summary } = await postToProxy<{ summary: ContentSummary }>(settings, '/summarize', body, control);
+  return summary;
+}
+
+/**
+ * Caption variants for one platform from the proxy
+ */
+export async function generateCaptionsViaProxy(
+  settings: ProxySettings,
+  request: CaptionRequest,
+  control: RequestControl = {}
+): Promise<CaptionResult[]> {
+  const body: ProxyCaptionsRequest = { request: toProxyRequest(request) };
+  const { captions } = await postToProxy<{ captions: CaptionResult[] }>(settings, '/captions', body, control);
+  return captions;
+}
+
+/**
+ * Captions for several platforms at the same time; a platform that
+ * fails gets an `error` instead of failing the batch
+ */
+export async function generateCaptionsForPlatformsViaProxy(
+  settings: ProxySettings,
+  request: Omit<CaptionRequest, 'platform'>,
+  platforms: Platform[],
+  options: Omit<BatchCaptionOptions, 'onPartial'> = {}
+): Promise<PlatformCaptionSet[]> {
+  const { onUsage, ...control } = options;
+
+  return Promise.all(platforms.map(async (platform): Promise<PlatformCaptionSet> => {
+    try {
+      const captions = await generateCaptionsViaProxy(settings, { ...request, platform }, {
+        ...control,
+        onUsage: onUsage && (usage => onUsage(platform, usage))
+      });
+      return { platform, captions };
+    } catch (error) {
+      return {
+        platform,
+        captions: [],
+        error: error instanceof Error ? error.message : 'Failed to generate captions'
+      };
+    }
+  }));
+}
+
+/**
+ * One new caption: the first of a fresh set that isn't already shown
+ */
+export async function regenerateCaptionViaProxy(
+  settings: ProxySettings,
+  request: CaptionRequest,
+  existingCaptions: string[],
+  control: RequestControl = {}
+): Promise<CaptionResult> {
+  const captions = await generateCaptionsViaProxy(settings, request, control);
+  if (captions.length === 0) {
+    throw new Error('The proxy returned no captions');
+  }
+
+  const existing = new Set(existingCaptions);
+  const caption = captions.find(candidate => !existing.has(candidate.caption)) ?? captions[0];
+  return { ...caption, id: `caption-${request.platform}-${Date.now()}-regen` };
+}
+
+/**
+ * Have the proxy edit one caption: shorten it to the platform limit
+ * (/shorten), follow an instruction (/refine) or pick new hashtags
+ * (/hashtags). The caption keeps its id.
+ */
+async function editCaptionViaProxy(
+  settings: ProxySettings,
+  path: '/shorten' | '/refine' | '/hashtags',
+  request: CaptionRequest,
+  caption: CaptionResult,
+  control: RequestControl,
+  instruction?: string
+): Promise<CaptionResult> {
+  const body: ProxyCaptionEditRequest = { request: toProxyRequest(request), caption, ...(instruction && { instruction }) };
+  const { caption: edited } = await postToProxy<{ caption: CaptionResult }>(settings, path, body, control);
+  return edited;
+}
+
+export function shortenCaptionViaProxy(
+  settings: ProxySettings,
+  request: CaptionRequest,
+  caption: CaptionResult,
+  control: RequestControl = {}
+): Promise<CaptionResult> {
+  return editCaptionViaProxy(settings, '/shorten', request, caption, control);
+}
+
+export function refineCaptionViaProxy(
+  settings: ProxySettings,
+  request: CaptionRequest,
+  caption: CaptionResult,
+  instruction: string,
+  control: RequestControl = {}
+): Promise<CaptionResult> {
+  return editCaptionViaProxy(settings, '/refine', request, caption, control, instruction);
+}
+
+export function rerollHashtagsViaProxy(
+  settings: ProxySettings,
+  request: CaptionRequest,
+  caption: CaptionResult,
+  control: RequestControl = {}
+): Promise<CaptionResult> {
+  return editCaptionViaProxy(settings, '/hashtags', request, caption, control);
+}
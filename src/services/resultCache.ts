@@ -0,0 +1,190 @@
+/**
+ * Result Cache
+ *
+ * Keeps content summaries, and optionally captions, in client storage
+ * so repeating work costs no provider calls:
+ * - Summaries are keyed by the SHA-256 of the text or file bytes (plus
+ *   the analyzer and prompt version), so changing only the platform,
+ *   tone or language skips content analysis
+ * - Captions are keyed by a hash of the whole request, so only an
+ *   identical request is answered from the cache
+ *
+ * Entries expire after the cache's TTL; past its entry or size limit
+ * the oldest are dropped.
+ */
+
+import {
+  CacheEntry,
+  CacheSettings,
+  CacheSpec,
+  CaptionRequest,
+  CaptionResult,
+  ContentSummary,
+  KeyValueStorage,
+  PipelineStage,
+  ProviderSettings
+} from '../types';
+import { resolveConnection } from './providers';
+
+export const CACHE_SETTINGS_STORAGE_KEY = 'cacheSettings';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const SUMMARY_CACHE: CacheSpec = {
+  storageKey: 'summaryCache',
+  ttlMs: 7 * 24 * HOUR_MS,
+  maxEntries: 100,
+  maxBytes: 256 * 1024
+};
+
+export const CAPTION_CACHE: CacheSpec = {
+  storageKey: 'captionCache',
+  ttlMs: 24 * HOUR_MS,
+  maxEntries: 50,
+  maxBytes: 512 * 1024
+};
+
+export const DEFAULT_CACHE_SETTINGS: CacheSettings = {
+  captions: false
+};
+
+async function sha256Hex(bytes: Uint8Array<ArrayBuffer>): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * SHA-256 of text (as UTF-8) or of a file's bytes
+ */
+export async function hashContent(input: string | File): Promise<string> {
+  const bytes = typeof input === 'string'
+    ? new TextEncoder().encode(input)
+    : new Uint8Array(await input.arrayBuffer());
+  return sha256Hex(bytes);
+}
+
+/**
+ * What answers a pipeline stage: the proxy, or the provider, model and endpoint
+ */
+export function getCacheScope(settings: ProviderSettings, stage: PipelineStage): string {
+  if (settings.proxy.enabled) return `proxy:${settings.proxy.url}`;
+  const { providerId, model, baseUrl } = resolveConnection(settings, stage);
+  return `${providerId}:${model}@${baseUrl}`;
+}
+
+/**
+ * Summary key: the content hash, plus what analyzed it and the
+ * summarize prompt version
+ */
+export async function getSummaryCacheKey(
+  input: string | File,
+  inputType: 'text' | 'pdf' | 'image',
+  scope: string,
+  templateVersion: string
+): Promise<string> {
+  return `${await hashContent(input)}|${inputType}|${scope}|${templateVersion}`;
+}
+
+/**
+ * Caption key: a hash of everything that shapes the captions
+ */
+export async function getCaptionCacheKey(request: CaptionRequest, scope: string): Promise<string> {
+  const { summary, template, ...rest } = request;
+  return hashContent(JSON.stringify({
+    ...rest,
+    summary: summary && toCachedSummary(summary),
+    templateVersion: template?.version,
+    scope
+  }));
+}
+
+async function loadEntries<T>(storage: KeyValueStorage, spec: CacheSpec): Promise<CacheEntry<T>[]> {
+  try {
+    const saved = await storage.getItem(spec.storageKey);
+    return Array.isArray(saved) ? (saved as CacheEntry<T>[]) : [];
+  } catch (error) {
+    console.error(`Failed to load ${spec.storageKey}:`, error);
+    return [];
+  }
+}
+
+/**
+ * A cached value that hasn't expired, or null
+ */
+export async function readCache<T>(storage: KeyValueStorage, spec: CacheSpec, key: string): Promise<T | null> {
+  const entries = await loadEntries<T>(storage, spec);
+  const entry = entries.find(candidate => candidate.key === key);
+  return entry && Date.now() - entry.createdAt < spec.ttlMs ? entry.value : null;
+}
+
+/**
+ * Store values (replacing ones with the same key), dropping expired
+ * entries and then the oldest until the cache is within its limits
+ */
+export async function writeCache<T>(
+  storage: KeyValueStorage,
+  spec: CacheSpec,
+  items: { key: string; value: T }[]
+): Promise<void> {
+  if (items.length === 0) return;
+
+  const now = Date.now();
+  const keys = new Set(items.map(item => item.key));
+  const fresh: CacheEntry<T>[] = items.map(item => ({
+    key: item.key,
+    value: item.value,
+    createdAt: now,
+    size: JSON.stringify(item.value).length
+  }));
+
+  const candidates = [
+    ...fresh,
+    ...(await loadEntries<T>(storage, spec))
+      .filter(entry => !keys.has(entry.key) && now - entry.createdAt < spec.ttlMs)
+      .sort((a, b) => b.createdAt - a.createdAt)
+  ];
+
+  const kept: CacheEntry<T>[] = [];
+  let bytes = 0;
+  for (const entry of candidates) {
+    if (kept.length >= spec.maxEntries || bytes + entry.size > spec.maxBytes) break;
+    kept.push(entry);
+    bytes += entry.size;
+  }
+
+  await storage.setItem(spec.storageKey, kept);
+}
+
+export async function clearCache(storage: KeyValueStorage, spec: CacheSpec): Promise<void> {
+  await storage.setItem(spec.storageKey, []);
+}
+
+/**
+ * Summary as stored: without the cached flag of the run it came from
+ */
+export function toCachedSummary({ isCached, ...summary }: ContentSummary): ContentSummary {
+  return summary;
+}
+
+/**
+ * Captions as stored: finished ones, without per-run flags
+ */
+export function toCachedCaptions(captions: CaptionResult[]): CaptionResult[] {
+  return captions
+    .filter(caption => !caption.isPartial)
+    .map(({ isPartial, isCached, ...caption }) => caption);
+}
+
+export async function loadCacheSettings(storage: KeyValueStorage): Promise<CacheSettings> {
+  try {
+    const saved = await storage.getItem(CACHE_SETTINGS_STORAGE_KEY) as Partial<CacheSettings> | undefined;
+    return { ...DEFAULT_CACHE_SETTINGS, ...saved };
+  } catch (error) {
+    console.error('Failed to load cache settings:', error);
+    return DEFAULT_CACHE_SETTINGS;
+  }
+}
+
+export async function saveCacheSettings(storage: KeyValueStorage, settings: CacheSettings): Promise<void> {
+  await storage.setItem(CACHE_SETTINGS_STORAGE_KEY, settings);
+}
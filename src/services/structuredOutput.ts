@@ -0,0 +1,246 @@
+/**
+ * Structured Output Service
+ *
+ * Shared layer for turning LLM text into validated JSON:
+ * - Extracts JSON from prose and markdown code fences
+ * - Repairs common mistakes (trailing commas, smart quotes, truncation)
+ * - Validates against a JsonSchema with field-level error paths
+ * - On failure, asks the model again with the validation errors
+ */
+
+import { CompletionRequest, JsonSchema, LLMProvider, ResponseFormat } from '../types';
+import { parsePartialJson } from './partialJson';
+
+// Follow-up requests sent when output fails validation
+const DEFAULT_MAX_RETRIES = 1;
+
+// Previous output echoed back in a repair request is capped at this length
+const MAX_ECHOED_RESPONSE = 4000;
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export type StructuredParseResult<T> =
+  | { ok: true; value: T; repairs: string[] }
+  | { ok: false; issues: ValidationIssue[] };
+
+export interface StructuredCompletionOptions {
+  maxRetries?: number;
+  // Already-received response (e.g. from a stream) to validate before calling again
+  firstResponse?: string;
+}
+
+/**
+ * Validate a value against a schema, collecting every problem found
+ */
+export function validateSchema(value: unknown, schema: JsonSchema, path: string = ''): ValidationIssue[] {
+  const at = path || '(root)';
+
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [{ path: at, message: 'expected an object' }];
+      }
+      const record = value as Record<string, unknown>;
+      const issues: ValidationIssue[] = [];
+
+      for (const key of schema.required) {
+        if (record[key] === undefined) {
+          issues.push({ path: path ? `${path}.${key}` : key, message: 'is required' });
+        }
+      }
+      for (const [key, propertySchema] of Object.entries(schema.properties)) {
+        if (record[key] !== undefined) {
+          issues.push(...validateSchema(record[key], propertySchema, path ? `${path}.${key}` : key));
+        }
+      }
+      return issues;
+    }
+
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return [{ path: at, message: 'expected an array' }];
+      }
+      const issues: ValidationIssue[] = [];
+
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        issues.push({ path: at, message: `expected at least ${schema.minItems} items, got ${value.length}` });
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        issues.push({ path: at, message: `expected at most ${schema.maxItems} items, got ${value.length}` });
+      }
+      value.forEach((item, i) => issues.push(...validateSchema(item, schema.items, `${path}[${i}]`)));
+      return issues;
+    }
+
+    case 'string':
+      if (typeof value !== 'string') {
+        return [{ path: at, message: `expected a string, got ${Array.isArray(value) ? 'array' : typeof value}` }];
+      }
+      if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+        return [{ path: at, message: 'must not be empty' }];
+      }
+      return [];
+  }
+}
+
+/**
+ * Cut the JSON document out of a response that may include prose or fences
+ */
+function extractJsonCandidate(text: string): string {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)(?:```|$)/);
+  const body = fenced ? fenced[1] : text;
+
+  const start = body.search(/[{[]/);
+  if (start === -1) return body.trim();
+
+  const end = Math.max(body.lastIndexOf('}'), body.lastIndexOf(']'));
+  return end > start ? body.slice(start, end + 1) : body.slice(start);
+}
+
+function tryParse(text: string): { ok: true; value: unknown } | { ok: false } {
+  try {
+    return { ok: true, value: JSON.parse(text) };
+  } catch {
+    return { ok: false };
+  }
+}
+
+/**
+ * Drop unfinished objects from arrays of a partially parsed document
+ */
+function pruneIncomplete(node: unknown, isComplete: (node: unknown) => boolean): unknown {
+  if (Array.isArray(node)) {
+    return node
+      .filter(item => typeof item !== 'object' || item === null || isComplete(item))
+      .map(item => pruneIncomplete(item, isComplete));
+  }
+  if (typeof node === 'object' && node !== null) {
+    return Object.fromEntries(
+      Object.entries(node).map(([key, value]) => [key, pruneIncomplete(value, isComplete)])
+    );
+  }
+  return node;
+}
+
+/**
+ * Parse JSON from model output, applying repairs until it parses
+ * Returns null when nothing usable can be recovered
+ */
+export function repairJson(text: string): { value: unknown; repairs: string[] } | null {
+  let candidate = extractJsonCandidate(text);
+  const repairs: string[] = [];
+
+  let parsed = tryParse(candidate);
+  if (parsed.ok) return { value: parsed.value, repairs };
+
+  const fixes: [string, (s: string) => string][] = [
+    ['removed trailing commas', s => s.replace(/,(\s*[}\]])/g, '$1')],
+    ['replaced smart quotes', s => s
+      .replace(/([{[,:]\s*)[“”„]/g, '$1"')
+      .replace(/[“”](\s*[:,}\]])/g, '"$1')],
+    ['escaped raw line breaks in strings', s => s.replace(/"(?:[^"\\]|\\.)*"/g, str => str.replace(/\r?\n/g, '\\n'))]
+  ];
+
+  for (const [description, fix] of fixes) {
+    const fixed = fix(candidate);
+    if (fixed === candidate) continue;
+    candidate = fixed;
+    repairs.push(description);
+
+    parsed = tryParse(candidate);
+    if (parsed.ok) return { value: parsed.value, repairs };
+  }
+
+  // Truncated output: close open structures and keep only finished items
+  if (/^[{[]/.test(candidate)) {
+    const { value, isComplete } = parsePartialJson(candidate);
+    if (value !== undefined) {
+      repairs.push('closed truncated JSON');
+      return { value: pruneIncomplete(value, isComplete), repairs };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse and validate model output against a schema
+ */
+export function parseStructured<T>(text: string, schema: JsonSchema): StructuredParseResult<T> {
+  const repaired = repairJson(text);
+  if (!repaired) {
+    return { ok: false, issues: [{ path: '(root)', message: 'response is not valid JSON' }] };
+  }
+
+  const issues = validateSchema(repaired.value, schema);
+  if (issues.length > 0) {
+    return { ok: false, issues };
+  }
+
+  return { ok: true, value: repaired.value as T, repairs: repaired.repairs };
+}
+
+export function formatIssues(issues: ValidationIssue[]): string {
+  return issues.map(issue => `${issue.path} ${issue.message}`).join('; ');
+}
+
+/**
+ * Build the follow-up prompt that shows the model its invalid output
+ */
+function buildRepairPrompt(originalPrompt: string, response: string, issues: ValidationIssue[]): string {
+  const echoed = response.length > MAX_ECHOED_RESPONSE
+    ? `${response.substring(0, MAX_ECHOED_RESPONSE)}...`
+    : response;
+
+  return `${originalPrompt}
+
+YOUR PREVIOUS RESPONSE:
+${echoed}
+
+It was rejected because it failed validation:
+${issues.map(issue => `- ${issue.path}: ${issue.message}`).join('\n')}
+
+Respond again with the complete, corrected JSON only. No explanations or code fences.`;
+}
+
+/**
+ * Request JSON output that matches a schema, retrying with the
+ * validation errors when the model gets it wrong
+ */
+export async function completeStructured<T>(
+  provider: LLMProvider,
+  request: CompletionRequest,
+  format: ResponseFormat,
+  options: StructuredCompletionOptions = {}
+): Promise<T> {
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const structuredRequest = { ...request, responseFormat: format };
+
+  let text = options.firstResponse ?? (await provider.complete(structuredRequest)).text;
+
+  for (let attempt = 0; ; attempt++) {
+    const result = parseStructured<T>(text, format.schema);
+
+    if (result.ok) {
+      if (result.repairs.length > 0) {
+        console.warn(`Repaired ${format.name} output:`, result.repairs.join(', '));
+      }
+      return result.value;
+    }
+
+    console.warn(`Invalid ${format.name} output:`, formatIssues(result.issues));
+
+    if (attempt >= maxRetries) {
+      throw new Error(`The AI returned an invalid response (${formatIssues(result.issues)}). Please try again.`);
+    }
+
+    const retry = await provider.complete({
+      ...structuredRequest,
+      prompt: buildRepairPrompt(request.prompt, text, result.issues)
+    });
+    text = retry.text;
+  }
+}
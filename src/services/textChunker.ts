@@ -0,0 +1,51 @@
+/**
+ * Text Chunker
+ *
+ * Splits long documents into prompt-sized chunks at natural boundaries
+ * (paragraphs, then sentences, then words) so multi-page content can be
+ * summarized piece by piece instead of being cut off.
+ */
+
+import { splitSentences } from './textSegmentation';
+
+/**
+ * Split text into chunks of at most `maxChars` characters
+ */
+export function chunkText(text: string, maxChars: number): string[] {
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .map(p => p.trim())
+    .filter(Boolean);
+
+  const chunks: string[] = [];
+  let current = '';
+
+  const push = (piece: string, separator: string) => {
+    if (current && current.length + separator.length + piece.length > maxChars) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? current + separator + piece : piece;
+  };
+
+  for (const paragraph of paragraphs) {
+    if (paragraph.length <= maxChars) {
+      push(paragraph, '\n\n');
+      continue;
+    }
+
+    // Oversized paragraph: fall back to sentences, then hard word splits
+    for (const sentence of splitSentences(paragraph)) {
+      if (sentence.length <= maxChars) {
+        push(sentence, ' ');
+        continue;
+      }
+      for (const word of sentence.split(/\s+/)) {
+        push(word.slice(0, maxChars), ' ');
+      }
+    }
+  }
+
+  if (current) chunks.push(current);
+  return chunks;
+}
@@ -0,0 +1,35 @@
+/**
+ * Text Segmentation
+ *
+ * Unicode-aware sentence and word splitting for every supported script.
+ * Uses Intl.Segmenter where the runtime has it, with regex fallbacks
+ * that understand Devanagari (।॥), Arabic (؟) and CJK (。！？) terminators.
+ */
+
+const SENTENCE_PATTERN = /[^.!?।॥؟。！？]+[.!?।॥؟。！？]+["'”’)\]]*\s*|[^.!?।॥؟。！？]+$/gu;
+const WORD_PATTERN = /[\p{L}\p{M}\p{N}]+/gu;
+
+const hasSegmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl;
+
+/**
+ * Split text into trimmed, non-empty sentences
+ */
+export function splitSentences(text: string, locale?: string): string[] {
+  const sentences = hasSegmenter
+    ? [...new Intl.Segmenter(locale, { granularity: 'sentence' }).segment(text)].map(s => s.segment)
+    : text.match(SENTENCE_PATTERN) || [text];
+
+  return sentences.map(s => s.trim()).filter(Boolean);
+}
+
+/**
+ * Split text into words, skipping punctuation, whitespace and emoji
+ */
+export function splitWords(text: string, locale?: string): string[] {
+  if (hasSegmenter) {
+    return [...new Intl.Segmenter(locale, { granularity: 'word' }).segment(text)]
+      .filter(s => s.isWordLike)
+      .map(s => s.segment);
+  }
+  return text.match(WORD_PATTERN) || [];
+}
@@ -0,0 +1,213 @@
+/**
+ * Usage Tracking
+ *
+ * Every provider call reports its prompt and completion tokens; they are
+ * kept in a usage log, priced with a per-model table (USD per million
+ * tokens, editable in the panel) and totalled per day and month.
+ * Optional budgets warn (soft) or block generating (hard) once the
+ * day's or month's estimated spend reaches them.
+ */
+
+import {
+  BudgetCheck,
+  BudgetLimit,
+  KeyValueStorage,
+  PriceTable,
+  TokenUsage,
+  UsagePeriod,
+  UsageRecord,
+  UsageSettings,
+  UsageTotals
+} from '../types';
+import { PROVIDER_PRESETS } from './providers';
+
+export const USAGE_LOG_STORAGE_KEY = 'usageLog';
+export const USAGE_SETTINGS_STORAGE_KEY = 'usageSettings';
+
+// A year of month totals, plus the current month
+const MAX_RECORD_AGE_MS = 400 * 24 * 60 * 60 * 1000;
+
+// Oldest calls are dropped past this, to bound client storage
+const MAX_RECORDS = 5000;
+
+/**
+ * List prices in USD per million tokens (input, output). Local
+ * providers are free and don't need an entry.
+ */
+export const DEFAULT_MODEL_PRICES: PriceTable = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'llama-3.1-8b-instant': { input: 0.05, output: 0.08 },
+  'llama-3.3-70b-versatile': { input: 0.59, output: 0.79 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 }
+};
+
+const NO_LIMIT: BudgetLimit = { soft: null, hard: null };
+
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = {
+  prices: DEFAULT_MODEL_PRICES,
+  budgets: { day: NO_LIMIT, month: NO_LIMIT }
+};
+
+export const EMPTY_USAGE_TOTALS: UsageTotals = {
+  calls: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  cost: 0,
+  unpricedCalls: 0
+};
+
+const PERIOD_LABELS: Record<UsagePeriod, string> = {
+  day: 'Daily',
+  month: 'Monthly'
+};
+
+/**
+ * Estimated cost of one call; unpriced when the model isn't in the table
+ */
+export function priceUsage(usage: TokenUsage, prices: PriceTable): { cost: number; priced: boolean } {
+  if (!PROVIDER_PRESETS[usage.providerId]?.requiresApiKey) {
+    return { cost: 0, priced: true };
+  }
+
+  const price = prices[usage.model];
+  if (!price) return { cost: 0, priced: false };
+
+  return {
+    cost: (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000,
+    priced: true
+  };
+}
+
+export function createUsageRecord(usage: TokenUsage, prices: PriceTable, runId?: string): UsageRecord {
+  return {
+    ...usage,
+    ...priceUsage(usage, prices),
+    timestamp: Date.now(),
+    ...(runId && { runId })
+  };
+}
+
+export function addUsageTotals(totals: UsageTotals, records: UsageRecord[]): UsageTotals {
+  return records.reduce((sum, record) => ({
+    calls: sum.calls + 1,
+    promptTokens: sum.promptTokens + record.promptTokens,
+    completionTokens: sum.completionTokens + record.completionTokens,
+    cost: sum.cost + record.cost,
+    unpricedCalls: sum.unpricedCalls + (record.priced ? 0 : 1)
+  }), totals);
+}
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * The day ("2025-03-07") or month ("2025-03") a call falls in, in local time
+ */
+export function getPeriodKey(timestamp: number, period: UsagePeriod): string {
+  const date = new Date(timestamp);
+  const month = `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+  return period === 'month' ? month : `${month}-${pad(date.getDate())}`;
+}
+
+/**
+ * Totals per day or month, newest first
+ */
+export function groupUsage(records: UsageRecord[], period: UsagePeriod): { key: string; totals: UsageTotals }[] {
+  const groups = new Map<string, UsageRecord[]>();
+  records.forEach(record => {
+    const key = getPeriodKey(record.timestamp, period);
+    groups.set(key, [...(groups.get(key) ?? []), record]);
+  });
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => b.localeCompare(a))
+    .map(([key, group]) => ({ key, totals: addUsageTotals(EMPTY_USAGE_TOTALS, group) }));
+}
+
+export function formatCost(cost: number): string {
+  return cost > 0 && cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+export function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
+
+/**
+ * Whether the spend so far this day and month allows another run:
+ * blocked once a hard limit is reached, a warning past a soft limit
+ */
+export function checkBudget(
+  records: UsageRecord[],
+  budgets: UsageSettings['budgets'],
+  now: number = Date.now()
+): BudgetCheck {
+  const checks = (['day', 'month'] as UsagePeriod[]).map((period): BudgetCheck => {
+    const { soft, hard } = budgets[period];
+    const key = getPeriodKey(now, period);
+    const spent = addUsageTotals(
+      EMPTY_USAGE_TOTALS,
+      records.filter(record => getPeriodKey(record.timestamp, period) === key)
+    ).cost;
+    const label = PERIOD_LABELS[period].toLowerCase();
+
+    if (hard !== null && spent >= hard) {
+      return {
+        status: 'block',
+        message: `${PERIOD_LABELS[period]} budget of ${formatCost(hard)} reached (${formatCost(spent)} spent). Raise or clear the limit under Usage to keep generating.`
+      };
+    }
+    if (soft !== null && spent >= soft) {
+      return {
+        status: 'warn',
+        message: `${formatCost(spent)} spent, past the ${label} soft limit of ${formatCost(soft)}`
+      };
+    }
+    return { status: 'ok', message: '' };
+  });
+
+  return checks.find(check => check.status === 'block')
+    ?? checks.find(check => check.status === 'warn')
+    ?? { status: 'ok', message: '' };
+}
+
+export async function loadUsageLog(storage: KeyValueStorage): Promise<UsageRecord[]> {
+  try {
+    const saved = await storage.getItem(USAGE_LOG_STORAGE_KEY);
+    return Array.isArray(saved) ? (saved as UsageRecord[]) : [];
+  } catch (error) {
+    console.error('Failed to load usage log:', error);
+    return [];
+  }
+}
+
+/**
+ * Store the log without calls past the age and count limits;
+ * returns what was stored
+ */
+export async function saveUsageLog(storage: KeyValueStorage, records: UsageRecord[]): Promise<UsageRecord[]> {
+  const cutoff = Date.now() - MAX_RECORD_AGE_MS;
+  const kept = records.filter(record => record.timestamp >= cutoff).slice(-MAX_RECORDS);
+  await storage.setItem(USAGE_LOG_STORAGE_KEY, kept);
+  return kept;
+}
+
+export async function loadUsageSettings(storage: KeyValueStorage): Promise<UsageSettings> {
+  try {
+    const saved = await storage.getItem(USAGE_SETTINGS_STORAGE_KEY) as Partial<UsageSettings> | undefined;
+    return {
+      prices: saved?.prices ?? DEFAULT_USAGE_SETTINGS.prices,
+      budgets: { ...DEFAULT_USAGE_SETTINGS.budgets, ...saved?.budgets }
+    };
+  } catch (error) {
+    console.error('Failed to load usage settings:', error);
+    return DEFAULT_USAGE_SETTINGS;
+  }
+}
+
+export async function saveUsageSettings(storage: KeyValueStorage, settings: UsageSettings): Promise<void> {
+  await storage.setItem(USAGE_SETTINGS_STORAGE_KEY, settings);
+}
@@ -77,7 +77,33 @@ declare module 'express-document-sdk' {
     y: number;
   }
 
+  interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  }
+
+  interface Color {
+    red: number;
+    green: number;
+    blue: number;
+    alpha: number;
+  }
+
+  interface CharacterStyles {
+    fontSize?: number;
+    color?: Color;
+  }
+
+  interface TextLayoutOptions {
+    type: number; // constants.TextLayout
+    width?: number;
+    height?: number;
+  }
+
   interface ContainerNode {
+    id: string;
     children: {
       append(node: Node): void;
       remove(node: Node): void;
@@ -87,23 +113,94 @@ declare module 'express-document-sdk' {
   }
 
   interface Node {
+    id: string;
+    type: string; // SceneNodeType, e.g. "Text", "Group", "ab:Artboard"
+    parent?: Node;
+    allChildren: Iterable<Node>;
+    boundsInParent: Rect;
+    boundsLocal: Rect;
     setPositionInParent(parentPoint: Point, localPoint: Point): void;
   }
 
   interface TextNode extends Node {
-    // Text node specific properties
+    fullContent: {
+      text: string;
+      applyCharacterStyles(styles: CharacterStyles, range?: { start: number; length: number }): void;
+    };
+    textAlignment: number; // constants.TextAlignment
+    layout: TextLayoutOptions;
+  }
+
+  interface GroupNode extends Node {
+    name?: string;
+    children: {
+      append(...nodes: Node[]): void;
+    };
+  }
+
+  interface ArtboardNode extends Node, ContainerNode {
+    width: number;
+    height: number;
+  }
+
+  interface PageNode extends Node {
+    name?: string;
+    artboards: Iterable<ArtboardNode>;
+  }
+
+  interface ExpressRootNode extends Node {
+    pages: Iterable<PageNode>;
   }
 
   interface Context {
     selection: Node[];
     insertionParent: ContainerNode;
+    currentPage: PageNode;
+    on(eventName: string, callback: () => void): string;
   }
 
   interface Editor {
     createText(text: string): TextNode;
+    createGroup(): GroupNode;
+    queueAsyncEdit(lambda: () => void): Promise<void>;
     context: Context;
+    documentRoot: ExpressRootNode;
+  }
+
+  interface ColorUtils {
+    fromHex(hex: string): Color;
+  }
+
+  interface Constants {
+    TextAlignment: {
+      left: number;
+      right: number;
+      center: number;
+    };
+    TextLayout: {
+      autoHeight: number;
+      autoWidth: number;
+    };
   }
 
   export const editor: Editor;
-  export { Point, ContainerNode, Node, TextNode, Context, Editor };
+  export const EditorEvent: {
+    selectionChange: string;
+  };
+  export const colorUtils: ColorUtils;
+  export const constants: Constants;
+  export {
+    Point,
+    Rect,
+    Color,
+    ContainerNode,
+    Node,
+    TextNode,
+    GroupNode,
+    ArtboardNode,
+    PageNode,
+    ExpressRootNode,
+    Context,
+    Editor
+  };
 }
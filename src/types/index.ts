@@ -1,14 +1,119 @@
 // Platform types for social media captions
-export type Platform = 'instagram' | 'youtube' | 'linkedin';
+export type Platform =
+  | 'instagram'
+  | 'youtube'
+  | 'linkedin'
+  | 'x'
+  | 'tiktok'
+  | 'facebook'
+  | 'threads'
+  | 'pinterest';
+
+// Where hashtags go in a post
+export type HashtagPlacement = 'end' | 'inline';
+
+// How many hashtags a platform wants and whether the UI shows them
+export interface HashtagPolicy {
+  min: number;
+  max: number; // 0 = no hashtags
+  placement: HashtagPlacement;
+  show: boolean;
+}
+
+// How links behave in a post's text
+// inline: clickable in the caption; bio: not clickable, point to the profile link;
+// destination: set as the pin's destination URL, not in the text
+export type LinkHandling = 'inline' | 'bio' | 'destination';
+
+// Registry entry describing one social platform
+export interface PlatformSpec {
+  id: Platform;
+  label: string;
+  icon: string;
+  charLimit: number;
+  idealLength: { min: number; max: number }; // Caption text length (characters) that performs best
+  guidelines: string;
+  hashtags: HashtagPolicy;
+  links: LinkHandling;
+  firstComment: boolean; // Hashtags can be moved to the first comment
+}
+
+// Deterministic fixes for platform-constraint issues
+export type CaptionFix =
+  | 'trim-hashtags'
+  | 'remove-hashtags'
+  | 'move-hashtags-to-comment'
+  | 'shorten'
+  | 'remove-links';
+
+// A platform rule broken by a caption, with the fixes that resolve it
+export interface ConstraintIssue {
+  code: 'too-long' | 'too-many-hashtags' | 'too-few-hashtags' | 'hashtags-not-allowed' | 'link-not-clickable';
+  message: string;
+  fixes: CaptionFix[];
+}
+
+// Parts of a caption's local quality score
+export type ScoreFactorId = 'readability' | 'hook' | 'emoji' | 'cta' | 'keywords' | 'length';
+
+export interface ScoreFactor {
+  id: ScoreFactorId;
+  label: string;
+  score: number;  // 0-100
+  detail: string; // Why, e.g. "3/5 keywords"
+}
+
+// Combined 0-100 score with the factors behind it
+export interface CaptionScore {
+  total: number;
+  factors: ScoreFactor[];
+}
+
+// Quick instructions offered by the refine action on a caption card
+export type RefinePreset =
+  | 'shorter'
+  | 'punchier-hook'
+  | 'more-emojis'
+  | 'fewer-emojis'
+  | 'add-question'
+  | 'more-formal';
+
+// Edits of one caption card, oldest first; index is the version shown
+export interface CaptionVersionStack {
+  versions: CaptionResult[];
+  index: number;
+}
 
 // Tone types for caption generation
 export type Tone = 'professional' | 'fun' | 'genz' | 'motivational';
 
 // Language types
-export type Language = 'english' | 'hinglish';
+export type Language =
+  | 'english'
+  | 'hinglish'
+  | 'hindi'
+  | 'spanish'
+  | 'portuguese'
+  | 'french'
+  | 'arabic'
+  | 'tamil'
+  | 'bengali';
+
+export type TextDirection = 'ltr' | 'rtl';
+
+// Registry entry describing one output language
+export interface LanguageSpec {
+  id: Language;
+  label: string;
+  flag: string;
+  locale: string; // BCP 47 tag for segmentation and the lang attribute
+  direction: TextDirection;
+  instructions: string;
+  hashtagConvention: string;
+}
 
 // Input source types
-export type InputSource = 'text' | 'pdf' | 'image';
+export type InputSource = 'text' | 'pdf' | 'image' | 'canvas';
 
 // Caption generation result from GPT
 export interface CaptionResult {
@@ -17,6 +122,11 @@ export interface CaptionResult {
   hookLines: string[];
   cta: string;
   hashtags: string[];
+  isPartial?: boolean; // Still being streamed from the model
+  firstComment?: string; // Hashtags moved out of the caption, to post as the first comment
+  templateVersion?: string; // Version of the prompt template that wrote it
+  isLocal?: boolean; // Written by the offline template engine, not a model
+  isCached?: boolean; // Reused from the caption cache for an identical request
 }
 
 // Summary result from Gemini
@@ -24,12 +134,191 @@ export interface ContentSummary {
   bulletPoints: string[];
   mainIdea: string;
   keywords: string[];
+  pageCount?: number; // Set for PDF sources
+  isCached?: boolean; // Reused from the summary cache for the same content
+}
+
+// Prompts that can be edited in the advanced settings
+export type PromptTemplateId = 'caption' | 'summarize';
+
+// A prompt with {variable} placeholders
+export interface PromptTemplate {
+  id: PromptTemplateId;
+  version: string; // "caption-v1" for built-ins, "caption-custom-<timestamp>" for user edits
+  body: string;
 }
 
-// API Configuration
-export interface ApiConfig {
-  geminiApiKey: string;
-  openaiApiKey: string;
+// A variable a template can use, filled in when the prompt is built
+export interface PromptVariable {
+  name: string;
+  description: string;
+  required: boolean; // The prompt doesn't work without it
+}
+
+// Registry entry for an editable prompt: its variables and built-in text
+export interface PromptTemplateSpec {
+  id: PromptTemplateId;
+  label: string;
+  variables: PromptVariable[];
+  builtin: PromptTemplate;
+}
+
+// User-edited templates, stored in client storage
+export type PromptTemplateOverrides = Partial<Record<PromptTemplateId, PromptTemplate>>;
+
+// LLM provider identifiers
+export type ProviderId = 'openai' | 'groq' | 'ollama' | 'llamacpp' | 'gemini';
+
+// Wire protocol a provider speaks
+export type ProviderKind = 'openai-compatible' | 'gemini';
+
+// Native structured-output mode a provider supports
+export type StructuredOutputMode = 'json_schema' | 'json_object' | 'none';
+
+// Static description of a known provider
+export interface ProviderPreset {
+  id: ProviderId;
+  label: string;
+  kind: ProviderKind;
+  defaultBaseUrl: string;
+  defaultModel: string;
+  requiresApiKey: boolean;
+  supportsImages: boolean;
+  structuredOutput: StructuredOutputMode;
+}
+
+// Pipeline stages that call an LLM
+export type PipelineStage = 'summarize' | 'caption';
+
+// Provider, endpoint and model used by one pipeline stage
+export interface StageProviderConfig {
+  providerId: ProviderId;
+  baseUrl: string;
+  model: string;
+}
+
+// Optional proxy server (server/) that holds the API keys and runs both stages
+export interface ProxySettings {
+  enabled: boolean;
+  url: string;
+}
+
+// Provider configuration for the whole pipeline
+export interface ProviderSettings {
+  summarize: StageProviderConfig;
+  caption: StageProviderConfig;
+  apiKeys: Partial<Record<ProviderId, string>>;
+  proxy: ProxySettings;
+}
+
+// Result of testing an API key against its provider
+export type ApiKeyStatus = 'valid' | 'invalid' | 'unverified';
+
+export interface ApiKeyCheck {
+  status: ApiKeyStatus;
+  message: string;
+  checkedAt: number;
+}
+
+// Fully resolved connection handed to a provider adapter
+export interface ProviderConnection extends StageProviderConfig {
+  apiKey: string;
+}
+
+// Inline image attached to a completion request
+export interface CompletionImage {
+  mimeType: string;
+  data: string; // base64 without data URL prefix
+}
+
+// Subset of JSON Schema used to describe and validate LLM output
+export type JsonSchema =
+  | {
+      type: 'object';
+      properties: Record<string, JsonSchema>;
+      required: string[];
+      description?: string;
+    }
+  | { type: 'array'; items: JsonSchema; minItems?: number; maxItems?: number; description?: string }
+  | { type: 'string'; minLength?: number; description?: string };
+
+// Named schema the provider should constrain its output to
+export interface ResponseFormat {
+  name: string;
+  schema: JsonSchema;
+}
+
+// Provider-agnostic completion request
+// Retry scheduled by the HTTP client after a 429/5xx or network failure
+export interface RetryNotice {
+  providerLabel: string;
+  attempt: number; // 1-based
+  maxRetries: number;
+  delayMs: number;
+  reason: string;
+}
+
+// Cancellation and progress hooks threaded through every AI call
+// Tokens used by one provider call, as reported by the provider
+export interface TokenUsage {
+  providerId: ProviderId;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface RequestControl {
+  signal?: AbortSignal;
+  onRetry?: (notice: RetryNotice) => void;
+  onUsage?: (usage: TokenUsage) => void; // Called after every provider call that reports usage
+}
+
+export interface CompletionRequest extends RequestControl {
+  system?: string;
+  prompt: string;
+  image?: CompletionImage;
+  responseFormat?: ResponseFormat;
+  temperature?: number;
+  maxTokens?: number;
+  timeoutMs?: number;
+}
+
+// Provider-agnostic completion response
+export interface CompletionResponse {
+  text: string;
+}
+
+// LLM provider adapter
+export interface LLMProvider {
+  id: ProviderId;
+  complete(request: CompletionRequest): Promise<CompletionResponse>;
+  // Streams text deltas as they arrive, resolving with the full text
+  stream(request: CompletionRequest, onDelta: (delta: string) => void): Promise<CompletionResponse>;
+  // Cheap authenticated request: false when the provider rejects the API key,
+  // throws when it can't tell (network or server error)
+  checkKey(control?: RequestControl): Promise<boolean>;
+}
+
+// How freely a brand allows emojis
+export type EmojiPolicy = 'none' | 'minimal' | 'expressive';
+
+// User-defined brand guidelines applied to caption generation
+export interface BrandKit {
+  id: string;
+  name: string;
+  voice: string;
+  doExamples: string[];
+  dontExamples: string[];
+  bannedWords: string[];
+  requiredHashtags: string[]; // Stored without '#'
+  defaultCta: string;
+  emojiPolicy: EmojiPolicy;
+}
+
+// A hard brand rule broken by a generated caption
+export interface BrandViolation {
+  rule: 'banned-word' | 'missing-hashtag';
+  message: string;
 }
 
 // Caption generation request
@@ -39,6 +328,151 @@ export interface CaptionRequest {
   tone: Tone;
   language: Language;
   summary?: ContentSummary;
+  brandKit?: BrandKit;
+  pinnedHashtags?: string[]; // Added to every caption's hashtags
+  template?: PromptTemplate; // Caption prompt to use instead of the built-in one
+}
+
+// Body of the proxy's POST /summarize
+export interface ProxySummarizeRequest {
+  type: 'text' | 'pdf' | 'image';
+  content?: string;  // Text to analyze
+  data?: string;     // PDF or image bytes, base64
+  mimeType?: string;
+  fileName?: string;
+}
+
+// Body of the proxy's POST /captions; the proxy uses its own templates
+export interface ProxyCaptionsRequest {
+  request: Omit<CaptionRequest, 'template'>;
+}
+
+// Body of the proxy's POST /shorten, /refine and /hashtags
+export interface ProxyCaptionEditRequest extends ProxyCaptionsRequest {
+  caption: CaptionResult;
+  instruction?: string; // What to change, for /refine
+}
+
+// Captions generated for one platform in a multi-platform batch
+export interface PlatformCaptionSet {
+  platform: Platform;
+  captions: CaptionResult[];
+  error?: string; // Set when this platform failed; the others still complete
+}
+
+// Captions to export, with the settings they were written for
+// (current results per platform, or stored history runs)
+export interface CaptionExportSource {
+  platform: Platform;
+  tone: Tone;
+  language: Language;
+  captions: CaptionResult[];
+}
+
+// File formats: generic CSV, scheduling-tool CSVs, JSON and Markdown
+export type ExportFormat = 'csv' | 'buffer' | 'hootsuite' | 'later' | 'json' | 'markdown';
+
+// Posting times for exported captions: the first at `start`, then every interval
+export interface ExportSchedule {
+  start: number; // Timestamp (ms)
+  intervalMinutes: number;
+}
+
+export interface ExportOptions {
+  format: ExportFormat;
+  schedule?: ExportSchedule;
+}
+
+// What a generation run was created from
+export interface HistorySource {
+  type: InputSource;
+  text?: string; // Text input (truncated)
+  fileName?: string; // Uploaded PDF or image
+}
+
+// One stored generation run
+export interface HistoryEntry {
+  id: string;
+  createdAt: number;
+  source: HistorySource;
+  summary: ContentSummary;
+  platform: Platform;
+  tone: Tone;
+  language: Language;
+  captions: CaptionResult[];
+  favoriteCaptionIds: string[];
+  usage?: UsageTotals; // Provider calls made for this run, including later edits
+}
+
+// USD per million tokens for one model
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// Prices by model id
+export type PriceTable = Record<string, ModelPrice>;
+
+// One priced provider call in the usage log
+export interface UsageRecord extends TokenUsage {
+  timestamp: number;
+  cost: number;      // Estimated USD
+  priced: boolean;   // False when the model has no price, so `cost` is 0
+  runId?: string;    // History run the call was made for
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  unpricedCalls: number;
+}
+
+export type UsagePeriod = 'day' | 'month';
+
+// Spend limits in USD for one period; null when unset
+export interface BudgetLimit {
+  soft: number | null; // Warn once reached
+  hard: number | null; // Block generating once reached
+}
+
+export interface UsageSettings {
+  prices: PriceTable;
+  budgets: Record<UsagePeriod, BudgetLimit>;
+}
+
+export interface BudgetCheck {
+  status: 'ok' | 'warn' | 'block';
+  message: string;
+}
+
+// A stored result, keyed by a hash of what produced it
+export interface CacheEntry<T> {
+  key: string;
+  value: T;
+  createdAt: number;
+  size: number; // Length of the JSON value, for the cache's size limit
+}
+
+// Where a cache is stored and how long and how much it keeps
+export interface CacheSpec {
+  storageKey: string;
+  ttlMs: number;
+  maxEntries: number;
+  maxBytes: number;
+}
+
+export interface CacheSettings {
+  captions: boolean; // Reuse captions for identical requests
+}
+
+// Filters for the History tab
+export interface HistoryFilter {
+  query: string;
+  platform: Platform | 'all';
+  tone: Tone | 'all';
+  favoritesOnly: boolean;
 }
 
 // App state
@@ -55,7 +489,84 @@ export interface AppState {
   summary: ContentSummary | null;
 }
 
+// Minimal slice of the SDK's ClientStorage used by services
+export interface KeyValueStorage {
+  getItem(key: string): Promise<unknown>;
+  setItem(key: string, value: unknown): Promise<void>;
+}
+
 // Document sandbox API interface
 export interface DocumentSandboxApi {
-  insertTextIntoCanvas(text: string): Promise<void>;
+  insertTextIntoCanvas(text: string, options?: InsertOptions): Promise<boolean>;
+  insertCaption(parts: CaptionParts, options: InsertOptions): Promise<boolean>;
+  readSelectionContent(): Promise<CanvasSelectionContent>;
+  isSingleTextSelected(): Promise<boolean>;
+  replaceSelectedText(parts: CaptionParts): Promise<boolean>;
+  listArtboards(): Promise<ArtboardInfo[]>;
+  insertCaptionsIntoArtboards(items: ArtboardCaption[], options: InsertOptions): Promise<number>;
+}
+
+// A page/artboard captions can be distributed onto
+export interface ArtboardInfo {
+  id: string;
+  label: string; // Page name (and artboard number when a page has several)
+  isCurrent: boolean;
+}
+
+// Caption to insert into a specific artboard
+export interface ArtboardCaption {
+  artboardId: string;
+  parts: CaptionParts;
+}
+
+// Caption the panel has mapped onto an artboard
+export interface ArtboardAssignment {
+  artboardId: string;
+  caption: CaptionResult;
+}
+
+// API the panel exposes to the document sandbox
+export interface PanelApi {
+  onSelectionChange(isSingleTextSelected: boolean): void;
+}
+
+// Where inserted text goes on the current artboard
+export type InsertPlacement =
+  | 'center'
+  | 'below-selection'
+  | 'top-left'
+  | 'top-right'
+  | 'bottom-left'
+  | 'bottom-right';
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+// Caption inserted as one text node, or one styled node per part (grouped)
+export type InsertLayout = 'single' | 'separate';
+
+// How captions are styled and positioned when inserted
+export interface InsertOptions {
+  placement: InsertPlacement;
+  maxWidth: number; // Wrap width in points, 0 = no wrapping
+  fontSize: number;
+  color: string; // Hex, e.g. #1A1A1A
+  align: TextAlign;
+  layout: InsertLayout;
+  includeHook: boolean;
+  includeCta: boolean;
+}
+
+// Caption pieces sent to the document for insertion
+export interface CaptionParts {
+  hook?: string;
+  body: string;
+  cta?: string;
+  hashtags?: string;
+}
+
+// Content read from the current selection in the document
+export interface CanvasSelectionContent {
+  texts: string[]; // Text of selected text nodes, including those inside selected groups
+  groupNames: string[];
+  pageName?: string;
 }
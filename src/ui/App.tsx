@@ -2,24 +2,144 @@
  * CaptionCraft AI - Main Application Component
  * 
  * AI-powered social media caption generator for Adobe Express
- * Uses Gemini for content understanding and GPT for caption generation
+ * Uses a configurable LLM provider for content understanding and
+ * another (or the same) for caption generation
  */
 
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { Theme } from '@swc-react/theme';
 import addOnUISdk from 'https://express.adobe.com/static/add-on-sdk/sdk.js';
 
 import { 
+  ApiKeyCheck,
+  ArtboardAssignment,
+  ArtboardInfo,
+  BrandKit,
+  CacheSettings,
+  CanvasSelectionContent,
+  CaptionFix,
+  CaptionRequest,
+  CaptionVersionStack,
   Platform, 
   Tone, 
   Language, 
   InputSource, 
   CaptionResult, 
+  CaptionScore,
   ContentSummary,
-  DocumentSandboxApi
+  DocumentSandboxApi,
+  HistoryEntry,
+  InsertOptions,
+  PanelApi,
+  PlatformCaptionSet,
+  PromptTemplateId,
+  PromptTemplateOverrides,
+  ProviderId,
+  ProviderSettings,
+  RetryNotice,
+  TokenUsage,
+  UsageRecord,
+  UsageSettings
 } from '../types';
-import { analyzeContent, createFallbackSummary } from '../services/geminiService';
-import { generateCaptions, regenerateSingleCaption } from '../services/gptService';
+import { analyzeContent, createFallbackSummary, createLocalSummary } from '../services/geminiService';
+import {
+  generateCaptionsForPlatforms,
+  refineCaption,
+  regenerateSingleCaption,
+  rerollHashtags,
+  shortenCaption
+} from '../services/gptService';
+import { describeRetry, isAbortError } from '../services/httpClient';
+import {
+  createHistoryEntry,
+  loadHistory,
+  saveHistory,
+  toggleFavorite
+} from '../services/historyService';
+import { checkBrandRules, loadBrandKits, saveBrandKits } from '../services/brandKitService';
+import { formatCaptionText, getPlatform, PLATFORM_IDS } from '../services/platforms';
+import { getLanguage } from '../services/languages';
+import { applyFix, FIX_LABELS, validateCaption } from '../services/captionValidator';
+import { formatCaptionSetText } from '../services/captionExport';
+import { pushVersion, stepVersion } from '../services/captionRefinement';
+import { rankCaptions } from '../services/captionScoring';
+import { generateLocalCaptionsForPlatforms, regenerateLocalCaption } from '../services/localCaptionEngine';
+import {
+  analyzeContentViaProxy,
+  generateCaptionsForPlatformsViaProxy,
+  refineCaptionViaProxy,
+  regenerateCaptionViaProxy,
+  rerollHashtagsViaProxy,
+  shortenCaptionViaProxy
+} from '../services/proxyClient';
+import { loadPinnedHashtags, parseHashtagList, savePinnedHashtags } from '../services/hashtagEngine';
+import {
+  createCustomTemplate,
+  loadTemplateOverrides,
+  resolveTemplate,
+  saveTemplateOverrides
+} from '../services/promptTemplates';
+import { formatCanvasContent, hasCanvasText } from '../services/canvasInput';
+import {
+  buildCaptionParts,
+  DEFAULT_INSERT_OPTIONS,
+  loadInsertOptions,
+  saveInsertOptions
+} from '../services/insertSettings';
+import {
+  DEFAULT_PROVIDER_SETTINGS,
+  getMissingApiKeys,
+  resolveConnection
+} from '../services/providers';
+import {
+  ApiKeySet,
+  ApiKeyVault,
+  checkApiKey,
+  loadApiKeyVault,
+  saveApiKeyVault,
+  unlockApiKeyVault
+} from '../services/apiKeyManager';
+import {
+  addUsageTotals,
+  checkBudget,
+  createUsageRecord,
+  DEFAULT_USAGE_SETTINGS,
+  EMPTY_USAGE_TOTALS,
+  loadUsageLog,
+  loadUsageSettings,
+  saveUsageLog,
+  saveUsageSettings
+} from '../services/usageService';
+import {
+  CAPTION_CACHE,
+  clearCache,
+  DEFAULT_CACHE_SETTINGS,
+  getCacheScope,
+  getCaptionCacheKey,
+  getSummaryCacheKey,
+  loadCacheSettings,
+  readCache,
+  saveCacheSettings,
+  SUMMARY_CACHE,
+  toCachedCaptions,
+  toCachedSummary,
+  writeCache
+} from '../services/resultCache';
+import ProviderSettingsPanel from './components/ProviderSettingsPanel';
+import ApiKeyManagerPanel from './components/ApiKeyManagerPanel';
+import HistoryPanel from './components/HistoryPanel';
+import BrandKitPanel from './components/BrandKitPanel';
+import InsertSettingsPanel from './components/InsertSettingsPanel';
+import DistributePanel from './components/DistributePanel';
+import ExportPanel from './components/ExportPanel';
+import RefinePanel from './components/RefinePanel';
+import ScoreBreakdown from './components/ScoreBreakdown';
+import PromptTemplatesPanel from './components/PromptTemplatesPanel';
+import UsagePanel from './components/UsagePanel';
+import CachePanel from './components/CachePanel';
+import { PLATFORMS, TONES, LANGUAGES } from './options';
+
+const KEYS_LOCKED_MESSAGE = 'Your saved API keys are locked. Enter your passphrase under AI Providers & Keys to generate.';
 
 // Icons as SVG components for clean UI
 const TextIcon = () => (
@@ -44,6 +164,13 @@ const ImageIcon = () => (
   </svg>
 );
 
+const CanvasIcon = () => (
+  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+    <rect x="3" y="3" width="18" height="18" rx="2" ry="2" strokeDasharray="3 3"/>
+    <path d="M8 9h8M8 13h5"/>
+  </svg>
+);
+
 const UploadIcon = () => (
   <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
     <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/>
@@ -78,6 +205,13 @@ const RefreshIcon = () => (
   </svg>
 );
 
+const HistoryIcon = () => (
+  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+    <circle cx="12" cy="12" r="10"/>
+    <polyline points="12,6 12,12 16,14"/>
+  </svg>
+);
+
 const CloseIcon = () => (
   <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
     <line x1="18" y1="6" x2="6" y2="18"/>
@@ -85,53 +219,113 @@ const CloseIcon = () => (
   </svg>
 );
 
-// Platform data
-const PLATFORMS: { value: Platform; label: string; icon: string }[] = [
-  { value: 'instagram', label: 'Instagram', icon: '📸' },
-  { value: 'youtube', label: 'YouTube', icon: '▶️' },
-  { value: 'linkedin', label: 'LinkedIn', icon: '💼' }
-];
-
-// Tone data
-const TONES: { value: Tone; label: string; icon: string }[] = [
-  { value: 'professional', label: 'Professional', icon: '👔' },
-  { value: 'fun', label: 'Fun', icon: '🎉' },
-  { value: 'genz', label: 'GenZ', icon: '🔥' },
-  { value: 'motivational', label: 'Motivational', icon: '💪' }
-];
-
-// Language data
-const LANGUAGES: { value: Language; label: string }[] = [
-  { value: 'english', label: '🇬🇧 English' },
-  { value: 'hinglish', label: '🇮🇳 Hinglish' }
-];
-
 const App: React.FC = () => {
   // State management
   const [inputSource, setInputSource] = useState<InputSource>('text');
   const [textInput, setTextInput] = useState('');
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
+  const [canvasContent, setCanvasContent] = useState<CanvasSelectionContent | null>(null);
   const [platform, setPlatform] = useState<Platform>('instagram');
+  const [batchMode, setBatchMode] = useState(false);
+  const [batchPlatforms, setBatchPlatforms] = useState<Platform[]>(['instagram', 'linkedin', 'youtube']);
   const [tone, setTone] = useState<Tone>('fun');
   const [language, setLanguage] = useState<Language>('english');
   const [isLoading, setIsLoading] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
   const [loadingStep, setLoadingStep] = useState('');
-  const [captions, setCaptions] = useState<CaptionResult[]>([]);
+  // Results per platform; the tab shown is resultPlatform
+  const [captionSets, setCaptionSets] = useState<PlatformCaptionSet[]>([]);
+  const [resultPlatform, setResultPlatform] = useState<Platform>('instagram');
+  // Source and settings the results were written from; the inputs may have changed since
+  const [resultSettings, setResultSettings] = useState<Omit<CaptionRequest, 'platform' | 'summary'>>({ content: '', tone: 'fun', language: 'english' });
   const [error, setError] = useState<string | null>(null);
   const [summary, setSummary] = useState<ContentSummary | null>(null);
   const [toast, setToast] = useState<string | null>(null);
+  const [shorteningIds, setShorteningIds] = useState<Set<string>>(new Set());
+  
+  // Refining single captions: the card with the refine panel open, cards
+  // waiting for the model, and each refined card's versions
+  const [refineOpenId, setRefineOpenId] = useState<string | null>(null);
+  const [refiningIds, setRefiningIds] = useState<Set<string>>(new Set());
+  const [versionStacks, setVersionStacks] = useState<Record<string, CaptionVersionStack>>({});
+  
+  // History state (past runs, newest first)
+  const [view, setView] = useState<'create' | 'history' | 'usage' | 'advanced'>('create');
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const historyRef = useRef<HistoryEntry[]>([]);
+  const runIdsRef = useRef<Partial<Record<Platform, string>>>({});
+  
+  // Priced provider calls, with the price table and budgets
+  const [usageLog, setUsageLog] = useState<UsageRecord[]>([]);
+  const usageLogRef = useRef<UsageRecord[]>([]);
+  const [usageSettings, setUsageSettings] = useState<UsageSettings>(DEFAULT_USAGE_SETTINGS);
   
-  // API Keys state
-  const [geminiKey, setGeminiKey] = useState('');
-  const [openaiKey, setOpenaiKey] = useState('');
+  // Whether identical caption requests are answered from the cache
+  const [cacheSettings, setCacheSettings] = useState<CacheSettings>(DEFAULT_CACHE_SETTINGS);
+  
+  // Brand kits (user-defined guidelines) and the one applied to generation
+  const [brandKits, setBrandKits] = useState<BrandKit[]>([]);
+  const [activeBrandKitId, setActiveBrandKitId] = useState<string | null>(null);
+  const activeBrandKit = brandKits.find(kit => kit.id === activeBrandKitId);
+  
+  // Hashtags added to every caption, as typed; saved when the field loses focus
+  const [pinnedInput, setPinnedInput] = useState('');
+  const pinnedHashtags = useMemo(() => parseHashtagList(pinnedInput), [pinnedInput]);
+  const [rerollingIds, setRerollingIds] = useState<Set<string>>(new Set());
+  
+  // Prompt templates edited in the advanced settings (built-ins otherwise)
+  const [templateOverrides, setTemplateOverrides] = useState<PromptTemplateOverrides>({});
+  
+  // How captions are placed and styled on the canvas (last choice is remembered)
+  const [insertOptions, setInsertOptions] = useState<InsertOptions>(DEFAULT_INSERT_OPTIONS);
+  const [showInsertSettings, setShowInsertSettings] = useState(false);
+  
+  // Distributing captions across the document's pages/artboards
+  const [artboards, setArtboards] = useState<ArtboardInfo[]>([]);
+  const [showDistribute, setShowDistribute] = useState(false);
+  const [isDistributing, setIsDistributing] = useState(false);
+  
+  const [showExport, setShowExport] = useState(false);
+  
+  // Provider settings state (stage providers, models and API keys)
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(DEFAULT_PROVIDER_SETTINGS);
   const [showApiKeys, setShowApiKeys] = useState(true);
   
+  // The proxy writes prompts from its own built-in templates
+  const activeTemplateOverrides = useMemo(
+    () => providerSettings.proxy.enabled ? {} : templateOverrides,
+    [providerSettings.proxy.enabled, templateOverrides]
+  );
+  const captionTemplate = resolveTemplate('caption', activeTemplateOverrides);
+  
+  // Last test result per stored key, the vault passphrase for this session
+  // (null when keys use the device key) and a vault waiting for its passphrase
+  const [keyChecks, setKeyChecks] = useState<Partial<Record<ProviderId, ApiKeyCheck>>>({});
+  const [vaultPassphrase, setVaultPassphrase] = useState<string | null>(null);
+  const [lockedVault, setLockedVault] = useState<ApiKeyVault | null>(null);
+  
+  // Saved keys waiting for their passphrase: provider calls wait for the
+  // unlock rather than falling back to local captions
+  const keysLocked = !!lockedVault && !providerSettings.proxy.enabled;
+  
+  // No API keys: captions come from the local template engine
+  const isLocalMode = !keysLocked && getMissingApiKeys(providerSettings).length > 0;
+  
+  // Refining, shortening and hashtag re-rolls need a provider (or the proxy)
+  const canEditWithAi = !isLocalMode && !keysLocked;
+  
   // SDK state
   const [sdkReady, setSdkReady] = useState(false);
   const sandboxProxyRef = useRef<DocumentSandboxApi | null>(null);
   
+  // A single text node is selected: Insert replaces its text instead
+  const [canReplace, setCanReplace] = useState(false);
+  
   // File input ref
   const fileInputRef = useRef<HTMLInputElement>(null);
+  
+  // Aborts in-flight AI requests when the user cancels or stops generation
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   // Initialize Adobe SDK
   useEffect(() => {
@@ -142,20 +336,90 @@ const App: React.FC = () => {
         
         // Get the sandbox proxy for document operations
         const { runtime } = addOnUISdk.instance;
+        
+        // Let the sandbox report selection changes
+        const panelApi: PanelApi = { onSelectionChange: setCanReplace };
+        runtime.exposeApi?.(panelApi);
+        
         if (runtime.apiProxy) {
           sandboxProxyRef.current = await runtime.apiProxy('documentSandbox') as DocumentSandboxApi;
+          setCanReplace(await sandboxProxyRef.current.isSingleTextSelected());
         }
         
         setSdkReady(true);
         
-        // Load saved API keys from client storage
+        // Load saved provider settings from client storage
         const clientStorage = addOnUISdk.instance.clientStorage;
+        const savedSettings = await clientStorage.getItem('providerSettings') as ProviderSettings | undefined;
+        const settings: ProviderSettings = savedSettings
+          ? { ...DEFAULT_PROVIDER_SETTINGS, ...savedSettings, apiKeys: {} }
+          : DEFAULT_PROVIDER_SETTINGS;
+        
+        // Keys saved in plain text by earlier versions, in the provider
+        // settings or before provider settings existed
         const savedGeminiKey = await clientStorage.getItem('geminiApiKey') as string;
         const savedOpenaiKey = await clientStorage.getItem('openaiApiKey') as string;
+        const plainKeys = {
+          ...(savedGeminiKey && { gemini: savedGeminiKey }),
+          ...(savedOpenaiKey && { openai: savedOpenaiKey }),
+          ...savedSettings?.apiKeys
+        };
+        
+        let apiKeys: ProviderSettings['apiKeys'] = {};
+        const vault = await loadApiKeyVault(clientStorage);
+        if (vault?.protection === 'passphrase') {
+          setLockedVault(vault);
+        } else if (vault) {
+          try {
+            const keySet = await unlockApiKeyVault(vault);
+            apiKeys = keySet.keys;
+            setKeyChecks(keySet.checks);
+          } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to read the saved API keys');
+          }
+        } else if (Object.keys(plainKeys).length > 0) {
+          // Move them into the encrypted vault
+          await saveApiKeyVault(clientStorage, { keys: plainKeys, checks: {} });
+          apiKeys = plainKeys;
+        }
+        
+        if (savedSettings?.apiKeys && Object.keys(savedSettings.apiKeys).length > 0) {
+          await clientStorage.setItem('providerSettings', { ...savedSettings, apiKeys: {} });
+        }
+        await clientStorage.removeItem('geminiApiKey');
+        await clientStorage.removeItem('openaiApiKey');
+        
+        setProviderSettings({ ...settings, apiKeys });
+        if (getMissingApiKeys({ ...settings, apiKeys }).length === 0) setShowApiKeys(false);
+        
+        // Load brand kits
+        const savedKits = await loadBrandKits(clientStorage);
+        setBrandKits(savedKits.kits);
+        setActiveBrandKitId(savedKits.activeId);
+        
+        // Load insert settings
+        setInsertOptions(await loadInsertOptions(clientStorage));
+        
+        // Load edited prompt templates
+        setTemplateOverrides(await loadTemplateOverrides(clientStorage));
         
-        if (savedGeminiKey) setGeminiKey(savedGeminiKey);
-        if (savedOpenaiKey) setOpenaiKey(savedOpenaiKey);
-        if (savedGeminiKey && savedOpenaiKey) setShowApiKeys(false);
+        // Load pinned hashtags
+        const savedPinned = await loadPinnedHashtags(clientStorage);
+        setPinnedInput(savedPinned.map(tag => `#${tag}`).join(' '));
+        
+        // Load past runs
+        const savedHistory = await loadHistory(clientStorage);
+        historyRef.current = savedHistory;
+        setHistory(savedHistory);
+        
+        // Load token usage, prices and budgets
+        const savedUsage = await loadUsageLog(clientStorage);
+        usageLogRef.current = savedUsage;
+        setUsageLog(savedUsage);
+        setUsageSettings(await loadUsageSettings(clientStorage));
+        
+        // Load cache settings
+        setCacheSettings(await loadCacheSettings(clientStorage));
         
       } catch (err) {
         console.error('SDK initialization error:', err);
@@ -165,15 +429,270 @@ const App: React.FC = () => {
     initSdk();
   }, []);
 
-  // Save API keys when changed
-  const saveApiKeys = useCallback(async () => {
+  // Save provider settings when changed (keys are kept in the encrypted vault)
+  const saveProviderSettings = useCallback(async () => {
     if (sdkReady) {
       const clientStorage = addOnUISdk.instance.clientStorage;
-      await clientStorage.setItem('geminiApiKey', geminiKey);
-      await clientStorage.setItem('openaiApiKey', openaiKey);
-      showToast('API keys saved!');
+      await clientStorage.setItem('providerSettings', { ...providerSettings, apiKeys: {} });
+      showToast('Settings saved!');
+    }
+  }, [providerSettings, sdkReady]);
+
+  // Apply a change to the API keys and store them encrypted
+  const updateApiKeys = useCallback(async (keySet: ApiKeySet, passphrase: string | null = vaultPassphrase) => {
+    setProviderSettings(current => ({ ...current, apiKeys: keySet.keys }));
+    setKeyChecks(keySet.checks);
+    
+    if (!sdkReady) return;
+    
+    try {
+      await saveApiKeyVault(addOnUISdk.instance.clientStorage, keySet, passphrase ?? undefined);
+    } catch (err) {
+      console.error('API key save error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save the API keys');
+    }
+  }, [vaultPassphrase, sdkReady]);
+
+  // Test a new key and save it unless the provider rejects it
+  const handleSaveKey = useCallback(async (providerId: ProviderId, key: string): Promise<ApiKeyCheck> => {
+    const check = await checkApiKey(providerSettings, providerId, key);
+    if (check.status === 'invalid') return check;
+    
+    const replaced = !!providerSettings.apiKeys[providerId];
+    await updateApiKeys({
+      keys: { ...providerSettings.apiKeys, [providerId]: key.trim() },
+      checks: { ...keyChecks, [providerId]: check }
+    });
+    showToast(replaced ? 'API key replaced 🔑' : 'API key saved 🔑');
+    return check;
+  }, [providerSettings, keyChecks, updateApiKeys]);
+
+  const handleTestKey = useCallback(async (providerId: ProviderId) => {
+    const key = providerSettings.apiKeys[providerId];
+    if (!key) return;
+    
+    const check = await checkApiKey(providerSettings, providerId, key);
+    await updateApiKeys({ keys: providerSettings.apiKeys, checks: { ...keyChecks, [providerId]: check } });
+  }, [providerSettings, keyChecks, updateApiKeys]);
+
+  const handleRemoveKey = useCallback(async (providerId: ProviderId) => {
+    const keys = { ...providerSettings.apiKeys };
+    const checks = { ...keyChecks };
+    delete keys[providerId];
+    delete checks[providerId];
+    await updateApiKeys({ keys, checks });
+    showToast('API key removed');
+  }, [providerSettings, keyChecks, updateApiKeys]);
+
+  const handleUnlockKeys = useCallback(async (passphrase: string): Promise<boolean> => {
+    if (!lockedVault) return true;
+    
+    try {
+      const keySet = await unlockApiKeyVault(lockedVault, passphrase);
+      setProviderSettings(current => ({ ...current, apiKeys: keySet.keys }));
+      setKeyChecks(keySet.checks);
+      setVaultPassphrase(passphrase);
+      setLockedVault(null);
+      return true;
+    } catch {
+      return false;
+    }
+  }, [lockedVault]);
+
+  // Re-encrypt the keys with a new passphrase, or with the device key (null)
+  const handleSetPassphrase = useCallback(async (passphrase: string | null) => {
+    await updateApiKeys({ keys: providerSettings.apiKeys, checks: keyChecks }, passphrase);
+    setVaultPassphrase(passphrase);
+    showToast(passphrase ? 'Passphrase set 🔐' : 'Passphrase removed');
+  }, [providerSettings, keyChecks, updateApiKeys]);
+
+  // Apply a change to history and persist it (evicting old runs if storage is full)
+  const updateHistory = useCallback(async (update: (entries: HistoryEntry[]) => HistoryEntry[]) => {
+    const next = update(historyRef.current);
+    historyRef.current = next;
+    setHistory(next);
+    
+    if (!sdkReady) return;
+    
+    try {
+      const saved = await saveHistory(addOnUISdk.instance.clientStorage, next);
+      if (saved !== next) {
+        historyRef.current = saved;
+        setHistory(saved);
+      }
+    } catch (err) {
+      console.error('History save error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save history');
+    }
+  }, [sdkReady]);
+
+  // Current platform's cards
+  const activeSet = captionSets.find(set => set.platform === resultPlatform);
+  const captions = activeSet?.captions ?? [];
+  const hasCaptions = captionSets.some(set => set.captions.length > 0);
+  
+  // Cards ranked by local quality score, once generation has finished
+  const rankedCaptions = useMemo((): { caption: CaptionResult; score?: CaptionScore }[] => isLoading
+    ? captions.map(caption => ({ caption }))
+    : rankCaptions(captions, { platform: resultPlatform, language: resultSettings.language, keywords: summary?.keywords }),
+  [captions, isLoading, resultPlatform, resultSettings, summary]);
+
+  // Every platform's cards in ranked order, so copies, exports and pages number them like the cards
+  const rankedCaptionSets = useMemo((): PlatformCaptionSet[] => isLoading
+    ? captionSets
+    : captionSets.map(set => ({
+      ...set,
+      captions: rankCaptions(set.captions, { platform: set.platform, language: resultSettings.language, keywords: summary?.keywords })
+        .map(({ caption }) => caption)
+    })),
+  [captionSets, isLoading, resultSettings, summary]);
+  const rankedActiveCaptions = useMemo(() => rankedCaptions.map(({ caption }) => caption), [rankedCaptions]);
+
+  // Replace one platform's cards
+  const setPlatformCaptions = useCallback((target: Platform, updatedCaptions: CaptionResult[]) => {
+    setCaptionSets(sets => sets.map(set => set.platform === target ? { ...set, captions: updatedCaptions } : set));
+  }, []);
+
+  // Replace one platform's cards and keep its stored run in sync with them
+  const syncRunCaptions = useCallback((target: Platform, updatedCaptions: CaptionResult[]) => {
+    setPlatformCaptions(target, updatedCaptions);
+    
+    const runId = runIdsRef.current[target];
+    updateHistory(entries => entries.map(entry => entry.id === runId
+      ? {
+        ...entry,
+        captions: updatedCaptions,
+        favoriteCaptionIds: entry.favoriteCaptionIds.filter(id => updatedCaptions.some(c => c.id === id))
+      }
+      : entry));
+  }, [setPlatformCaptions, updateHistory]);
+
+  // Update brand kits and persist them
+  const updateBrandKits = useCallback(async (kits: BrandKit[], activeId: string | null) => {
+    setBrandKits(kits);
+    setActiveBrandKitId(activeId);
+    
+    if (!sdkReady) return;
+    
+    try {
+      await saveBrandKits(addOnUISdk.instance.clientStorage, kits, activeId);
+    } catch (err) {
+      console.error('Brand kit save error:', err);
+      setError('Failed to save brand kits');
+    }
+  }, [sdkReady]);
+
+  // Update insert settings and remember them
+  const updateInsertOptions = useCallback(async (options: InsertOptions) => {
+    setInsertOptions(options);
+    
+    if (!sdkReady) return;
+    
+    try {
+      await saveInsertOptions(addOnUISdk.instance.clientStorage, options);
+    } catch (err) {
+      console.error('Insert settings save error:', err);
+    }
+  }, [sdkReady]);
+
+  const handleSaveBrandKit = useCallback((kit: BrandKit) => {
+    const exists = brandKits.some(k => k.id === kit.id);
+    updateBrandKits(exists ? brandKits.map(k => k.id === kit.id ? kit : k) : [...brandKits, kit], kit.id);
+    showToast('Brand kit saved!');
+  }, [brandKits, updateBrandKits]);
+
+  const handleDeleteBrandKit = useCallback((kitId: string) => {
+    updateBrandKits(
+      brandKits.filter(k => k.id !== kitId),
+      activeBrandKitId === kitId ? null : activeBrandKitId
+    );
+  }, [brandKits, activeBrandKitId, updateBrandKits]);
+
+  // Save an edited prompt template as a new version
+  const updateTemplateOverrides = useCallback(async (overrides: PromptTemplateOverrides) => {
+    setTemplateOverrides(overrides);
+    
+    if (!sdkReady) return;
+    
+    try {
+      await saveTemplateOverrides(addOnUISdk.instance.clientStorage, overrides);
+    } catch (err) {
+      console.error('Prompt template save error:', err);
+      setError('Failed to save prompt template');
+    }
+  }, [sdkReady]);
+
+  const handleSaveTemplate = useCallback((id: PromptTemplateId, body: string) => {
+    updateTemplateOverrides({ ...templateOverrides, [id]: createCustomTemplate(id, body) });
+    showToast('Template saved!');
+  }, [templateOverrides, updateTemplateOverrides]);
+
+  const handleResetTemplate = useCallback((id: PromptTemplateId) => {
+    const overrides = { ...templateOverrides };
+    delete overrides[id];
+    updateTemplateOverrides(overrides);
+    showToast('Template reset to built-in');
+  }, [templateOverrides, updateTemplateOverrides]);
+
+  // Price provider calls into the usage log, and add them to the runs they were made for
+  const recordUsage = useCallback(async (calls: { usage: TokenUsage; runId?: string }[]) => {
+    if (calls.length === 0) return;
+    
+    const records = calls.map(call => createUsageRecord(call.usage, usageSettings.prices, call.runId));
+    const next = [...usageLogRef.current, ...records];
+    usageLogRef.current = next;
+    setUsageLog(next);
+    
+    const runIds = new Set(records.map(record => record.runId));
+    if (records.some(record => record.runId)) {
+      updateHistory(entries => entries.map(entry => runIds.has(entry.id)
+        ? { ...entry, usage: addUsageTotals(entry.usage ?? EMPTY_USAGE_TOTALS, records.filter(record => record.runId === entry.id)) }
+        : entry));
+    }
+    
+    if (!sdkReady) return;
+    
+    try {
+      const saved = await saveUsageLog(addOnUISdk.instance.clientStorage, next);
+      if (saved.length !== next.length && usageLogRef.current === next) {
+        usageLogRef.current = saved;
+        setUsageLog(saved);
+      }
+    } catch (err) {
+      console.error('Usage log save error:', err);
     }
-  }, [geminiKey, openaiKey, sdkReady]);
+  }, [usageSettings, sdkReady, updateHistory]);
+
+  const handleSaveUsageSettings = useCallback(async (settings: UsageSettings) => {
+    setUsageSettings(settings);
+    if (sdkReady) {
+      await saveUsageSettings(addOnUISdk.instance.clientStorage, settings);
+    }
+    showToast('Usage settings saved!');
+  }, [sdkReady]);
+
+  const handleClearUsage = useCallback(async () => {
+    usageLogRef.current = [];
+    setUsageLog([]);
+    if (sdkReady) {
+      await saveUsageLog(addOnUISdk.instance.clientStorage, []);
+    }
+    showToast('Usage cleared');
+  }, [sdkReady]);
+
+  const handleCacheSettingsChange = useCallback(async (settings: CacheSettings) => {
+    setCacheSettings(settings);
+    if (sdkReady) {
+      await saveCacheSettings(addOnUISdk.instance.clientStorage, settings);
+    }
+  }, [sdkReady]);
+
+  const handleClearCache = useCallback(async () => {
+    if (!sdkReady) return;
+    await clearCache(addOnUISdk.instance.clientStorage, SUMMARY_CACHE);
+    await clearCache(addOnUISdk.instance.clientStorage, CAPTION_CACHE);
+    showToast('Cache cleared');
+  }, [sdkReady]);
 
   // Show toast notification
   const showToast = (message: string) => {
@@ -218,15 +737,27 @@ const App: React.FC = () => {
     if (file) handleFileSelect(file);
   }, [handleFileSelect]);
 
+  // Read the selected text, groups and page name from the document
+  const readCanvasSelection = useCallback(async (): Promise<CanvasSelectionContent | null> => {
+    if (!sandboxProxyRef.current) {
+      setError('Adobe Express connection not available');
+      return null;
+    }
+    
+    try {
+      const content = await sandboxProxyRef.current.readSelectionContent();
+      setCanvasContent(content);
+      return content;
+    } catch (err) {
+      console.error('Selection read error:', err);
+      setError('Failed to read the selection');
+      return null;
+    }
+  }, []);
+
   // Main generation function
   const handleGenerate = useCallback(async () => {
     // Validate inputs
-    if (!geminiKey || !openaiKey) {
-      setError('Please enter both API keys');
-      setShowApiKeys(true);
-      return;
-    }
-    
     if (inputSource === 'text' && !textInput.trim()) {
       setError('Please enter some text content');
       return;
@@ -237,63 +768,266 @@ const App: React.FC = () => {
       return;
     }
     
+    // Canvas input: read the selection as it is now
+    let sourceText = textInput;
+    if (inputSource === 'canvas') {
+      const content = await readCanvasSelection();
+      if (!content) return;
+      if (!hasCanvasText(content)) {
+        setError('Select text, or a group containing text, on the canvas');
+        return;
+      }
+      sourceText = formatCanvasContent(content);
+    }
+    
+    // Batch mode generates every selected platform from the same analysis
+    const targetPlatforms = batchMode ? PLATFORM_IDS.filter(id => batchPlatforms.includes(id)) : [platform];
+    if (targetPlatforms.length === 0) {
+      setError('Please select at least one platform');
+      return;
+    }
+    
+    if (keysLocked) {
+      setError(KEYS_LOCKED_MESSAGE);
+      setShowApiKeys(true);
+      return;
+    }
+    
+    // Without keys or a connection, captions are written locally from templates
+    const useLocal = isLocalMode || !navigator.onLine;
+    
+    // Local captions cost nothing; provider runs stop at a hard budget
+    if (!useLocal) {
+      const budget = checkBudget(usageLogRef.current, usageSettings.budgets);
+      if (budget.status === 'block') {
+        setError(budget.message);
+        return;
+      }
+      if (budget.status === 'warn') {
+        showToast(`⚠️ ${budget.message}`);
+      }
+    }
+    
+    const isTextSource = inputSource === 'text' || inputSource === 'canvas';
+    const runSettings = {
+      content: isTextSource ? sourceText : '',
+      tone,
+      language,
+      brandKit: activeBrandKit,
+      pinnedHashtags,
+      template: captionTemplate
+    };
+    
     setIsLoading(true);
     setError(null);
-    setCaptions([]);
+    setCaptionSets(targetPlatforms.map(target => ({ platform: target, captions: [] })));
+    setResultPlatform(targetPlatforms[0]);
+    setResultSettings(runSettings);
+    setVersionStacks({});
+    setRefineOpenId(null);
     setSummary(null);
     
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const control = {
+      signal: controller.signal,
+      onRetry: (notice: RetryNotice) => setLoadingStep(describeRetry(notice))
+    };
+    
+    // Usage is recorded when the run ends, against the history runs it created
+    const summarizeUsage: TokenUsage[] = [];
+    const captionUsage: Partial<Record<Platform, TokenUsage[]>> = {};
+    const onCaptionUsage = (target: Platform, usage: TokenUsage) => {
+      captionUsage[target] = [...(captionUsage[target] ?? []), usage];
+    };
+    let runIds: Partial<Record<Platform, string>> = {};
+    
     try {
-      // Step 1: Analyze content with Gemini
-      setLoadingStep('Analyzing content with AI...');
+      // Step 1: Analyze content with the summarize provider
+      setLoadingStep(useLocal ? 'Summarizing content locally...' : 'Analyzing content with AI...');
       
       let contentSummary: ContentSummary;
-      const input = inputSource === 'text' ? textInput : uploadedFile!;
+      const input = isTextSource ? sourceText : uploadedFile!;
+      const inputType = inputSource === 'canvas' ? 'text' : inputSource;
       
-      try {
-        contentSummary = await analyzeContent(input, inputSource, geminiKey);
-      } catch (geminiError) {
-        // Fallback if Gemini fails
-        console.warn('Gemini failed, using fallback:', geminiError);
-        if (inputSource === 'text') {
-          contentSummary = createFallbackSummary(textInput);
-        } else {
-          throw new Error('Could not analyze file. Please try with text input instead.');
+      // The same content analyzed the same way is reused, whatever the platform, tone or language
+      const summarizeTemplate = resolveTemplate('summarize', activeTemplateOverrides);
+      const summaryKey = useLocal || !sdkReady
+        ? null
+        : await getSummaryCacheKey(input, inputType, getCacheScope(providerSettings, 'summarize'), summarizeTemplate.version);
+      const cachedSummary = summaryKey
+        ? await readCache<ContentSummary>(addOnUISdk.instance.clientStorage, SUMMARY_CACHE, summaryKey)
+        : null;
+      
+      if (useLocal) {
+        contentSummary = await createLocalSummary(input, inputType);
+      } else if (cachedSummary) {
+        contentSummary = { ...cachedSummary, isCached: true };
+      } else {
+        try {
+          contentSummary = providerSettings.proxy.enabled
+            ? await analyzeContentViaProxy(
+              providerSettings.proxy,
+              input,
+              inputType,
+              { ...control, onUsage: usage => summarizeUsage.push(usage) }
+            )
+            : await analyzeContent(
+              input,
+              inputType,
+              resolveConnection(providerSettings, 'summarize'),
+              { ...control, onUsage: usage => summarizeUsage.push(usage) },
+              summarizeTemplate
+            );
+          
+          if (summaryKey) {
+            writeCache(addOnUISdk.instance.clientStorage, SUMMARY_CACHE, [{ key: summaryKey, value: toCachedSummary(contentSummary) }])
+              .catch(err => console.error('Summary cache save error:', err));
+          }
+        } catch (analysisError) {
+          if (isAbortError(analysisError)) throw analysisError;
+          
+          // Fallback if content analysis fails
+          console.warn('Content analysis failed, using fallback:', analysisError);
+          if (isTextSource) {
+            contentSummary = createFallbackSummary(sourceText);
+          } else {
+            throw new Error('Could not analyze file. Please try with text input instead.');
+          }
         }
       }
       
       setSummary(contentSummary);
       
-      // Step 2: Generate captions with GPT
-      setLoadingStep('Crafting perfect captions...');
+      // Step 2: Stream captions from the caption provider (all platforms at once)
+      setLoadingStep(targetPlatforms.length > 1
+        ? `Crafting captions for ${targetPlatforms.length} platforms...`
+        : 'Crafting perfect captions...');
+      setIsStreaming(true);
+      
+      const captionRequest = { ...runSettings, summary: contentSummary };
       
-      const generatedCaptions = await generateCaptions({
-        content: textInput,
-        platform,
-        tone,
-        language,
-        summary: contentSummary
-      }, openaiKey);
+      // Identical requests are answered from the caption cache, when it is on
+      const useCaptionCache = cacheSettings.captions && !useLocal && sdkReady;
+      const captionKeys: Partial<Record<Platform, string>> = {};
+      const cachedSets: PlatformCaptionSet[] = [];
+      if (useCaptionCache) {
+        const scope = getCacheScope(providerSettings, 'caption');
+        for (const target of targetPlatforms) {
+          const key = await getCaptionCacheKey({ ...captionRequest, platform: target }, scope);
+          captionKeys[target] = key;
+          const cached = await readCache<CaptionResult[]>(addOnUISdk.instance.clientStorage, CAPTION_CACHE, key);
+          if (cached) {
+            const runId = `${target}-${Date.now()}`;
+            cachedSets.push({
+              platform: target,
+              captions: cached.map((caption, index) => ({ ...caption, id: `caption-${runId}-${index}`, isCached: true }))
+            });
+          }
+        }
+        cachedSets.forEach(set => setPlatformCaptions(set.platform, set.captions));
+      }
+      
+      const remaining = targetPlatforms.filter(target => !cachedSets.some(set => set.platform === target));
+      const generated = remaining.length === 0
+        ? []
+        : useLocal
+        ? generateLocalCaptionsForPlatforms(captionRequest, remaining)
+        : providerSettings.proxy.enabled
+        ? await generateCaptionsForPlatformsViaProxy(providerSettings.proxy, captionRequest, remaining, {
+          ...control,
+          onUsage: onCaptionUsage
+        })
+        : await generateCaptionsForPlatforms(captionRequest, remaining, resolveConnection(providerSettings, 'caption'), {
+          ...control,
+          onPartial: setPlatformCaptions,
+          onUsage: onCaptionUsage
+        });
+      const sets = targetPlatforms
+        .map(target => [...cachedSets, ...generated].find(set => set.platform === target))
+        .filter((set): set is PlatformCaptionSet => !!set);
+      
+      setCaptionSets(sets);
       
-      setCaptions(generatedCaptions);
-      showToast('Captions generated! ✨');
+      // Stopped runs may be missing captions, so only finished ones are cached
+      if (useCaptionCache && !controller.signal.aborted) {
+        writeCache(addOnUISdk.instance.clientStorage, CAPTION_CACHE, generated
+          .filter(set => !set.error && set.captions.length > 0)
+          .map(set => ({ key: captionKeys[set.platform]!, value: toCachedCaptions(set.captions) })))
+          .catch(err => console.error('Caption cache save error:', err));
+      }
+      
+      const failed = sets.filter(set => set.error);
+      if (failed.length === sets.length) {
+        throw new Error(failed[0].error);
+      }
+      if (failed.length > 0) {
+        setError(failed.map(set => `${getPlatform(set.platform).label}: ${set.error}`).join(' · '));
+      }
+      
+      // One history run per platform
+      const entries = sets
+        .filter(set => set.captions.length > 0)
+        .map(set => createHistoryEntry({
+          source: isTextSource
+            ? { type: inputSource, text: sourceText }
+            : { type: inputSource, fileName: uploadedFile?.name },
+          summary: contentSummary,
+          platform: set.platform,
+          tone,
+          language,
+          captions: set.captions
+        }));
+      runIds = Object.fromEntries(entries.map(entry => [entry.platform, entry.id]));
+      runIdsRef.current = runIds;
+      if (entries.length > 0) {
+        updateHistory(existing => [...entries, ...existing]);
+      }
+      
+      const captionCount = sets.reduce((count, set) => count + set.captions.length, 0);
+      if (controller.signal.aborted) {
+        showToast(captionCount > 0
+          ? `Stopped - kept ${captionCount} finished caption${captionCount === 1 ? '' : 's'}`
+          : 'Generation stopped');
+      } else if (useLocal) {
+        showToast('Captions written in local mode 🔌');
+      } else if (remaining.length === 0) {
+        showToast('Captions reused from cache ♻️');
+      } else {
+        showToast(sets.length > 1 ? `Captions generated for ${sets.length - failed.length} platforms! ✨` : 'Captions generated! ✨');
+      }
       
     } catch (err) {
-      console.error('Generation error:', err);
-      setError(err instanceof Error ? err.message : 'An error occurred');
+      if (isAbortError(err)) {
+        showToast('Generation cancelled');
+      } else {
+        console.error('Generation error:', err);
+        setError(err instanceof Error ? err.message : 'An error occurred');
+      }
     } finally {
+      abortControllerRef.current = null;
+      setIsStreaming(false);
       setIsLoading(false);
       setLoadingStep('');
+      
+      // The shared summary counts towards the first run
+      const firstRunId = targetPlatforms.map(target => runIds[target]).find(Boolean);
+      recordUsage([
+        ...summarizeUsage.map(usage => ({ usage, runId: firstRunId })),
+        ...targetPlatforms.flatMap(target => (captionUsage[target] ?? []).map(usage => ({ usage, runId: runIds[target] })))
+      ]);
     }
-  }, [inputSource, textInput, uploadedFile, platform, tone, language, geminiKey, openaiKey]);
+  }, [inputSource, textInput, uploadedFile, readCanvasSelection, platform, batchMode, batchPlatforms, tone, language, activeBrandKit, pinnedHashtags, activeTemplateOverrides, captionTemplate, providerSettings, isLocalMode, keysLocked, usageSettings, cacheSettings, sdkReady, setPlatformCaptions, updateHistory, recordUsage]);
 
-  // Copy caption to clipboard
-  const handleCopy = useCallback(async (caption: CaptionResult) => {
-    let fullText = caption.caption;
-    
-    // Add hashtags for Instagram
-    if (platform === 'instagram' && caption.hashtags.length > 0) {
-      fullText += '\n\n' + caption.hashtags.map(h => `#${h}`).join(' ');
-    }
+  // Cancel analysis, or stop streaming while keeping the finished captions
+  const handleStop = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  // Copy caption to clipboard (history passes the platform the caption was written for)
+  const handleCopy = useCallback(async (caption: CaptionResult, captionPlatform: Platform = resultPlatform) => {
+    // Add hashtags the way the platform expects them
+    const fullText = formatCaptionText(caption, captionPlatform);
     
     try {
       await navigator.clipboard.writeText(fullText);
@@ -302,27 +1036,25 @@ const App: React.FC = () => {
       console.error('Copy failed:', err);
       setError('Failed to copy to clipboard');
     }
-  }, [platform]);
+  }, [resultPlatform]);
 
   // Insert caption into Adobe Express canvas
-  const handleInsert = useCallback(async (caption: CaptionResult) => {
+  const handleInsert = useCallback(async (caption: CaptionResult, captionPlatform: Platform = resultPlatform) => {
     if (!sandboxProxyRef.current) {
       setError('Adobe Express connection not available');
       return;
     }
     
     try {
-      let textToInsert = caption.caption;
+      const parts = buildCaptionParts(caption, captionPlatform, insertOptions);
       
-      // Add hashtags for Instagram
-      if (platform === 'instagram' && caption.hashtags.length > 0) {
-        textToInsert += '\n\n' + caption.hashtags.map(h => `#${h}`).join(' ');
-      }
-      
-      const success = await sandboxProxyRef.current.insertTextIntoCanvas(textToInsert);
+      // Replace the selected text node in place, or add a new one styled and placed per the insert settings
+      const success = canReplace
+        ? await sandboxProxyRef.current.replaceSelectedText(parts)
+        : await sandboxProxyRef.current.insertCaption(parts, insertOptions);
       
       if (success) {
-        showToast('Caption added to design! 🎨');
+        showToast(canReplace ? 'Caption replaced in design! 🎨' : 'Caption added to design! 🎨');
       } else {
         setError('Failed to insert text. Make sure a design is open.');
       }
@@ -330,7 +1062,73 @@ const App: React.FC = () => {
       console.error('Insert error:', err);
       setError('Failed to insert caption');
     }
-  }, [platform]);
+  }, [resultPlatform, insertOptions, canReplace]);
+
+  // Load the document's pages/artboards for distribution
+  const refreshArtboards = useCallback(async () => {
+    if (!sandboxProxyRef.current) {
+      setError('Adobe Express connection not available');
+      return;
+    }
+    
+    try {
+      setArtboards(await sandboxProxyRef.current.listArtboards());
+    } catch (err) {
+      console.error('Artboard list error:', err);
+      setError('Failed to list pages');
+    }
+  }, []);
+
+  const handleToggleDistribute = useCallback(() => {
+    if (!showDistribute) refreshArtboards();
+    setShowDistribute(!showDistribute);
+  }, [showDistribute, refreshArtboards]);
+
+  // Insert the mapped captions into their artboards in one operation
+  const handleDistribute = useCallback(async (assignments: ArtboardAssignment[]) => {
+    if (!sandboxProxyRef.current) {
+      setError('Adobe Express connection not available');
+      return;
+    }
+    
+    setIsDistributing(true);
+    
+    try {
+      const inserted = await sandboxProxyRef.current.insertCaptionsIntoArtboards(
+        assignments.map(({ artboardId, caption }) => ({
+          artboardId,
+          parts: buildCaptionParts(caption, resultPlatform, insertOptions)
+        })),
+        insertOptions
+      );
+      
+      if (inserted > 0) {
+        showToast(`Captions added to ${inserted} page${inserted === 1 ? '' : 's'}! 🎨`);
+      } else {
+        setError('Failed to insert captions. The pages may have changed - refresh and try again.');
+      }
+    } catch (err) {
+      console.error('Distribute error:', err);
+      setError('Failed to insert captions');
+    } finally {
+      setIsDistributing(false);
+    }
+  }, [resultPlatform, insertOptions]);
+
+  // Copy every platform's captions in one go
+  const handleCopyAll = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(formatCaptionSetText(rankedCaptionSets));
+      showToast('All captions copied! 📋');
+    } catch (err) {
+      console.error('Copy failed:', err);
+      setError('Failed to copy to clipboard');
+    }
+  }, [rankedCaptionSets]);
+
+  const handleExported = useCallback((fileName: string) => {
+    showToast(`Exported ${fileName} 📄`);
+  }, []);
 
   // Regenerate a single caption
   const handleRegenerate = useCallback(async (captionId: string) => {
@@ -339,6 +1137,28 @@ const App: React.FC = () => {
     const captionIndex = captions.findIndex(c => c.id === captionId);
     if (captionIndex === -1) return;
     
+    const target = resultPlatform;
+    
+    if (keysLocked) {
+      setError(KEYS_LOCKED_MESSAGE);
+      setShowApiKeys(true);
+      return;
+    }
+    
+    if (!isLocalMode) {
+      const budget = checkBudget(usageLogRef.current, usageSettings.budgets);
+      if (budget.status === 'block') {
+        setError(budget.message);
+        return;
+      }
+      if (budget.status === 'warn') {
+        showToast(`⚠️ ${budget.message}`);
+      }
+    }
+    
+    const usage: TokenUsage[] = [];
+    const onUsage = (call: TokenUsage) => usage.push(call);
+    
     try {
       // Show loading on specific card
       const updatedCaptions = [...captions];
@@ -346,23 +1166,157 @@ const App: React.FC = () => {
         ...updatedCaptions[captionIndex],
         caption: '⏳ Regenerating...'
       };
-      setCaptions(updatedCaptions);
+      setPlatformCaptions(target, updatedCaptions);
       
-      const newCaption = await regenerateSingleCaption(
-        { content: textInput, platform, tone, language, summary },
-        openaiKey,
-        captions.map(c => c.caption)
-      );
+      const request = { ...resultSettings, platform: target, summary };
+      const newCaption = isLocalMode
+        ? regenerateLocalCaption(request, captions.map(c => c.caption))
+        : providerSettings.proxy.enabled
+        ? await regenerateCaptionViaProxy(providerSettings.proxy, request, captions.map(c => c.caption), { onUsage })
+        : await regenerateSingleCaption(request, resolveConnection(providerSettings, 'caption'), captions.map(c => c.caption), { onUsage });
       
       updatedCaptions[captionIndex] = newCaption;
-      setCaptions(updatedCaptions);
+      syncRunCaptions(target, updatedCaptions);
       showToast('Caption regenerated! 🔄');
       
     } catch (err) {
       console.error('Regeneration error:', err);
       setError('Failed to regenerate caption');
+    } finally {
+      recordUsage(usage.map(call => ({ usage: call, runId: runIdsRef.current[target] })));
     }
-  }, [captions, summary, textInput, platform, tone, language, openaiKey]);
+  }, [captions, summary, resultPlatform, resultSettings, providerSettings, isLocalMode, keysLocked, usageSettings, setPlatformCaptions, syncRunCaptions, recordUsage]);
+
+  // Apply a one-click platform fix to a caption
+  const handleApplyFix = useCallback((captionId: string, fix: CaptionFix) => {
+    syncRunCaptions(resultPlatform, captions.map(c => c.id === captionId ? applyFix(c, fix, resultPlatform) : c));
+  }, [captions, resultPlatform, syncRunCaptions]);
+
+  // Ask the model to shorten a caption that is over the platform limit
+  const handleAiShorten = useCallback(async (captionId: string) => {
+    const caption = captions.find(c => c.id === captionId);
+    if (!caption || !summary) return;
+    
+    const target = resultPlatform;
+    setShorteningIds(ids => new Set(ids).add(captionId));
+    const usage: TokenUsage[] = [];
+    
+    try {
+      const request = { ...resultSettings, platform: target, summary };
+      const control = { onUsage: (call: TokenUsage) => usage.push(call) };
+      const shortened = providerSettings.proxy.enabled
+        ? await shortenCaptionViaProxy(providerSettings.proxy, request, caption, control)
+        : await shortenCaption(request, resolveConnection(providerSettings, 'caption'), caption, control);
+      syncRunCaptions(target, captions.map(c => c.id === captionId ? shortened : c));
+      showToast('Caption shortened! ✂️');
+    } catch (err) {
+      console.error('Shortening error:', err);
+      setError('Failed to shorten caption');
+    } finally {
+      recordUsage(usage.map(call => ({ usage: call, runId: runIdsRef.current[target] })));
+      setShorteningIds(ids => {
+        const next = new Set(ids);
+        next.delete(captionId);
+        return next;
+      });
+    }
+  }, [captions, summary, resultPlatform, resultSettings, providerSettings, syncRunCaptions, recordUsage]);
+
+  // Edit a caption with the model, keeping the previous version
+  const handleRefine = useCallback(async (captionId: string, instruction: string) => {
+    const caption = captions.find(c => c.id === captionId);
+    if (!caption || !summary) return;
+    
+    const target = resultPlatform;
+    setRefiningIds(ids => new Set(ids).add(captionId));
+    const usage: TokenUsage[] = [];
+    
+    try {
+      const request = { ...resultSettings, platform: target, summary };
+      const control = { onUsage: (call: TokenUsage) => usage.push(call) };
+      const refined = providerSettings.proxy.enabled
+        ? await refineCaptionViaProxy(providerSettings.proxy, request, caption, instruction, control)
+        : await refineCaption(request, resolveConnection(providerSettings, 'caption'), caption, instruction, control);
+      setVersionStacks(stacks => ({ ...stacks, [captionId]: pushVersion(stacks[captionId], caption, refined) }));
+      syncRunCaptions(target, captions.map(c => c.id === captionId ? refined : c));
+      showToast('Caption refined! ✏️');
+    } catch (err) {
+      console.error('Refine error:', err);
+      setError('Failed to refine caption');
+    } finally {
+      recordUsage(usage.map(call => ({ usage: call, runId: runIdsRef.current[target] })));
+      setRefiningIds(ids => {
+        const next = new Set(ids);
+        next.delete(captionId);
+        return next;
+      });
+    }
+  }, [captions, summary, resultPlatform, resultSettings, providerSettings, syncRunCaptions, recordUsage]);
+
+  // New hashtags for a caption, keeping its text
+  const handleRerollHashtags = useCallback(async (captionId: string) => {
+    const caption = captions.find(c => c.id === captionId);
+    if (!caption || !summary) return;
+    
+    const target = resultPlatform;
+    setRerollingIds(ids => new Set(ids).add(captionId));
+    const usage: TokenUsage[] = [];
+    
+    try {
+      const request = { ...resultSettings, platform: target, summary };
+      const control = { onUsage: (call: TokenUsage) => usage.push(call) };
+      const rerolled = providerSettings.proxy.enabled
+        ? await rerollHashtagsViaProxy(providerSettings.proxy, request, caption, control)
+        : await rerollHashtags(request, resolveConnection(providerSettings, 'caption'), caption, control);
+      syncRunCaptions(target, captions.map(c => c.id === captionId ? rerolled : c));
+      showToast('New hashtags! 🎲');
+    } catch (err) {
+      console.error('Hashtag re-roll error:', err);
+      setError('Failed to get new hashtags');
+    } finally {
+      recordUsage(usage.map(call => ({ usage: call, runId: runIdsRef.current[target] })));
+      setRerollingIds(ids => {
+        const next = new Set(ids);
+        next.delete(captionId);
+        return next;
+      });
+    }
+  }, [captions, summary, resultPlatform, resultSettings, providerSettings, syncRunCaptions, recordUsage]);
+
+  // Save pinned hashtags, showing them as they will be used
+  const handlePinnedBlur = useCallback(async () => {
+    setPinnedInput(pinnedHashtags.map(tag => `#${tag}`).join(' '));
+    
+    if (!sdkReady) return;
+    
+    try {
+      await savePinnedHashtags(addOnUISdk.instance.clientStorage, pinnedHashtags);
+    } catch (err) {
+      console.error('Pinned hashtags save error:', err);
+    }
+  }, [pinnedHashtags, sdkReady]);
+
+  // Step back or forward through a refined caption's versions
+  const handleStepVersion = useCallback((captionId: string, offset: number) => {
+    const caption = captions.find(c => c.id === captionId);
+    const stack = versionStacks[captionId];
+    if (!caption || !stack) return;
+    
+    const stepped = stepVersion(stack, caption, offset);
+    setVersionStacks(stacks => ({ ...stacks, [captionId]: stepped }));
+    syncRunCaptions(resultPlatform, captions.map(c => c.id === captionId ? stepped.versions[stepped.index] : c));
+  }, [captions, versionStacks, resultPlatform, syncRunCaptions]);
+
+  // Star or unstar a caption in history
+  const handleToggleFavorite = useCallback((entryId: string, captionId: string) => {
+    updateHistory(entries => toggleFavorite(entries, entryId, captionId));
+  }, [updateHistory]);
+
+  // Delete a run from history
+  const handleDeleteRun = useCallback((entryId: string) => {
+    updateHistory(entries => entries.filter(entry => entry.id !== entryId));
+    showToast('Run deleted');
+  }, [updateHistory]);
 
   // Format file size
   const formatFileSize = (bytes: number): string => {
@@ -372,11 +1326,24 @@ const App: React.FC = () => {
   };
 
   // Check if can generate
-  const canGenerate = (inputSource === 'text' && textInput.trim().length > 0) ||
-    ((inputSource === 'pdf' || inputSource === 'image') && uploadedFile !== null);
+  const canGenerate = ((inputSource === 'text' && textInput.trim().length > 0) ||
+    ((inputSource === 'pdf' || inputSource === 'image') && uploadedFile !== null) ||
+    (inputSource === 'canvas' && sdkReady)) &&
+    (!batchMode || batchPlatforms.length > 0);
+
+  // Platform picker: single choice, or a set of platforms in batch mode
+  const togglePlatform = (value: Platform) => {
+    if (!batchMode) {
+      setPlatform(value);
+      return;
+    }
+    setBatchPlatforms(selected => selected.includes(value)
+      ? selected.filter(p => p !== value)
+      : [...selected, value]);
+  };
 
   return (
-    <Theme theme="express" color="dark" scale="medium">
+    <Theme system="express" color="dark" scale="medium">
       <div className="captioncraft-container">
         {/* Header */}
         <header className="header">
@@ -384,49 +1351,29 @@ const App: React.FC = () => {
           <p className="tagline">AI-powered captions for social media</p>
         </header>
 
-        {/* API Keys Section */}
+        {/* Provider Settings Section */}
         {showApiKeys && (
-          <div className="api-key-section">
-            <div className="section-title" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
-              <span>🔑 API Keys</span>
-              {geminiKey && openaiKey && (
-                <button 
-                  className="action-button" 
-                  style={{ padding: '4px 8px', fontSize: '10px' }}
-                  onClick={() => setShowApiKeys(false)}
-                >
-                  Hide
-                </button>
-              )}
-            </div>
-            <div style={{ marginBottom: '8px' }}>
-              <label className="api-key-label">Gemini API Key</label>
-              <input
-                type="password"
-                className="api-key-input"
-                placeholder="Enter your Gemini API key"
-                value={geminiKey}
-                onChange={(e) => setGeminiKey(e.target.value)}
+          <>
+            <ProviderSettingsPanel
+              settings={providerSettings}
+              onChange={setProviderSettings}
+              onSave={saveProviderSettings}
+              onHide={getMissingApiKeys(providerSettings).length === 0 ? () => setShowApiKeys(false) : undefined}
+            />
+            {!providerSettings.proxy.enabled && (
+              <ApiKeyManagerPanel
+                settings={providerSettings}
+                checks={keyChecks}
+                locked={!!lockedVault}
+                hasPassphrase={vaultPassphrase !== null}
+                onSaveKey={handleSaveKey}
+                onTestKey={handleTestKey}
+                onRemoveKey={handleRemoveKey}
+                onUnlock={handleUnlockKeys}
+                onSetPassphrase={handleSetPassphrase}
               />
-            </div>
-            <div style={{ marginBottom: '8px' }}>
-              <label className="api-key-label">OpenAI API Key</label>
-              <input
-                type="password"
-                className="api-key-input"
-                placeholder="Enter your OpenAI API key"
-                value={openaiKey}
-                onChange={(e) => setOpenaiKey(e.target.value)}
-              />
-            </div>
-            <button 
-              className="action-button primary" 
-              style={{ width: '100%', marginTop: '8px' }}
-              onClick={saveApiKeys}
-            >
-              Save Keys
-            </button>
-          </div>
+            )}
+          </>
         )}
 
         {!showApiKeys && (
@@ -435,256 +1382,624 @@ const App: React.FC = () => {
             style={{ width: '100%', marginBottom: '16px', padding: '8px' }}
             onClick={() => setShowApiKeys(true)}
           >
-            🔑 Update API Keys
+            🔑 AI Providers & Keys
           </button>
         )}
 
-        {/* Input Source Tabs */}
-        <section className="section">
-          <div className="section-title">Input Source</div>
-          <div className="input-tabs">
-            <button
-              className={`tab-button ${inputSource === 'text' ? 'active' : ''}`}
-              onClick={() => { setInputSource('text'); setUploadedFile(null); }}
-            >
-              <TextIcon /> Text
-            </button>
-            <button
-              className={`tab-button ${inputSource === 'pdf' ? 'active' : ''}`}
-              onClick={() => { setInputSource('pdf'); setUploadedFile(null); }}
-            >
-              <PdfIcon /> PDF
-            </button>
-            <button
-              className={`tab-button ${inputSource === 'image' ? 'active' : ''}`}
-              onClick={() => { setInputSource('image'); setUploadedFile(null); }}
-            >
-              <ImageIcon /> Image
-            </button>
+        {keysLocked && (
+          <div className="local-mode-notice">
+            🔒 {KEYS_LOCKED_MESSAGE}
           </div>
+        )}
 
-          {/* Text Input */}
-          {inputSource === 'text' && (
-            <div className="text-input-wrapper">
-              <textarea
-                className="text-input"
-                placeholder="Describe your content, product, or idea...&#10;&#10;Example: We just launched our new eco-friendly water bottle that keeps drinks cold for 24 hours. Made from recycled ocean plastic!"
-                value={textInput}
-                onChange={(e) => setTextInput(e.target.value)}
-                maxLength={2000}
-              />
-              <span className="char-count">{textInput.length}/2000</span>
-            </div>
-          )}
+        {isLocalMode && (
+          <div className="local-mode-notice">
+            🔌 Local mode: captions are written offline from templates. Add API keys for AI captions.
+          </div>
+        )}
 
-          {/* File Upload */}
-          {(inputSource === 'pdf' || inputSource === 'image') && (
-            <>
-              <input
-                ref={fileInputRef}
-                type="file"
-                accept={inputSource === 'pdf' ? '.pdf' : 'image/*'}
-                style={{ display: 'none' }}
-                onChange={(e) => e.target.files?.[0] && handleFileSelect(e.target.files[0])}
-              />
-              
-              {!uploadedFile ? (
-                <div
-                  className="upload-zone"
-                  onClick={() => fileInputRef.current?.click()}
-                  onDragOver={handleDragOver}
-                  onDragLeave={handleDragLeave}
-                  onDrop={handleDrop}
-                >
-                  <UploadIcon />
-                  <p>Drag & drop or click to upload</p>
-                  <p className="file-types">
-                    {inputSource === 'pdf' ? 'PDF files only' : 'JPEG, PNG, GIF, WebP'}
-                  </p>
-                </div>
-              ) : (
-                <div className="file-preview">
-                  <div className="file-icon">
-                    {inputSource === 'pdf' ? <PdfIcon /> : <ImageIcon />}
-                  </div>
-                  <div className="file-info">
-                    <div className="file-name">{uploadedFile.name}</div>
-                    <div className="file-size">{formatFileSize(uploadedFile.size)}</div>
-                  </div>
-                  <button
-                    className="remove-file"
-                    onClick={() => setUploadedFile(null)}
-                  >
-                    <CloseIcon />
-                  </button>
-                </div>
-              )}
-            </>
-          )}
-        </section>
+        {/* View Tabs */}
+        <div className="input-tabs view-tabs">
+          <button
+            className={`tab-button ${view === 'create' ? 'active' : ''}`}
+            onClick={() => setView('create')}
+          >
+            <SparkleIcon /> Create
+          </button>
+          <button
+            className={`tab-button ${view === 'history' ? 'active' : ''}`}
+            onClick={() => setView('history')}
+          >
+            <HistoryIcon /> History{history.length > 0 ? ` (${history.length})` : ''}
+          </button>
+          <button
+            className={`tab-button ${view === 'usage' ? 'active' : ''}`}
+            onClick={() => setView('usage')}
+          >
+            Usage
+          </button>
+          <button
+            className={`tab-button ${view === 'advanced' ? 'active' : ''}`}
+            onClick={() => setView('advanced')}
+          >
+            Advanced
+          </button>
+        </div>
+
+        {view === 'advanced' && (
+          <>
+            <PromptTemplatesPanel
+              overrides={templateOverrides}
+              usesProxy={providerSettings.proxy.enabled}
+              onSave={handleSaveTemplate}
+              onReset={handleResetTemplate}
+            />
+            <CachePanel
+              settings={cacheSettings}
+              onChange={handleCacheSettingsChange}
+              onClear={handleClearCache}
+            />
+          </>
+        )}
 
-        {/* Platform Selector */}
-        <section className="section">
-          <div className="section-title">Platform</div>
-          <div className="selector-grid">
-            {PLATFORMS.map(p => (
+        {view === 'usage' && (
+          <UsagePanel
+            records={usageLog}
+            settings={usageSettings}
+            onSave={handleSaveUsageSettings}
+            onClear={handleClearUsage}
+          />
+        )}
+
+        {view === 'history' && (
+          <HistoryPanel
+            entries={history}
+            onToggleFavorite={handleToggleFavorite}
+            onDelete={handleDeleteRun}
+            onCopy={handleCopy}
+            onInsert={handleInsert}
+            insertLabel={canReplace ? 'Replace' : 'Insert'}
+            onExported={handleExported}
+          />
+        )}
+
+        {view === 'create' && (
+          <>
+          {/* Input Source Tabs */}
+          <section className="section">
+            <div className="section-title">Input Source</div>
+            <div className="input-tabs">
               <button
-                key={p.value}
-                className={`selector-button ${platform === p.value ? 'active' : ''}`}
-                onClick={() => setPlatform(p.value)}
+                className={`tab-button ${inputSource === 'text' ? 'active' : ''}`}
+                onClick={() => { setInputSource('text'); setUploadedFile(null); }}
               >
-                <span className="icon">{p.icon}</span>
-                {p.label}
+                <TextIcon /> Text
               </button>
-            ))}
-          </div>
-        </section>
-
-        {/* Tone Selector */}
-        <section className="section">
-          <div className="section-title">Tone</div>
-          <div className="selector-grid" style={{ gridTemplateColumns: 'repeat(2, 1fr)' }}>
-            {TONES.map(t => (
               <button
-                key={t.value}
-                className={`selector-button ${tone === t.value ? 'active' : ''}`}
-                onClick={() => setTone(t.value)}
+                className={`tab-button ${inputSource === 'pdf' ? 'active' : ''}`}
+                onClick={() => { setInputSource('pdf'); setUploadedFile(null); }}
               >
-                <span className="icon">{t.icon}</span>
-                {t.label}
+                <PdfIcon /> PDF
               </button>
-            ))}
-          </div>
-        </section>
+              <button
+                className={`tab-button ${inputSource === 'image' ? 'active' : ''}`}
+                onClick={() => { setInputSource('image'); setUploadedFile(null); }}
+              >
+                <ImageIcon /> Image
+              </button>
+              <button
+                className={`tab-button ${inputSource === 'canvas' ? 'active' : ''}`}
+                onClick={() => { setInputSource('canvas'); setUploadedFile(null); readCanvasSelection(); }}
+              >
+                <CanvasIcon /> Canvas
+              </button>
+            </div>
+
+            {/* Canvas Selection */}
+            {inputSource === 'canvas' && (
+              <div className="canvas-input">
+                {canvasContent && hasCanvasText(canvasContent) ? (
+                  <>
+                    {(canvasContent.pageName || canvasContent.groupNames.length > 0) && (
+                      <div className="canvas-meta">
+                        {[
+                          canvasContent.pageName && `Page: ${canvasContent.pageName}`,
+                          canvasContent.groupNames.length > 0 && `Groups: ${canvasContent.groupNames.join(', ')}`
+                        ].filter(Boolean).join(' · ')}
+                      </div>
+                    )}
+                    <p className="canvas-text">{canvasContent.texts.join('\n\n')}</p>
+                  </>
+                ) : (
+                  <p className="canvas-empty">
+                    Select text, or a group containing text, on the canvas. It is read again when you generate.
+                  </p>
+                )}
+                <button className="action-button" onClick={readCanvasSelection}>
+                  <RefreshIcon /> Read selection
+                </button>
+              </div>
+            )}
+
+            {/* Text Input */}
+            {inputSource === 'text' && (
+              <div className="text-input-wrapper">
+                <textarea
+                  className="text-input"
+                  placeholder="Describe your content, product, or idea...&#10;&#10;Example: We just launched our new eco-friendly water bottle that keeps drinks cold for 24 hours. Made from recycled ocean plastic!"
+                  value={textInput}
+                  onChange={(e) => setTextInput(e.target.value)}
+                  maxLength={2000}
+                />
+                <span className="char-count">{textInput.length}/2000</span>
+              </div>
+            )}
+
+            {/* File Upload */}
+            {(inputSource === 'pdf' || inputSource === 'image') && (
+              <>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept={inputSource === 'pdf' ? '.pdf' : 'image/*'}
+                  style={{ display: 'none' }}
+                  onChange={(e) => e.target.files?.[0] && handleFileSelect(e.target.files[0])}
+                />
+              
+                {!uploadedFile ? (
+                  <div
+                    className="upload-zone"
+                    onClick={() => fileInputRef.current?.click()}
+                    onDragOver={handleDragOver}
+                    onDragLeave={handleDragLeave}
+                    onDrop={handleDrop}
+                  >
+                    <UploadIcon />
+                    <p>Drag & drop or click to upload</p>
+                    <p className="file-types">
+                      {inputSource === 'pdf' ? 'PDF files only' : 'JPEG, PNG, GIF, WebP'}
+                    </p>
+                  </div>
+                ) : (
+                  <div className="file-preview">
+                    <div className="file-icon">
+                      {inputSource === 'pdf' ? <PdfIcon /> : <ImageIcon />}
+                    </div>
+                    <div className="file-info">
+                      <div className="file-name">{uploadedFile.name}</div>
+                      <div className="file-size">{formatFileSize(uploadedFile.size)}</div>
+                    </div>
+                    <button
+                      className="remove-file"
+                      onClick={() => setUploadedFile(null)}
+                    >
+                      <CloseIcon />
+                    </button>
+                  </div>
+                )}
+              </>
+            )}
+          </section>
 
-        {/* Language Selector */}
-        <section className="section">
-          <div className="section-title">Language</div>
-          <div className="language-grid">
-            {LANGUAGES.map(l => (
+          {/* Platform Selector */}
+          <section className="section">
+            <div className="section-title section-title-row">
+              Platform
+              <label className="batch-toggle">
+                <input
+                  type="checkbox"
+                  checked={batchMode}
+                  onChange={(e) => setBatchMode(e.target.checked)}
+                />
+                Multiple
+              </label>
+            </div>
+            <div className="selector-grid">
+              {PLATFORMS.map(p => (
+                <button
+                  key={p.value}
+                  className={`selector-button ${(batchMode ? batchPlatforms.includes(p.value) : platform === p.value) ? 'active' : ''}`}
+                  onClick={() => togglePlatform(p.value)}
+                >
+                  <span className="icon">{p.icon}</span>
+                  {p.label}
+                </button>
+              ))}
+            </div>
+            {batchMode && (
               <button
-                key={l.value}
-                className={`selector-button ${language === l.value ? 'active' : ''}`}
-                onClick={() => setLanguage(l.value)}
+                className="fix-button batch-select-all"
+                onClick={() => setBatchPlatforms(batchPlatforms.length === PLATFORM_IDS.length ? [] : PLATFORM_IDS)}
               >
-                {l.label}
+                {batchPlatforms.length === PLATFORM_IDS.length ? 'Clear selection' : 'Select all'}
               </button>
-            ))}
-          </div>
-        </section>
+            )}
+          </section>
 
-        {/* Error Message */}
-        {error && (
-          <div className="error-message">
-            ⚠️ {error}
-          </div>
-        )}
+          {/* Tone Selector */}
+          <section className="section">
+            <div className="section-title">Tone</div>
+            <div className="selector-grid" style={{ gridTemplateColumns: 'repeat(2, 1fr)' }}>
+              {TONES.map(t => (
+                <button
+                  key={t.value}
+                  className={`selector-button ${tone === t.value ? 'active' : ''}`}
+                  onClick={() => setTone(t.value)}
+                >
+                  <span className="icon">{t.icon}</span>
+                  {t.label}
+                </button>
+              ))}
+            </div>
+          </section>
 
-        {/* Generate Button */}
-        <button
-          className="generate-button"
-          onClick={handleGenerate}
-          disabled={isLoading || !canGenerate}
-        >
-          {isLoading ? (
-            <>
-              <div className="loading-spinner" style={{ width: '18px', height: '18px' }} />
-              Generating...
-            </>
-          ) : (
-            <>
-              <SparkleIcon /> Generate Captions
-            </>
-          )}
-        </button>
-
-        {/* Loading State */}
-        {isLoading && (
-          <div className="loading-container">
-            <div className="loading-spinner" />
-            <p className="loading-text">Creating magic...</p>
-            <p className="loading-step">{loadingStep}</p>
-          </div>
-        )}
+          {/* Brand Kit */}
+          <section className="section">
+            <div className="section-title">Brand Kit</div>
+            <BrandKitPanel
+              kits={brandKits}
+              activeId={activeBrandKitId}
+              onSelect={(kitId) => updateBrandKits(brandKits, kitId)}
+              onSave={handleSaveBrandKit}
+              onDelete={handleDeleteBrandKit}
+            />
+          </section>
+
+          {/* Pinned Hashtags */}
+          <section className="section">
+            <div className="section-title">Pinned Hashtags</div>
+            <input
+              type="text"
+              className="api-key-input"
+              placeholder="#YourBrand #Campaign"
+              value={pinnedInput}
+              onChange={(e) => setPinnedInput(e.target.value)}
+              onBlur={handlePinnedBlur}
+            />
+          </section>
 
-        {/* Summary Section */}
-        {summary && !isLoading && (
-          <div className="summary-section">
-            <div className="summary-title">📊 Content Analysis</div>
-            <ul className="summary-bullets">
-              {summary.bulletPoints.map((point, i) => (
-                <li key={i}>{point}</li>
+          {/* Language Selector */}
+          <section className="section">
+            <div className="section-title">Language</div>
+            <div className="language-grid">
+              {LANGUAGES.map(l => (
+                <button
+                  key={l.value}
+                  className={`selector-button ${language === l.value ? 'active' : ''}`}
+                  onClick={() => setLanguage(l.value)}
+                >
+                  {l.label}
+                </button>
               ))}
-            </ul>
-          </div>
-        )}
+            </div>
+          </section>
 
-        {/* Results Section */}
-        {captions.length > 0 && !isLoading && (
-          <section className="results-section">
-            <div className="results-header">
-              <h3>✨ Generated Captions</h3>
+          {/* Error Message */}
+          {error && (
+            <div className="error-message">
+              ⚠️ {error}
             </div>
+          )}
 
-            {captions.map((caption, index) => (
-              <div key={caption.id} className="caption-card">
-                <div className="caption-label">Caption {index + 1}</div>
-                
-                {/* Hook Lines */}
-                {caption.hookLines.length > 0 && (
-                  <div style={{ marginBottom: '12px' }}>
-                    {caption.hookLines.map((hook, i) => (
-                      <div key={i} className="hook-line">
-                        💡 {hook}
-                      </div>
-                    ))}
-                  </div>
-                )}
-                
-                {/* Main Caption */}
-                <p className="caption-text">{caption.caption}</p>
-                
-                {/* CTA */}
-                {caption.cta && (
-                  <div className="cta">
-                    <div className="cta-label">Call to Action</div>
-                    {caption.cta}
-                  </div>
+          {/* Generate Button */}
+          <button
+            className="generate-button"
+            onClick={handleGenerate}
+            disabled={isLoading || !canGenerate}
+          >
+            {isLoading ? (
+              <>
+                <div className="loading-spinner" style={{ width: '18px', height: '18px' }} />
+                Generating...
+              </>
+            ) : (
+              <>
+                <SparkleIcon /> {batchMode ? `Generate for ${batchPlatforms.length} platform${batchPlatforms.length === 1 ? '' : 's'}` : 'Generate Captions'}
+              </>
+            )}
+          </button>
+
+          {/* Loading State (until the first caption starts streaming) */}
+          {isLoading && !hasCaptions && (
+            <div className="loading-container">
+              <div className="loading-spinner" />
+              <p className="loading-text">Creating magic...</p>
+              <p className="loading-step">{loadingStep}</p>
+              <button className="action-button stop-button" onClick={handleStop}>
+                {isStreaming ? '⏹ Stop' : '✕ Cancel'}
+              </button>
+            </div>
+          )}
+
+          {/* Summary Section */}
+          {summary && (
+            <div className="summary-section">
+              <div className="summary-title">
+                📊 Content Analysis
+                {summary.pageCount !== undefined && (
+                  <span className="summary-meta">
+                    {summary.pageCount} {summary.pageCount === 1 ? 'page' : 'pages'}
+                  </span>
                 )}
-                
-                {/* Hashtags (Instagram only) */}
-                {platform === 'instagram' && caption.hashtags.length > 0 && (
-                  <div className="hashtags">
-                    {caption.hashtags.map((tag, i) => (
-                      <span key={i} className="hashtag">#{tag}</span>
-                    ))}
-                  </div>
+                {summary.isCached && (
+                  <span className="cached-badge" title="Same content as an earlier run: the analysis was reused">
+                    Cached
+                  </span>
                 )}
-                
-                {/* Actions */}
-                <div className="card-actions">
+              </div>
+              <ul className="summary-bullets">
+                {summary.bulletPoints.map((point, i) => (
+                  <li key={i}>{point}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Results Section */}
+          {hasCaptions && (
+            <section className="results-section">
+              <div className="results-header">
+                <h3>✨ Generated Captions</h3>
+                <div className="results-actions">
+                  {isStreaming && (
+                    <button className="action-button stop-button" onClick={handleStop}>
+                      ⏹ Stop
+                    </button>
+                  )}
+                  {!isLoading && captionSets.length > 1 && (
+                    <button className="action-button" onClick={handleCopyAll}>
+                      <CopyIcon /> Copy all
+                    </button>
+                  )}
                   <button
-                    className="action-button primary"
-                    onClick={() => handleInsert(caption)}
+                    className={`action-button ${showExport ? 'active' : ''}`}
+                    onClick={() => setShowExport(!showExport)}
+                    disabled={isLoading}
+                    title="Export"
                   >
-                    <InsertIcon /> Insert
+                    ⬇
                   </button>
                   <button
-                    className="action-button"
-                    onClick={() => handleCopy(caption)}
+                    className={`action-button ${showDistribute ? 'active' : ''}`}
+                    onClick={handleToggleDistribute}
+                    disabled={isLoading}
+                    title="Distribute across pages"
                   >
-                    <CopyIcon /> Copy
+                    📑
                   </button>
                   <button
-                    className="action-button"
-                    onClick={() => handleRegenerate(caption.id)}
+                    className={`action-button ${showInsertSettings ? 'active' : ''}`}
+                    onClick={() => setShowInsertSettings(!showInsertSettings)}
+                    title="Insert settings"
                   >
-                    <RefreshIcon />
+                    ⚙️
                   </button>
                 </div>
               </div>
-            ))}
-          </section>
+
+              {showInsertSettings && (
+                <InsertSettingsPanel options={insertOptions} onChange={updateInsertOptions} />
+              )}
+
+              {showExport && !isLoading && (
+                <ExportPanel
+                  sources={rankedCaptionSets.map(set => ({
+                    platform: set.platform,
+                    tone: resultSettings.tone,
+                    language: resultSettings.language,
+                    captions: set.captions
+                  }))}
+                  onExported={handleExported}
+                />
+              )}
+
+              {showDistribute && !isLoading && captions.length > 0 && (
+                <DistributePanel
+                  artboards={artboards}
+                  captions={rankedActiveCaptions}
+                  locale={getLanguage(resultSettings.language).locale}
+                  isInserting={isDistributing}
+                  onRefresh={refreshArtboards}
+                  onDistribute={handleDistribute}
+                />
+              )}
+
+              {/* Per-platform tabs in batch mode */}
+              {captionSets.length > 1 && (
+                <div className="input-tabs result-tabs">
+                  {captionSets.map(set => (
+                    <button
+                      key={set.platform}
+                      className={`tab-button ${resultPlatform === set.platform ? 'active' : ''}`}
+                      onClick={() => setResultPlatform(set.platform)}
+                    >
+                      {getPlatform(set.platform).icon} {getPlatform(set.platform).label}
+                      {set.error ? ' ⚠️' : ` (${set.captions.length})`}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {activeSet?.error && (
+                <div className="error-message">⚠️ {activeSet.error}</div>
+              )}
+
+              {rankedCaptions.map(({ caption, score }, index) => {
+                const versions = versionStacks[caption.id];
+                
+                return (
+                  <div
+                    key={caption.id}
+                    className={`caption-card ${caption.isPartial ? 'streaming' : ''}`}
+                    dir={getLanguage(resultSettings.language).direction}
+                    lang={getLanguage(resultSettings.language).locale}
+                  >
+                    <div className="caption-label">
+                      Caption {index + 1}
+                      {caption.isLocal && (
+                        <span className="local-badge" title="Written offline from templates, without an AI provider">
+                          Local mode
+                        </span>
+                      )}
+                      {caption.isCached && (
+                        <span className="cached-badge" title="Reused from an identical earlier request">
+                          Cached
+                        </span>
+                      )}
+                      {versions && (
+                        <span className="caption-versions" dir="ltr">
+                          <button
+                            onClick={() => handleStepVersion(caption.id, -1)}
+                            disabled={versions.index === 0}
+                            title="Previous version"
+                          >
+                            ‹
+                          </button>
+                          v{versions.index + 1}/{versions.versions.length}
+                          <button
+                            onClick={() => handleStepVersion(caption.id, 1)}
+                            disabled={versions.index === versions.versions.length - 1}
+                            title="Next version"
+                          >
+                            ›
+                          </button>
+                        </span>
+                      )}
+                    </div>
+                
+                    {/* Hook Lines */}
+                    {caption.hookLines.length > 0 && (
+                      <div style={{ marginBottom: '12px' }}>
+                        {caption.hookLines.map((hook, i) => (
+                          <div key={i} className="hook-line">
+                            💡 {hook}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                
+                    {/* Main Caption */}
+                    <p className="caption-text">{caption.caption}</p>
+                
+                    {/* CTA */}
+                    {caption.cta && (
+                      <div className="cta">
+                        <div className="cta-label">Call to Action</div>
+                        {caption.cta}
+                      </div>
+                    )}
+                
+                    {/* Hashtags (platforms that use them) */}
+                    {getPlatform(resultPlatform).hashtags.show && (caption.hashtags.length > 0 || !caption.isPartial) && (
+                      <div className="hashtags">
+                        {caption.hashtags.map((tag, i) => (
+                          <span key={i} className="hashtag">#{tag}</span>
+                        ))}
+                        {!caption.isPartial && canEditWithAi && (
+                          <button
+                            className="fix-button hashtag-reroll"
+                            onClick={() => handleRerollHashtags(caption.id)}
+                            disabled={isLoading || rerollingIds.has(caption.id)}
+                          >
+                            {rerollingIds.has(caption.id) ? 'Rolling...' : '🎲 New hashtags'}
+                          </button>
+                        )}
+                      </div>
+                    )}
+                
+                    {/* Local quality score */}
+                    {score && <ScoreBreakdown score={score} />}
+                
+                    {/* Brand rule violations */}
+                    {resultSettings.brandKit && !caption.isPartial && checkBrandRules(caption, resultSettings.brandKit).map((violation, i) => (
+                      <div key={i} className="brand-violation">⚠️ {violation.message}</div>
+                    ))}
+                
+                    {/* Platform constraint warnings with one-click fixes */}
+                    {!caption.isPartial && validateCaption(caption, resultPlatform).map(issue => (
+                      <div key={issue.code} className="constraint-issue">
+                        <div>⚠️ {issue.message}</div>
+                        <div className="constraint-fixes">
+                          {issue.fixes.map(fix => (
+                            <button key={fix} className="fix-button" onClick={() => handleApplyFix(caption.id, fix)}>
+                              {FIX_LABELS[fix]}
+                            </button>
+                          ))}
+                          {issue.code === 'too-long' && canEditWithAi && (
+                            <button
+                              className="fix-button"
+                              onClick={() => handleAiShorten(caption.id)}
+                              disabled={shorteningIds.has(caption.id)}
+                            >
+                              {shorteningIds.has(caption.id) ? 'Shortening...' : '✨ Shorten with AI'}
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                
+                    {/* Hashtags moved out of the caption */}
+                    {caption.firstComment && (
+                      <div className="cta first-comment">
+                        <div className="cta-label">First Comment</div>
+                        {caption.firstComment}
+                        <button
+                          className="fix-button"
+                          onClick={() => navigator.clipboard.writeText(caption.firstComment || '').then(() => showToast('First comment copied! 📋'))}
+                        >
+                          Copy
+                        </button>
+                      </div>
+                    )}
+                
+                    {/* Actions */}
+                    <div className="card-actions">
+                      <button
+                        className="action-button primary"
+                        onClick={() => handleInsert(caption)}
+                        disabled={caption.isPartial}
+                      >
+                        {canReplace ? <><RefreshIcon /> Replace</> : <><InsertIcon /> Insert</>}
+                      </button>
+                      <button
+                        className="action-button"
+                        onClick={() => handleCopy(caption)}
+                        disabled={caption.isPartial}
+                      >
+                        <CopyIcon /> Copy
+                      </button>
+                      {canEditWithAi && (
+                        <button
+                          className={`action-button ${refineOpenId === caption.id ? 'active' : ''}`}
+                          onClick={() => setRefineOpenId(refineOpenId === caption.id ? null : caption.id)}
+                          disabled={isLoading}
+                          title="Refine"
+                        >
+                          ✏️
+                        </button>
+                      )}
+                      <button
+                        className="action-button"
+                        onClick={() => handleRegenerate(caption.id)}
+                        disabled={isLoading}
+                      >
+                        <RefreshIcon />
+                      </button>
+                    </div>
+                
+                    {/* Refine with a preset or instruction */}
+                    {refineOpenId === caption.id && !isLoading && canEditWithAi && (
+                      <RefinePanel
+                        isRefining={refiningIds.has(caption.id)}
+                        onRefine={(instruction) => handleRefine(caption.id, instruction)}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+            </section>
+          )}
+          </>
         )}
 
         {/* Toast Notification */}
@@ -0,0 +1,224 @@
+/**
+ * API Key Manager Panel
+ *
+ * Stored keys are shown masked with their last test result, and can be
+ * tested again, replaced or removed. New keys are tested before they
+ * are saved. Keys are encrypted on this device, optionally with a
+ * passphrase that is asked for to unlock them.
+ */
+
+import React, { useState } from 'react';
+
+import { ApiKeyCheck, ProviderId, ProviderSettings } from '../../types';
+import { PROVIDER_IDS, PROVIDER_PRESETS } from '../../services/providers';
+import { maskApiKey } from '../../services/apiKeyManager';
+
+interface ApiKeyManagerPanelProps {
+  settings: ProviderSettings;
+  checks: Partial<Record<ProviderId, ApiKeyCheck>>;
+  locked: boolean;        // Keys are protected by a passphrase that hasn't been entered yet
+  hasPassphrase: boolean;
+  onSaveKey: (providerId: ProviderId, key: string) => Promise<ApiKeyCheck>;
+  onTestKey: (providerId: ProviderId) => Promise<void>;
+  onRemoveKey: (providerId: ProviderId) => void;
+  onUnlock: (passphrase: string) => Promise<boolean>;
+  onSetPassphrase: (passphrase: string | null) => Promise<void>;
+}
+
+const STATUS_LABELS: Record<ApiKeyCheck['status'], string> = {
+  valid: '✓ Valid',
+  invalid: '✗ Rejected',
+  unverified: '? Not tested'
+};
+
+const ApiKeyManagerPanel: React.FC<ApiKeyManagerPanelProps> = ({
+  settings,
+  checks,
+  locked,
+  hasPassphrase,
+  onSaveKey,
+  onTestKey,
+  onRemoveKey,
+  onUnlock,
+  onSetPassphrase
+}) => {
+  const [drafts, setDrafts] = useState<Partial<Record<ProviderId, string>>>({});
+  const [replacing, setReplacing] = useState<Set<ProviderId>>(new Set());
+  const [busy, setBusy] = useState<Set<ProviderId>>(new Set());
+  const [draftChecks, setDraftChecks] = useState<Partial<Record<ProviderId, ApiKeyCheck>>>({});
+  const [passphrase, setPassphrase] = useState('');
+  const [passphraseError, setPassphraseError] = useState<string | null>(null);
+
+  // Keys the pipeline needs, plus any other stored key so it can be removed
+  const used = new Set([settings.summarize.providerId, settings.caption.providerId]);
+  const providers = PROVIDER_IDS
+    .map(id => PROVIDER_PRESETS[id])
+    .filter(preset => preset.requiresApiKey && (used.has(preset.id) || settings.apiKeys[preset.id]));
+
+  const runBusy = async (providerId: ProviderId, task: () => Promise<void>) => {
+    setBusy(ids => new Set(ids).add(providerId));
+    try {
+      await task();
+    } finally {
+      setBusy(ids => {
+        const next = new Set(ids);
+        next.delete(providerId);
+        return next;
+      });
+    }
+  };
+
+  const stopReplacing = (providerId: ProviderId) => {
+    setReplacing(ids => {
+      const next = new Set(ids);
+      next.delete(providerId);
+      return next;
+    });
+    setDrafts(current => ({ ...current, [providerId]: '' }));
+  };
+
+  const handleSave = (providerId: ProviderId) => runBusy(providerId, async () => {
+    const check = await onSaveKey(providerId, drafts[providerId] || '');
+    setDraftChecks(current => ({ ...current, [providerId]: check }));
+    // A rejected key isn't saved: keep it in the field to fix
+    if (check.status !== 'invalid') stopReplacing(providerId);
+  });
+
+  const handleRemove = (providerId: ProviderId) => {
+    setDraftChecks(current => ({ ...current, [providerId]: undefined }));
+    onRemoveKey(providerId);
+  };
+
+  const handleUnlock = async () => {
+    setPassphraseError(null);
+    if (await onUnlock(passphrase)) {
+      setPassphrase('');
+    } else {
+      setPassphraseError('Wrong passphrase');
+    }
+  };
+
+  const handleSetPassphrase = async (value: string | null) => {
+    await onSetPassphrase(value);
+    setPassphrase('');
+  };
+
+  if (locked) {
+    return (
+      <div className="api-key-section key-manager">
+        <div className="section-title">🔒 API Keys Locked</div>
+        <label className="api-key-label">Enter your passphrase to unlock the saved keys</label>
+        <input
+          type="password"
+          className="api-key-input"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && passphrase && handleUnlock()}
+        />
+        {passphraseError && <div className="brand-violation">⚠️ {passphraseError}</div>}
+        <button className="action-button primary" onClick={handleUnlock} disabled={!passphrase}>
+          Unlock
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="api-key-section key-manager">
+      <div className="section-title">🔐 API Keys</div>
+
+      {providers.map(preset => {
+        const stored = settings.apiKeys[preset.id];
+        const check = checks[preset.id];
+        const draftCheck = draftChecks[preset.id];
+        const isBusy = busy.has(preset.id);
+        const showInput = !stored || replacing.has(preset.id);
+
+        return (
+          <div key={preset.id} className="key-manager-row">
+            <label className="api-key-label">{preset.label} API Key</label>
+
+            {stored && !replacing.has(preset.id) && (
+              <div className="key-manager-stored">
+                <code>{maskApiKey(stored)}</code>
+                {check && (
+                  <span className={`key-status ${check.status}`} title={check.message}>
+                    {STATUS_LABELS[check.status]}
+                  </span>
+                )}
+                <button className="fix-button" onClick={() => runBusy(preset.id, () => onTestKey(preset.id))} disabled={isBusy}>
+                  {isBusy ? 'Testing...' : 'Test'}
+                </button>
+                <button className="fix-button" onClick={() => setReplacing(ids => new Set(ids).add(preset.id))}>
+                  Replace
+                </button>
+                <button className="fix-button" onClick={() => handleRemove(preset.id)}>
+                  Remove
+                </button>
+              </div>
+            )}
+
+            {showInput && (
+              <div className="key-manager-input">
+                <input
+                  type="password"
+                  className="api-key-input"
+                  placeholder={stored ? `New ${preset.label} API key` : `Enter your ${preset.label} API key`}
+                  value={drafts[preset.id] || ''}
+                  onChange={(e) => setDrafts(current => ({ ...current, [preset.id]: e.target.value }))}
+                  autoComplete="off"
+                />
+                <div className="card-actions">
+                  <button
+                    className="action-button primary"
+                    onClick={() => handleSave(preset.id)}
+                    disabled={isBusy || !drafts[preset.id]?.trim()}
+                  >
+                    {isBusy ? 'Testing...' : 'Test & save'}
+                  </button>
+                  {stored && (
+                    <button className="action-button" onClick={() => stopReplacing(preset.id)}>
+                      Cancel
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {draftCheck && (
+              <div className={`key-status-message ${draftCheck.status}`}>{draftCheck.message}</div>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="key-manager-passphrase">
+        <label className="api-key-label">
+          {hasPassphrase
+            ? 'Keys are encrypted with your passphrase'
+            : 'Keys are encrypted on this device. Add a passphrase to require it on every start.'}
+        </label>
+        <input
+          type="password"
+          className="api-key-input"
+          placeholder={hasPassphrase ? 'New passphrase' : 'Passphrase'}
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          autoComplete="new-password"
+        />
+        <div className="card-actions">
+          <button className="action-button" onClick={() => handleSetPassphrase(passphrase)} disabled={!passphrase}>
+            {hasPassphrase ? 'Change passphrase' : 'Set passphrase'}
+          </button>
+          {hasPassphrase && (
+            <button className="action-button" onClick={() => handleSetPassphrase(null)}>
+              Remove passphrase
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ApiKeyManagerPanel;
@@ -0,0 +1,206 @@
+/**
+ * Brand Kit Panel
+ *
+ * Picks the active brand kit and edits kits: voice, do/don't examples,
+ * banned words, required hashtags, default CTA and emoji policy.
+ */
+
+import React, { useState } from 'react';
+
+import { BrandKit, EmojiPolicy } from '../../types';
+import { createBrandKit } from '../../services/brandKitService';
+
+interface BrandKitPanelProps {
+  kits: BrandKit[];
+  activeId: string | null;
+  onSelect: (kitId: string | null) => void;
+  onSave: (kit: BrandKit) => void;
+  onDelete: (kitId: string) => void;
+}
+
+// List fields are edited as plain text until saved
+interface BrandKitDraft {
+  kit: BrandKit;
+  doExamples: string;
+  dontExamples: string;
+  bannedWords: string;
+  requiredHashtags: string;
+}
+
+const EMOJI_POLICIES: { value: EmojiPolicy; label: string }[] = [
+  { value: 'none', label: 'No emojis' },
+  { value: 'minimal', label: 'Minimal emojis' },
+  { value: 'expressive', label: 'Expressive emojis' }
+];
+
+const toDraft = (kit: BrandKit): BrandKitDraft => ({
+  kit,
+  doExamples: kit.doExamples.join('\n'),
+  dontExamples: kit.dontExamples.join('\n'),
+  bannedWords: kit.bannedWords.join(', '),
+  requiredHashtags: kit.requiredHashtags.map(h => `#${h}`).join(' ')
+});
+
+const splitLines = (text: string): string[] =>
+  text.split('\n').map(line => line.trim()).filter(Boolean);
+
+const splitList = (text: string): string[] =>
+  text.split(/[,\n]/).map(item => item.trim()).filter(Boolean);
+
+const splitHashtags = (text: string): string[] =>
+  [...new Set(text.split(/[\s,]+/).map(tag => tag.replace(/^#+/, '')).filter(Boolean))];
+
+const fromDraft = (draft: BrandKitDraft): BrandKit => ({
+  ...draft.kit,
+  name: draft.kit.name.trim() || 'Untitled kit',
+  doExamples: splitLines(draft.doExamples),
+  dontExamples: splitLines(draft.dontExamples),
+  bannedWords: splitList(draft.bannedWords),
+  requiredHashtags: splitHashtags(draft.requiredHashtags)
+});
+
+const BrandKitPanel: React.FC<BrandKitPanelProps> = ({
+  kits,
+  activeId,
+  onSelect,
+  onSave,
+  onDelete
+}) => {
+  const [draft, setDraft] = useState<BrandKitDraft | null>(null);
+
+  const activeKit = kits.find(kit => kit.id === activeId);
+
+  const updateKit = (changes: Partial<BrandKit>) => {
+    if (draft) setDraft({ ...draft, kit: { ...draft.kit, ...changes } });
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    onSave(fromDraft(draft));
+    setDraft(null);
+  };
+
+  const handleDelete = () => {
+    if (!draft) return;
+    onDelete(draft.kit.id);
+    setDraft(null);
+  };
+
+  return (
+    <div className="brand-kit-panel">
+      <div className="brand-kit-row">
+        <select
+          className="api-key-input"
+          value={activeId || ''}
+          onChange={(e) => onSelect(e.target.value || null)}
+        >
+          <option value="">No brand kit</option>
+          {kits.map(kit => (
+            <option key={kit.id} value={kit.id}>{kit.name}</option>
+          ))}
+        </select>
+        {activeKit && !draft && (
+          <button className="action-button" onClick={() => setDraft(toDraft(activeKit))}>
+            Edit
+          </button>
+        )}
+        {!draft && (
+          <button className="action-button" onClick={() => setDraft(toDraft(createBrandKit()))}>
+            + New
+          </button>
+        )}
+      </div>
+
+      {draft && (
+        <div className="api-key-section brand-kit-editor">
+          <label className="api-key-label">Name</label>
+          <input
+            type="text"
+            className="api-key-input"
+            value={draft.kit.name}
+            onChange={(e) => updateKit({ name: e.target.value })}
+          />
+
+          <label className="api-key-label">Voice</label>
+          <textarea
+            className="api-key-input"
+            rows={2}
+            placeholder="e.g. Warm, witty and confident. Speaks like a knowledgeable friend."
+            value={draft.kit.voice}
+            onChange={(e) => updateKit({ voice: e.target.value })}
+          />
+
+          <label className="api-key-label">Do - example sentences (one per line)</label>
+          <textarea
+            className="api-key-input"
+            rows={2}
+            value={draft.doExamples}
+            onChange={(e) => setDraft({ ...draft, doExamples: e.target.value })}
+          />
+
+          <label className="api-key-label">Don't - example sentences (one per line)</label>
+          <textarea
+            className="api-key-input"
+            rows={2}
+            value={draft.dontExamples}
+            onChange={(e) => setDraft({ ...draft, dontExamples: e.target.value })}
+          />
+
+          <label className="api-key-label">Banned words (comma separated)</label>
+          <input
+            type="text"
+            className="api-key-input"
+            placeholder="cheap, guarantee, best ever"
+            value={draft.bannedWords}
+            onChange={(e) => setDraft({ ...draft, bannedWords: e.target.value })}
+          />
+
+          <label className="api-key-label">Required hashtags</label>
+          <input
+            type="text"
+            className="api-key-input"
+            placeholder="#YourBrand #Campaign"
+            value={draft.requiredHashtags}
+            onChange={(e) => setDraft({ ...draft, requiredHashtags: e.target.value })}
+          />
+
+          <label className="api-key-label">Default call-to-action</label>
+          <input
+            type="text"
+            className="api-key-input"
+            placeholder="Shop the collection - link in bio"
+            value={draft.kit.defaultCta}
+            onChange={(e) => updateKit({ defaultCta: e.target.value })}
+          />
+
+          <label className="api-key-label">Emoji policy</label>
+          <select
+            className="api-key-input"
+            value={draft.kit.emojiPolicy}
+            onChange={(e) => updateKit({ emojiPolicy: e.target.value as EmojiPolicy })}
+          >
+            {EMOJI_POLICIES.map(policy => (
+              <option key={policy.value} value={policy.value}>{policy.label}</option>
+            ))}
+          </select>
+
+          <div className="card-actions">
+            <button className="action-button primary" onClick={handleSave}>
+              Save Kit
+            </button>
+            <button className="action-button" onClick={() => setDraft(null)}>
+              Cancel
+            </button>
+            {kits.some(kit => kit.id === draft.kit.id) && (
+              <button className="action-button" onClick={handleDelete}>
+                Delete
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BrandKitPanel;
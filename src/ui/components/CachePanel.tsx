@@ -0,0 +1,46 @@
+/**
+ * Cache Panel
+ *
+ * Content summaries are always reused for the same content; caption
+ * reuse for identical requests is optional, since asking again is
+ * usually how new variants are wanted. Both caches can be cleared.
+ */
+
+import React from 'react';
+
+import { CacheSettings } from '../../types';
+
+interface CachePanelProps {
+  settings: CacheSettings;
+  onChange: (settings: CacheSettings) => void;
+  onClear: () => void;
+}
+
+const CachePanel: React.FC<CachePanelProps> = ({ settings, onChange, onClear }) => {
+  return (
+    <section className="api-key-section cache-panel">
+      <div className="section-title">♻️ Cache</div>
+
+      <label className="api-key-label">
+        Content analysis is reused when only the platform, tone or language changes
+      </label>
+
+      <label className="api-key-label cache-toggle">
+        <input
+          type="checkbox"
+          checked={settings.captions}
+          onChange={(e) => onChange({ ...settings, captions: e.target.checked })}
+        />
+        Reuse captions for identical requests (for 24 hours)
+      </label>
+
+      <div className="card-actions">
+        <button className="action-button" onClick={onClear}>
+          Clear cache
+        </button>
+      </div>
+    </section>
+  );
+};
+
+export default CachePanel;
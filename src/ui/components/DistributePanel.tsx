@@ -0,0 +1,143 @@
+/**
+ * Distribute Panel
+ *
+ * Maps captions onto the document's pages/artboards and inserts them
+ * all at once: one caption variant per artboard, or one caption split
+ * into per-slide pieces for a carousel.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+
+import { ArtboardAssignment, ArtboardInfo, CaptionResult } from '../../types';
+import { mapVariantsToArtboards, splitIntoSlides } from '../../services/captionDistribution';
+
+type DistributionMode = 'variants' | 'split';
+
+interface DistributePanelProps {
+  artboards: ArtboardInfo[];
+  captions: CaptionResult[];
+  locale: string;
+  isInserting: boolean;
+  onRefresh: () => void;
+  onDistribute: (assignments: ArtboardAssignment[]) => void;
+}
+
+const DistributePanel: React.FC<DistributePanelProps> = ({
+  artboards,
+  captions,
+  locale,
+  isInserting,
+  onRefresh,
+  onDistribute
+}) => {
+  const [mode, setMode] = useState<DistributionMode>('variants');
+  const [variantIds, setVariantIds] = useState<(string | null)[]>([]);
+  const [splitCaptionId, setSplitCaptionId] = useState<string>('');
+
+  useEffect(() => {
+    setVariantIds(mapVariantsToArtboards(artboards, captions));
+    setSplitCaptionId(captions[0]?.id ?? '');
+  }, [artboards, captions]);
+
+  // Split mode: hook on the first slide, CTA and hashtags on the last
+  const slides = useMemo((): CaptionResult[] => {
+    const caption = captions.find(c => c.id === splitCaptionId);
+    if (!caption) return [];
+
+    const pieces = splitIntoSlides(caption.caption, artboards.length, locale);
+    return pieces.map((text, index) => ({
+      ...caption,
+      id: `${caption.id}-slide-${index}`,
+      caption: text,
+      hookLines: index === 0 ? caption.hookLines : [],
+      cta: index === pieces.length - 1 ? caption.cta : '',
+      hashtags: index === pieces.length - 1 ? caption.hashtags : []
+    }));
+  }, [captions, splitCaptionId, artboards.length, locale]);
+
+  const assignments: ArtboardAssignment[] = mode === 'variants'
+    ? artboards.flatMap((artboard, index) => {
+      const caption = captions.find(c => c.id === variantIds[index]);
+      return caption ? [{ artboardId: artboard.id, caption }] : [];
+    })
+    : slides.map((caption, index) => ({ artboardId: artboards[index].id, caption }));
+
+  if (artboards.length === 0) {
+    return (
+      <div className="api-key-section distribute-panel">
+        <p className="canvas-empty">No pages found in the document.</p>
+        <button className="action-button" onClick={onRefresh}>Refresh pages</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="api-key-section distribute-panel">
+      <div className="input-tabs">
+        <button
+          className={`tab-button ${mode === 'variants' ? 'active' : ''}`}
+          onClick={() => setMode('variants')}
+        >
+          One variant per page
+        </button>
+        <button
+          className={`tab-button ${mode === 'split' ? 'active' : ''}`}
+          onClick={() => setMode('split')}
+        >
+          Split into slides
+        </button>
+      </div>
+
+      {mode === 'split' && (
+        <select
+          className="api-key-input"
+          value={splitCaptionId}
+          onChange={(e) => setSplitCaptionId(e.target.value)}
+        >
+          {captions.map((caption, index) => (
+            <option key={caption.id} value={caption.id}>Caption {index + 1}</option>
+          ))}
+        </select>
+      )}
+
+      <div className="distribute-rows">
+        {artboards.map((artboard, index) => (
+          <div key={artboard.id} className="distribute-row">
+            <span className="distribute-label">
+              {artboard.label}{artboard.isCurrent ? ' (current)' : ''}
+            </span>
+            {mode === 'variants' ? (
+              <select
+                className="api-key-input"
+                value={variantIds[index] ?? ''}
+                onChange={(e) => setVariantIds(ids => ids.map((id, i) => i === index ? e.target.value || null : id))}
+              >
+                <option value="">Nothing</option>
+                {captions.map((caption, captionIndex) => (
+                  <option key={caption.id} value={caption.id}>Caption {captionIndex + 1}</option>
+                ))}
+              </select>
+            ) : (
+              <span className="distribute-preview">{slides[index]?.caption ?? '—'}</span>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="card-actions">
+        <button
+          className="action-button primary"
+          onClick={() => onDistribute(assignments)}
+          disabled={assignments.length === 0 || isInserting}
+        >
+          {isInserting ? 'Inserting...' : `Insert into ${assignments.length} page${assignments.length === 1 ? '' : 's'}`}
+        </button>
+        <button className="action-button" onClick={onRefresh}>
+          Refresh pages
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DistributePanel;
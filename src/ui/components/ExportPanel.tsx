@@ -0,0 +1,121 @@
+/**
+ * Export Panel
+ *
+ * Downloads captions as CSV (generic, Buffer, Hootsuite or Later), JSON
+ * or Markdown, optionally with a posting schedule (always for Hootsuite,
+ * which only imports dated posts).
+ */
+
+import React, { useState } from 'react';
+
+import { CaptionExportSource, ExportFormat } from '../../types';
+import {
+  downloadTextFile,
+  EXPORT_FORMAT_LABELS,
+  exportCaptions,
+  SCHEDULE_REQUIRED_FORMATS
+} from '../../services/captionExport';
+
+interface ExportPanelProps {
+  sources: CaptionExportSource[];
+  onExported: (fileName: string) => void;
+}
+
+const FORMATS = Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[];
+
+const INTERVALS: { value: number; label: string }[] = [
+  { value: 60, label: 'Every hour' },
+  { value: 180, label: 'Every 3 hours' },
+  { value: 360, label: 'Every 6 hours' },
+  { value: 720, label: 'Every 12 hours' },
+  { value: 1440, label: 'Every day' },
+  { value: 10080, label: 'Every week' }
+];
+
+// Value for a datetime-local input, in local time
+const toInputValue = (date: Date): string => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60_000);
+  return local.toISOString().slice(0, 16);
+};
+
+const nextHour = (): Date => {
+  const date = new Date();
+  date.setHours(date.getHours() + 1, 0, 0, 0);
+  return date;
+};
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ sources, onExported }) => {
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [scheduled, setScheduled] = useState(false);
+  const [start, setStart] = useState(() => toInputValue(nextHour()));
+  const [intervalMinutes, setIntervalMinutes] = useState(1440);
+
+  const captionCount = sources.reduce((count, source) => count + source.captions.length, 0);
+  const startTime = new Date(start).getTime();
+  const scheduleRequired = SCHEDULE_REQUIRED_FORMATS.includes(format);
+  const isScheduled = scheduled || scheduleRequired;
+  const canExport = captionCount > 0 && (!isScheduled || Number.isFinite(startTime));
+
+  const handleExport = () => {
+    const file = exportCaptions(sources, {
+      format,
+      schedule: isScheduled ? { start: startTime, intervalMinutes } : undefined
+    });
+    downloadTextFile(file.fileName, file.content, file.mimeType);
+    onExported(file.fileName);
+  };
+
+  return (
+    <div className="api-key-section export-panel">
+      <select
+        className="api-key-input"
+        value={format}
+        onChange={(e) => setFormat(e.target.value as ExportFormat)}
+      >
+        {FORMATS.map(f => (
+          <option key={f} value={f}>{EXPORT_FORMAT_LABELS[f]}</option>
+        ))}
+      </select>
+
+      <label className="api-key-label export-schedule-toggle">
+        <input
+          type="checkbox"
+          checked={isScheduled}
+          disabled={scheduleRequired}
+          onChange={(e) => setScheduled(e.target.checked)}
+        />
+        {scheduleRequired ? 'Posting schedule (required by this format)' : 'Add posting schedule'}
+      </label>
+
+      {isScheduled && (
+        <div className="export-schedule">
+          <input
+            type="datetime-local"
+            className="api-key-input"
+            value={start}
+            onChange={(e) => setStart(e.target.value)}
+          />
+          <select
+            className="api-key-input"
+            value={intervalMinutes}
+            onChange={(e) => setIntervalMinutes(Number(e.target.value))}
+          >
+            {INTERVALS.map(i => (
+              <option key={i.value} value={i.value}>{i.label}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <button
+        className="action-button primary"
+        onClick={handleExport}
+        disabled={!canExport}
+      >
+        ⬇ Export {captionCount} caption{captionCount === 1 ? '' : 's'}
+      </button>
+    </div>
+  );
+};
+
+export default ExportPanel;
@@ -0,0 +1,215 @@
+/**
+ * History Panel
+ *
+ * Lists past generation runs with search, platform/tone filters and
+ * starred favourites. Captions can be copied or inserted again, runs
+ * can be deleted, and selected runs can be exported.
+ */
+
+import React, { useMemo, useState } from 'react';
+
+import { CaptionResult, HistoryEntry, HistoryFilter, Platform, Tone } from '../../types';
+import { DEFAULT_HISTORY_FILTER, filterHistory } from '../../services/historyService';
+import { getLanguage } from '../../services/languages';
+import { formatCost, formatTokens } from '../../services/usageService';
+import { PLATFORMS, TONES } from '../options';
+import ExportPanel from './ExportPanel';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  onToggleFavorite: (entryId: string, captionId: string) => void;
+  onDelete: (entryId: string) => void;
+  onCopy: (caption: CaptionResult, platform: Platform) => void;
+  onInsert: (caption: CaptionResult, platform: Platform) => void;
+  insertLabel: string; // "Replace" while a text node is selected
+  onExported: (fileName: string) => void;
+}
+
+const formatDate = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+const describeSource = (entry: HistoryEntry): string => {
+  if (entry.source.fileName) return `${entry.source.type.toUpperCase()}: ${entry.source.fileName}`;
+  const text = entry.source.text || entry.summary.mainIdea;
+  return text.length > 80 ? `${text.substring(0, 80)}...` : text;
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  entries,
+  onToggleFavorite,
+  onDelete,
+  onCopy,
+  onInsert,
+  insertLabel,
+  onExported
+}) => {
+  const [filter, setFilter] = useState<HistoryFilter>(DEFAULT_HISTORY_FILTER);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const visible = useMemo(() => filterHistory(entries, filter), [entries, filter]);
+  const selected = useMemo(
+    () => entries.filter(entry => selectedIds.includes(entry.id)),
+    [entries, selectedIds]
+  );
+
+  const toggleSelected = (entryId: string) => setSelectedIds(ids =>
+    ids.includes(entryId) ? ids.filter(id => id !== entryId) : [...ids, entryId]
+  );
+
+  const updateFilter = (changes: Partial<HistoryFilter>) => setFilter({ ...filter, ...changes });
+
+  return (
+    <section className="history-section">
+      <div className="history-filters">
+        <input
+          type="search"
+          className="api-key-input"
+          placeholder="Search captions, hashtags, sources..."
+          value={filter.query}
+          onChange={(e) => updateFilter({ query: e.target.value })}
+        />
+        <div className="history-filter-row">
+          <select
+            className="api-key-input"
+            value={filter.platform}
+            onChange={(e) => updateFilter({ platform: e.target.value as Platform | 'all' })}
+          >
+            <option value="all">All platforms</option>
+            {PLATFORMS.map(p => (
+              <option key={p.value} value={p.value}>{p.icon} {p.label}</option>
+            ))}
+          </select>
+          <select
+            className="api-key-input"
+            value={filter.tone}
+            onChange={(e) => updateFilter({ tone: e.target.value as Tone | 'all' })}
+          >
+            <option value="all">All tones</option>
+            {TONES.map(t => (
+              <option key={t.value} value={t.value}>{t.icon} {t.label}</option>
+            ))}
+          </select>
+          <button
+            className={`action-button ${filter.favoritesOnly ? 'primary' : ''}`}
+            onClick={() => updateFilter({ favoritesOnly: !filter.favoritesOnly })}
+            title="Show favourites only"
+          >
+            ★
+          </button>
+        </div>
+      </div>
+
+      {selected.length > 0 && (
+        <div className="history-export">
+          <div className="history-export-header">
+            <span>{selected.length} run{selected.length === 1 ? '' : 's'} selected</span>
+            <button className="action-button" onClick={() => setSelectedIds([])}>
+              Clear
+            </button>
+          </div>
+          <ExportPanel sources={selected} onExported={onExported} />
+        </div>
+      )}
+
+      {visible.length === 0 && (
+        <p className="history-empty">
+          {entries.length === 0
+            ? 'No history yet. Generated captions will appear here.'
+            : 'No runs match these filters.'}
+        </p>
+      )}
+
+      {visible.map(entry => {
+        const platformOption = PLATFORMS.find(p => p.value === entry.platform);
+        const toneOption = TONES.find(t => t.value === entry.tone);
+        const isExpanded = expandedId === entry.id || filter.favoritesOnly;
+
+        return (
+          <div key={entry.id} className="history-entry">
+            <div
+              className="history-entry-header"
+              onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+            >
+              <div className="history-entry-meta">
+                <input
+                  type="checkbox"
+                  className="history-select"
+                  checked={selectedIds.includes(entry.id)}
+                  onClick={(e) => e.stopPropagation()}
+                  onChange={() => toggleSelected(entry.id)}
+                  title="Select for export"
+                />
+                <span>{formatDate(entry.createdAt)}</span>
+                <span>{platformOption?.icon} {platformOption?.label}</span>
+                <span>{toneOption?.label}</span>
+                {entry.favoriteCaptionIds.length > 0 && <span>★ {entry.favoriteCaptionIds.length}</span>}
+                {entry.usage && (
+                  <span title={`${entry.usage.calls} provider calls`}>
+                    {formatTokens(entry.usage.promptTokens + entry.usage.completionTokens)} tokens · {formatCost(entry.usage.cost)}
+                  </span>
+                )}
+              </div>
+              <div className="history-entry-source">{describeSource(entry)}</div>
+            </div>
+
+            {isExpanded && (
+              <>
+                {entry.captions.map((caption, index) => {
+                  const isFavorite = entry.favoriteCaptionIds.includes(caption.id);
+
+                  return (
+                    <div
+                      key={caption.id}
+                      className="caption-card"
+                      dir={getLanguage(entry.language).direction}
+                      lang={getLanguage(entry.language).locale}
+                    >
+                      <div className="caption-label">Caption {index + 1}</div>
+                      <p className="caption-text">{caption.caption}</p>
+                      <div className="card-actions">
+                        <button
+                          className="action-button primary"
+                          onClick={() => onInsert(caption, entry.platform)}
+                        >
+                          {insertLabel}
+                        </button>
+                        <button
+                          className="action-button"
+                          onClick={() => onCopy(caption, entry.platform)}
+                        >
+                          Copy
+                        </button>
+                        <button
+                          className={`action-button favorite-button ${isFavorite ? 'active' : ''}`}
+                          onClick={() => onToggleFavorite(entry.id, caption.id)}
+                          title={isFavorite ? 'Remove from favourites' : 'Add to favourites'}
+                        >
+                          {isFavorite ? '★' : '☆'}
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+
+                <button
+                  className="action-button history-delete"
+                  onClick={() => onDelete(entry.id)}
+                >
+                  Delete run
+                </button>
+              </>
+            )}
+          </div>
+        );
+      })}
+    </section>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,146 @@
+/**
+ * Insert Settings Panel
+ *
+ * Chooses how captions land on the canvas: placement, wrap width,
+ * font size, colour, alignment and one text box vs separate parts.
+ */
+
+import React from 'react';
+
+import { InsertLayout, InsertOptions, InsertPlacement, TextAlign } from '../../types';
+import { DEFAULT_INSERT_OPTIONS } from '../../services/insertSettings';
+
+interface InsertSettingsPanelProps {
+  options: InsertOptions;
+  onChange: (options: InsertOptions) => void;
+}
+
+const PLACEMENTS: { value: InsertPlacement; label: string }[] = [
+  { value: 'center', label: 'Center of page' },
+  { value: 'below-selection', label: 'Below selection' },
+  { value: 'top-left', label: 'Top left' },
+  { value: 'top-right', label: 'Top right' },
+  { value: 'bottom-left', label: 'Bottom left' },
+  { value: 'bottom-right', label: 'Bottom right' }
+];
+
+const LAYOUTS: { value: InsertLayout; label: string }[] = [
+  { value: 'single', label: 'One text box' },
+  { value: 'separate', label: 'Separate boxes per part' }
+];
+
+const ALIGNMENTS: { value: TextAlign; label: string }[] = [
+  { value: 'left', label: 'Left' },
+  { value: 'center', label: 'Center' },
+  { value: 'right', label: 'Right' }
+];
+
+const InsertSettingsPanel: React.FC<InsertSettingsPanelProps> = ({ options, onChange }) => {
+  const update = (changes: Partial<InsertOptions>) => onChange({ ...options, ...changes });
+
+  // Empty or out-of-range numbers fall back to the default
+  const toNumber = (value: string, fallback: number, min: number) => {
+    const parsed = Number(value);
+    return value !== '' && Number.isFinite(parsed) && parsed >= min ? parsed : fallback;
+  };
+
+  return (
+    <div className="api-key-section insert-settings">
+      <div className="insert-settings-grid">
+        <label className="api-key-label">
+          Placement
+          <select
+            className="api-key-input"
+            value={options.placement}
+            onChange={(e) => update({ placement: e.target.value as InsertPlacement })}
+          >
+            {PLACEMENTS.map(p => (
+              <option key={p.value} value={p.value}>{p.label}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="api-key-label">
+          Layout
+          <select
+            className="api-key-input"
+            value={options.layout}
+            onChange={(e) => update({ layout: e.target.value as InsertLayout })}
+          >
+            {LAYOUTS.map(l => (
+              <option key={l.value} value={l.value}>{l.label}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="api-key-label">
+          Font size
+          <input
+            type="number"
+            className="api-key-input"
+            min={6}
+            max={400}
+            value={options.fontSize}
+            onChange={(e) => update({ fontSize: toNumber(e.target.value, DEFAULT_INSERT_OPTIONS.fontSize, 6) })}
+          />
+        </label>
+
+        <label className="api-key-label">
+          Wrap width (0 = none)
+          <input
+            type="number"
+            className="api-key-input"
+            min={0}
+            step={20}
+            value={options.maxWidth}
+            onChange={(e) => update({ maxWidth: toNumber(e.target.value, 0, 0) })}
+          />
+        </label>
+
+        <label className="api-key-label">
+          Alignment
+          <select
+            className="api-key-input"
+            value={options.align}
+            onChange={(e) => update({ align: e.target.value as TextAlign })}
+          >
+            {ALIGNMENTS.map(a => (
+              <option key={a.value} value={a.value}>{a.label}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="api-key-label">
+          Colour
+          <input
+            type="color"
+            className="api-key-input insert-color"
+            value={options.color}
+            onChange={(e) => update({ color: e.target.value })}
+          />
+        </label>
+      </div>
+
+      <div className="insert-settings-parts">
+        <label className="api-key-label">
+          <input
+            type="checkbox"
+            checked={options.includeHook}
+            onChange={(e) => update({ includeHook: e.target.checked })}
+          />
+          Include hook
+        </label>
+        <label className="api-key-label">
+          <input
+            type="checkbox"
+            checked={options.includeCta}
+            onChange={(e) => update({ includeCta: e.target.checked })}
+          />
+          Include CTA
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default InsertSettingsPanel;
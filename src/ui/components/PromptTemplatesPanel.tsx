@@ -0,0 +1,105 @@
+/**
+ * Prompt Templates Panel
+ *
+ * Advanced settings: edit the caption and content-analysis prompts,
+ * with their variables listed and checked before saving, or go back
+ * to the built-in version.
+ */
+
+import React, { useEffect, useState } from 'react';
+
+import { PromptTemplateId, PromptTemplateOverrides } from '../../types';
+import {
+  PROMPT_TEMPLATE_IDS,
+  PROMPT_TEMPLATE_REGISTRY,
+  resolveTemplate,
+  validateTemplate
+} from '../../services/promptTemplates';
+
+interface PromptTemplatesPanelProps {
+  overrides: PromptTemplateOverrides;
+  usesProxy: boolean; // The proxy writes prompts from its own templates
+  onSave: (id: PromptTemplateId, body: string) => void;
+  onReset: (id: PromptTemplateId) => void;
+}
+
+const PromptTemplatesPanel: React.FC<PromptTemplatesPanelProps> = ({ overrides, usesProxy, onSave, onReset }) => {
+  const [templateId, setTemplateId] = useState<PromptTemplateId>('caption');
+  const active = resolveTemplate(templateId, overrides);
+  const [draft, setDraft] = useState(active.body);
+
+  // Start from the saved text when switching templates or after saving/resetting
+  useEffect(() => {
+    setDraft(active.body);
+  }, [templateId, active.body]);
+
+  const spec = PROMPT_TEMPLATE_REGISTRY[templateId];
+  const problems = validateTemplate(templateId, draft);
+  const isCustom = !!overrides[templateId];
+  const isChanged = draft !== active.body;
+
+  return (
+    <section className="api-key-section prompt-templates">
+      {usesProxy && (
+        <div className="api-key-label">
+          The proxy server uses its built-in templates; edits here apply when calling providers directly.
+        </div>
+      )}
+      <select
+        className="api-key-input"
+        value={templateId}
+        onChange={(e) => setTemplateId(e.target.value as PromptTemplateId)}
+      >
+        {PROMPT_TEMPLATE_IDS.map(id => (
+          <option key={id} value={id}>{PROMPT_TEMPLATE_REGISTRY[id].label}</option>
+        ))}
+      </select>
+
+      <div className="api-key-label">
+        Version {active.version}{isCustom ? ' (edited)' : ' (built-in)'}
+      </div>
+
+      <textarea
+        className="api-key-input prompt-template-body"
+        rows={14}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        spellCheck={false}
+      />
+
+      <ul className="prompt-variables">
+        {spec.variables.map(variable => (
+          <li key={variable.name}>
+            <code>{`{${variable.name}}`}</code>{variable.required ? ' *' : ''} {variable.description}
+          </li>
+        ))}
+      </ul>
+
+      {problems.map(problem => (
+        <div key={problem} className="brand-violation">⚠️ {problem}</div>
+      ))}
+
+      <div className="card-actions">
+        <button
+          className="action-button primary"
+          onClick={() => onSave(templateId, draft)}
+          disabled={!isChanged || problems.length > 0}
+        >
+          Save as new version
+        </button>
+        {isChanged && (
+          <button className="action-button" onClick={() => setDraft(active.body)}>
+            Discard
+          </button>
+        )}
+        {isCustom && (
+          <button className="action-button" onClick={() => onReset(templateId)}>
+            Reset to built-in
+          </button>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default PromptTemplatesPanel;
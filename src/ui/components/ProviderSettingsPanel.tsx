@@ -0,0 +1,129 @@
+/**
+ * Provider Settings Panel
+ *
+ * Lets the user pick the LLM provider, base URL and model for each
+ * pipeline stage, or send both stages to a proxy server that holds the
+ * keys. API keys are managed in ApiKeyManagerPanel.
+ */
+
+import React from 'react';
+
+import { PipelineStage, ProviderId, ProviderSettings } from '../../types';
+import { PROVIDER_IDS, PROVIDER_PRESETS } from '../../services/providers';
+
+interface ProviderSettingsPanelProps {
+  settings: ProviderSettings;
+  onChange: (settings: ProviderSettings) => void;
+  onSave: () => void;
+  onHide?: () => void;
+}
+
+const STAGES: { value: PipelineStage; label: string }[] = [
+  { value: 'summarize', label: 'Content Analysis' },
+  { value: 'caption', label: 'Caption Writing' }
+];
+
+const ProviderSettingsPanel: React.FC<ProviderSettingsPanelProps> = ({
+  settings,
+  onChange,
+  onSave,
+  onHide
+}) => {
+  // Switching provider resets the endpoint and model to its defaults
+  const handleProviderChange = (stage: PipelineStage, providerId: ProviderId) => {
+    const preset = PROVIDER_PRESETS[providerId];
+    onChange({
+      ...settings,
+      [stage]: {
+        providerId,
+        baseUrl: preset.defaultBaseUrl,
+        model: preset.defaultModel
+      }
+    });
+  };
+
+  const handleStageField = (stage: PipelineStage, field: 'baseUrl' | 'model', value: string) => {
+    onChange({
+      ...settings,
+      [stage]: { ...settings[stage], [field]: value }
+    });
+  };
+
+  const handleProxyToggle = (enabled: boolean) => {
+    onChange({ ...settings, proxy: { ...settings.proxy, enabled } });
+  };
+
+  return (
+    <div className="api-key-section">
+      <div className="section-title" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <span>🔑 AI Providers</span>
+        {onHide && (
+          <button
+            className="action-button"
+            style={{ padding: '4px 8px', fontSize: '10px' }}
+            onClick={onHide}
+          >
+            Hide
+          </button>
+        )}
+      </div>
+
+      <label className="api-key-label">
+        <input
+          type="checkbox"
+          checked={settings.proxy.enabled}
+          onChange={(e) => handleProxyToggle(e.target.checked)}
+        />
+        Use a proxy server (keys stay on the server)
+      </label>
+      {settings.proxy.enabled && (
+        <input
+          type="url"
+          className="api-key-input"
+          placeholder="Proxy URL, e.g. http://localhost:8787"
+          value={settings.proxy.url}
+          onChange={(e) => onChange({ ...settings, proxy: { ...settings.proxy, url: e.target.value } })}
+        />
+      )}
+
+      {!settings.proxy.enabled && STAGES.map(stage => (
+        <div key={stage.value} className="provider-stage">
+          <label className="api-key-label">{stage.label}</label>
+          <select
+            className="api-key-input"
+            value={settings[stage.value].providerId}
+            onChange={(e) => handleProviderChange(stage.value, e.target.value as ProviderId)}
+          >
+            {PROVIDER_IDS.map(id => (
+              <option key={id} value={id}>{PROVIDER_PRESETS[id].label}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            className="api-key-input"
+            placeholder="Model"
+            value={settings[stage.value].model}
+            onChange={(e) => handleStageField(stage.value, 'model', e.target.value)}
+          />
+          <input
+            type="url"
+            className="api-key-input"
+            placeholder="Base URL"
+            value={settings[stage.value].baseUrl}
+            onChange={(e) => handleStageField(stage.value, 'baseUrl', e.target.value)}
+          />
+        </div>
+      ))}
+
+      <button
+        className="action-button primary"
+        style={{ width: '100%', marginTop: '8px' }}
+        onClick={onSave}
+      >
+        Save Settings
+      </button>
+    </div>
+  );
+};
+
+export default ProviderSettingsPanel;
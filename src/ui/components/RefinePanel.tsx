@@ -0,0 +1,62 @@
+/**
+ * Refine Panel
+ *
+ * Quick presets and a free-text instruction for editing one caption
+ * card with the model.
+ */
+
+import React, { useState } from 'react';
+
+import { REFINE_PRESET_IDS, REFINE_PRESETS } from '../../services/captionRefinement';
+
+interface RefinePanelProps {
+  isRefining: boolean;
+  onRefine: (instruction: string) => void;
+}
+
+const RefinePanel: React.FC<RefinePanelProps> = ({ isRefining, onRefine }) => {
+  const [instruction, setInstruction] = useState('');
+
+  const submit = () => {
+    if (!instruction.trim()) return;
+    onRefine(instruction.trim());
+    setInstruction('');
+  };
+
+  return (
+    <div className="refine-panel">
+      <div className="constraint-fixes">
+        {REFINE_PRESET_IDS.map(preset => (
+          <button
+            key={preset}
+            className="fix-button"
+            onClick={() => onRefine(REFINE_PRESETS[preset].instruction)}
+            disabled={isRefining}
+          >
+            {REFINE_PRESETS[preset].label}
+          </button>
+        ))}
+      </div>
+      <div className="refine-input-row">
+        <input
+          type="text"
+          className="api-key-input"
+          placeholder="Or describe the change..."
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && submit()}
+          disabled={isRefining}
+        />
+        <button
+          className="action-button"
+          onClick={submit}
+          disabled={isRefining || !instruction.trim()}
+        >
+          {isRefining ? 'Refining...' : 'Refine'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RefinePanel;
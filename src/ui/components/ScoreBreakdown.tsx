@@ -0,0 +1,36 @@
+/**
+ * Score Breakdown
+ *
+ * A caption's local quality score, expandable into the factors that
+ * make it up.
+ */
+
+import React from 'react';
+
+import { CaptionScore } from '../../types';
+
+interface ScoreBreakdownProps {
+  score: CaptionScore;
+}
+
+const scoreLevel = (score: number): string => score >= 75 ? 'good' : score >= 50 ? 'fair' : 'poor';
+
+const ScoreBreakdown: React.FC<ScoreBreakdownProps> = ({ score }) => (
+  <details className="score-breakdown">
+    <summary>
+      <span className={`score-badge ${scoreLevel(score.total)}`}>{score.total}</span>
+      Quality score
+    </summary>
+    <ul>
+      {score.factors.map(factor => (
+        <li key={factor.id}>
+          <span className={`score-badge ${scoreLevel(factor.score)}`}>{factor.score}</span>
+          <span className="score-factor">{factor.label}</span>
+          <span className="score-detail">{factor.detail}</span>
+        </li>
+      ))}
+    </ul>
+  </details>
+);
+
+export default ScoreBreakdown;
@@ -0,0 +1,237 @@
+/**
+ * Usage Panel
+ *
+ * Token usage and estimated cost per day or month, the soft and hard
+ * budgets checked before generating, and the per-model price table
+ * used for the estimates.
+ */
+
+import React, { useEffect, useState } from 'react';
+
+import { BudgetLimit, UsagePeriod, UsageRecord, UsageSettings } from '../../types';
+import {
+  checkBudget,
+  DEFAULT_MODEL_PRICES,
+  formatCost,
+  formatTokens,
+  groupUsage
+} from '../../services/usageService';
+
+interface UsagePanelProps {
+  records: UsageRecord[];
+  settings: UsageSettings;
+  onSave: (settings: UsageSettings) => void;
+  onClear: () => void;
+}
+
+const PERIODS: { value: UsagePeriod; label: string }[] = [
+  { value: 'day', label: 'Per day' },
+  { value: 'month', label: 'Per month' }
+];
+
+// Most recent days or months listed
+const MAX_ROWS = 14;
+
+interface PriceRow {
+  model: string;
+  input: string;
+  output: string;
+}
+
+// Budgets as typed, parsed on save so partial entries like "1." survive
+type BudgetInputs = Record<UsagePeriod, Record<keyof BudgetLimit, string>>;
+
+const toBudgetInputs = (settings: UsageSettings): BudgetInputs => ({
+  day: { soft: String(settings.budgets.day.soft ?? ''), hard: String(settings.budgets.day.hard ?? '') },
+  month: { soft: String(settings.budgets.month.soft ?? ''), hard: String(settings.budgets.month.hard ?? '') }
+});
+
+const toRows = (settings: UsageSettings): PriceRow[] =>
+  Object.entries(settings.prices).map(([model, price]) => ({
+    model,
+    input: String(price.input),
+    output: String(price.output)
+  }));
+
+// Empty means no limit; negative or non-numbers are ignored the same way
+const toLimit = (value: string): number | null => {
+  const parsed = Number(value);
+  return value.trim() !== '' && Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+};
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ records, settings, onSave, onClear }) => {
+  const [period, setPeriod] = useState<UsagePeriod>('day');
+  const [budgets, setBudgets] = useState<BudgetInputs>(() => toBudgetInputs(settings));
+  const [priceRows, setPriceRows] = useState<PriceRow[]>(() => toRows(settings));
+
+  // Start from the saved settings after saving or loading them
+  useEffect(() => {
+    setBudgets(toBudgetInputs(settings));
+    setPriceRows(toRows(settings));
+  }, [settings]);
+
+  const groups = groupUsage(records, period).slice(0, MAX_ROWS);
+  const budgetCheck = checkBudget(records, settings.budgets);
+
+  const updateBudget = (budgetPeriod: UsagePeriod, field: keyof BudgetLimit, value: string) => {
+    setBudgets(current => ({ ...current, [budgetPeriod]: { ...current[budgetPeriod], [field]: value } }));
+  };
+
+  const updateRow = (index: number, changes: Partial<PriceRow>) => {
+    setPriceRows(rows => rows.map((row, i) => i === index ? { ...row, ...changes } : row));
+  };
+
+  const handleSave = () => {
+    const prices = Object.fromEntries(priceRows
+      .filter(row => row.model.trim())
+      .map(row => [row.model.trim(), { input: Number(row.input) || 0, output: Number(row.output) || 0 }]));
+    const toBudget = (inputs: BudgetInputs[UsagePeriod]): BudgetLimit => ({ soft: toLimit(inputs.soft), hard: toLimit(inputs.hard) });
+    onSave({ prices, budgets: { day: toBudget(budgets.day), month: toBudget(budgets.month) } });
+  };
+
+  return (
+    <section className="api-key-section usage-panel">
+      <div className="section-title">📊 Usage & Cost</div>
+
+      {budgetCheck.status !== 'ok' && (
+        <div className={budgetCheck.status === 'block' ? 'brand-violation' : 'usage-warning'}>
+          ⚠️ {budgetCheck.message}
+        </div>
+      )}
+
+      <select
+        className="api-key-input"
+        value={period}
+        onChange={(e) => setPeriod(e.target.value as UsagePeriod)}
+      >
+        {PERIODS.map(p => (
+          <option key={p.value} value={p.value}>{p.label}</option>
+        ))}
+      </select>
+
+      {groups.length === 0 ? (
+        <div className="api-key-label">No provider calls yet</div>
+      ) : (
+        <table className="usage-table">
+          <thead>
+            <tr>
+              <th>{period === 'day' ? 'Day' : 'Month'}</th>
+              <th>Calls</th>
+              <th>Tokens in / out</th>
+              <th>Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {groups.map(({ key, totals }) => (
+              <tr key={key}>
+                <td>{key}</td>
+                <td>{totals.calls}</td>
+                <td>{formatTokens(totals.promptTokens)} / {formatTokens(totals.completionTokens)}</td>
+                <td title={totals.unpricedCalls > 0 ? `${totals.unpricedCalls} calls to models without a price` : undefined}>
+                  {formatCost(totals.cost)}{totals.unpricedCalls > 0 ? '*' : ''}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {groups.some(group => group.totals.unpricedCalls > 0) && (
+        <div className="api-key-label">* Includes calls to models without a price below</div>
+      )}
+
+      <div className="section-title">Budgets (USD)</div>
+      <div className="usage-budgets">
+        {PERIODS.map(p => (
+          <React.Fragment key={p.value}>
+            <label className="api-key-label">
+              {p.value === 'day' ? 'Daily' : 'Monthly'} warning
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                className="api-key-input"
+                placeholder="None"
+                value={budgets[p.value].soft}
+                onChange={(e) => updateBudget(p.value, 'soft', e.target.value)}
+              />
+            </label>
+            <label className="api-key-label">
+              {p.value === 'day' ? 'Daily' : 'Monthly'} limit
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                className="api-key-input"
+                placeholder="None"
+                value={budgets[p.value].hard}
+                onChange={(e) => updateBudget(p.value, 'hard', e.target.value)}
+              />
+            </label>
+          </React.Fragment>
+        ))}
+      </div>
+
+      <div className="section-title">Prices (USD per million tokens)</div>
+      <div className="usage-prices">
+        {priceRows.map((row, index) => (
+          <div key={index} className="usage-price-row">
+            <input
+              type="text"
+              className="api-key-input"
+              placeholder="Model"
+              value={row.model}
+              onChange={(e) => updateRow(index, { model: e.target.value })}
+            />
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              className="api-key-input"
+              title="Input"
+              value={row.input}
+              onChange={(e) => updateRow(index, { input: e.target.value })}
+            />
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              className="api-key-input"
+              title="Output"
+              value={row.output}
+              onChange={(e) => updateRow(index, { output: e.target.value })}
+            />
+            <button className="fix-button" onClick={() => setPriceRows(rows => rows.filter((_, i) => i !== index))}>
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="card-actions">
+        <button
+          className="action-button"
+          onClick={() => setPriceRows(rows => [...rows, { model: '', input: '0', output: '0' }])}
+        >
+          Add model
+        </button>
+        <button
+          className="action-button"
+          onClick={() => setPriceRows(toRows({ ...settings, prices: DEFAULT_MODEL_PRICES }))}
+        >
+          Default prices
+        </button>
+      </div>
+
+      <div className="card-actions">
+        <button className="action-button primary" onClick={handleSave}>
+          Save
+        </button>
+        <button className="action-button" onClick={onClear} disabled={records.length === 0}>
+          Clear usage
+        </button>
+      </div>
+    </section>
+  );
+};
+
+export default UsagePanel;
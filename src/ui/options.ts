@@ -0,0 +1,31 @@
+/**
+ * Selector Options
+ *
+ * Labels and icons for the platform, tone and language pickers,
+ * shared by the generator and the History tab.
+ */
+
+import { Platform, Tone, Language } from '../types';
+import { PLATFORM_IDS, PLATFORM_REGISTRY } from '../services/platforms';
+import { LANGUAGE_IDS, LANGUAGE_REGISTRY } from '../services/languages';
+
+// Platform data (from the platform registry)
+export const PLATFORMS: { value: Platform; label: string; icon: string }[] = PLATFORM_IDS.map(id => ({
+  value: id,
+  label: PLATFORM_REGISTRY[id].label,
+  icon: PLATFORM_REGISTRY[id].icon
+}));
+
+// Tone data
+export const TONES: { value: Tone; label: string; icon: string }[] = [
+  { value: 'professional', label: 'Professional', icon: '👔' },
+  { value: 'fun', label: 'Fun', icon: '🎉' },
+  { value: 'genz', label: 'GenZ', icon: '🔥' },
+  { value: 'motivational', label: 'Motivational', icon: '💪' }
+];
+
+// Language data (from the language registry)
+export const LANGUAGES: { value: Language; label: string }[] = LANGUAGE_IDS.map(id => ({
+  value: id,
+  label: `${LANGUAGE_REGISTRY[id].flag} ${LANGUAGE_REGISTRY[id].label}`
+}));
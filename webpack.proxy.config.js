@@ -0,0 +1,40 @@
+const path = require("path");
+
+// Proxy server (server/) and its stub check, bundled with the shared services for Node
+module.exports = {
+  mode: process.env.NODE_ENV || "production",
+  name: "proxy",
+  target: "node20",
+  entry: {
+    proxy: "./server/index.ts",
+    check: "./server/check.ts"
+  },
+  output: {
+    path: path.resolve(__dirname, "server/dist"),
+    filename: "[name].js",
+    clean: true
+  },
+  module: {
+    rules: [
+      {
+        test: /\.ts$/,
+        exclude: /node_modules/,
+        use: {
+          loader: "babel-loader",
+          options: {
+            presets: [
+              ["@babel/preset-env", { modules: false, targets: { node: "20" } }],
+              "@babel/preset-typescript"
+            ]
+          }
+        }
+      }
+    ]
+  },
+  resolve: {
+    extensions: [".ts", ".js"]
+  },
+  optimization: {
+    minimize: false
+  }
+};